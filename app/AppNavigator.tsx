@@ -14,6 +14,9 @@ import GuildChatScreen from '@/screens/GuildChatScreen';
 import GuildDetailsScreen from '@/screens/GuildDetailsScreen';
 import GuildEventsScreen from '@/screens/GuildEventsScreen';
 import CreateEventScreen from '@/screens/CreateEventScreen';
+import AvatarEditorScreen from '@/screens/AvatarEditorScreen';
+import WorldBossScreen from '@/screens/WorldBossScreen';
+import JournalScreen from '@/screens/JournalScreen';
 import { RootStackParamList } from '../types/navigation';
 import { RouteProp } from '@react-navigation/native';
 
@@ -101,6 +104,9 @@ export default function AppNavigator() {
         <Stack.Screen name="GuildDetails" component={GuildDetailsScreen} />
         <Stack.Screen name="GuildEvents" component={GuildEventsScreen} />
         <Stack.Screen name="CreateEvent" component={CreateEventScreen} />
+        <Stack.Screen name="AvatarEditor" component={AvatarEditorScreen} />
+        <Stack.Screen name="WorldBoss" component={WorldBossScreen} />
+        <Stack.Screen name="Journal" component={JournalScreen} />
       </Stack.Navigator>
     </View>
   );
@@ -0,0 +1,77 @@
+import React, { createContext, useState, useEffect, useContext, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fetchCharacterClasses, setCharacterClasses } from '../lib/classes';
+import { CharacterClass } from '../types/classTypes';
+
+// The character_classes table is the source of truth. This store reads it
+// once per launch and mirrors it into lib/classes.ts for synchronous
+// lookups, keeping a copy in AsyncStorage for the next cold start.
+
+type ClassesContextType = {
+  classes: CharacterClass[];
+  loading: boolean;
+};
+
+const ClassesContext = createContext<ClassesContextType>({
+  classes: [],
+  loading: true,
+});
+
+const CACHE_KEY = 'character_classes_cache';
+
+const ClassesProvider = ({ children }: { children: React.ReactNode }) => {
+  const [classes, setClassesState] = useState<CharacterClass[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const applyClasses = (next: CharacterClass[]) => {
+      if (cancelled) return;
+      setCharacterClasses(next);
+      setClassesState(next);
+    };
+
+    const loadClasses = async () => {
+      try {
+        const cached = await AsyncStorage.getItem(CACHE_KEY);
+        if (cached) {
+          applyClasses(JSON.parse(cached));
+        }
+      } catch (error) {
+        console.error('Failed to read cached classes', error);
+      }
+
+      const { data, error } = await fetchCharacterClasses();
+      if (error) {
+        console.error('Error loading classes:', error);
+      } else if (data) {
+        applyClasses(data);
+        AsyncStorage.setItem(CACHE_KEY, JSON.stringify(data)).catch(cacheError => {
+          console.error('Failed to cache classes', cacheError);
+        });
+      }
+
+      if (!cancelled) {
+        setLoading(false);
+      }
+    };
+
+    loadClasses();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const value = useMemo(() => ({ classes, loading }), [classes, loading]);
+
+  return (
+    <ClassesContext.Provider value={value}>
+      {children}
+    </ClassesContext.Provider>
+  );
+};
+
+export default ClassesProvider;
+
+export const useCharacterClasses = () => useContext(ClassesContext);
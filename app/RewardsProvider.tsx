@@ -0,0 +1,194 @@
+import React, { createContext, useState, useEffect, useContext, useCallback, useMemo, useRef } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PostgrestError } from '@supabase/supabase-js';
+import { useAuth } from './AuthProvider';
+import { fetchRewards, isRewardClaimable, isRewardEarned, markEarnedRewards } from '../lib/rewards';
+import { onXpAwarded } from '../lib/xpAwards';
+import { Reward } from '../types/rewardTypes';
+
+// The rewards table is the source of truth. This store mirrors the signed-in
+// user's rows, keeping a copy per user id in AsyncStorage so the tab has
+// something to show before the first sync. Signing out drops both.
+//
+// Rewards are checked after every XP award, from any screen. New unlocks
+// wait in a queue that RewardCelebration shows one at a time.
+
+type RewardsContextType = {
+  rewards: Reward[];
+  loading: boolean;
+  // Applies a local change right away, e.g. after writing a row
+  setRewards: (update: Reward[] | ((prev: Reward[]) => Reward[])) => void;
+  // Re-reads the table
+  refreshRewards: () => Promise<{ data: Reward[] | null; error: PostgrestError | null }>;
+  // Has the server mark rewards whose conditions are now met and queues them
+  checkRewards: () => Promise<void>;
+  // Unlocks waiting to be celebrated, oldest first
+  unlockQueue: Reward[];
+  dismissUnlock: () => void;
+};
+
+const RewardsContext = createContext<RewardsContextType>({
+  rewards: [],
+  loading: true,
+  setRewards: () => {},
+  refreshRewards: async () => ({ data: null, error: null }),
+  checkRewards: async () => {},
+  unlockQueue: [],
+  dismissUnlock: () => {},
+});
+
+const CACHE_KEY_PREFIX = 'rewards_cache:';
+// Unscoped copy kept by older versions of the app
+const LEGACY_STORAGE_KEY = 'user_rewards';
+
+const getCacheKey = (userId: string) => `${CACHE_KEY_PREFIX}${userId}`;
+
+const RewardsProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user, loading: authLoading } = useAuth();
+  const userId: string | null = user?.id ?? null;
+  const [rewards, setRewardsState] = useState<Reward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unlockQueue, setUnlockQueue] = useState<Reward[]>([]);
+  // Whose rewards are in state, so a slow reply for a previous account is dropped
+  const userIdRef = useRef<string | null>(null);
+  // Checks run one at a time; a request during a check queues one more
+  const checkingRef = useRef(false);
+  const recheckRef = useRef(false);
+
+  const writeCache = useCallback((ownerId: string, next: Reward[]) => {
+    AsyncStorage.setItem(getCacheKey(ownerId), JSON.stringify(next)).catch(error => {
+      console.error('Failed to cache rewards', error);
+    });
+  }, []);
+
+  const setRewards = useCallback((update: Reward[] | ((prev: Reward[]) => Reward[])) => {
+    setRewardsState(prev => {
+      const next = typeof update === 'function' ? update(prev) : update;
+      if (userIdRef.current) writeCache(userIdRef.current, next);
+      return next;
+    });
+  }, [writeCache]);
+
+  const refreshRewards = useCallback(async () => {
+    const ownerId = userIdRef.current;
+    if (!ownerId) {
+      return { data: null, error: null };
+    }
+
+    const { data, error } = await fetchRewards(ownerId);
+    if (error) {
+      console.error('Error syncing rewards:', error);
+    } else if (data && userIdRef.current === ownerId) {
+      setRewardsState(data);
+      writeCache(ownerId, data);
+    }
+    return { data, error };
+  }, [writeCache]);
+
+  const checkRewards = useCallback(async () => {
+    const ownerId = userIdRef.current;
+    if (!ownerId) return;
+
+    if (checkingRef.current) {
+      recheckRef.current = true;
+      return;
+    }
+    checkingRef.current = true;
+
+    try {
+      const { data: earned, error } = await markEarnedRewards();
+      if (error) {
+        console.error('Error marking earned rewards:', error);
+      }
+      if (!earned || earned.length === 0 || userIdRef.current !== ownerId) return;
+
+      setRewards(prev => prev.map(reward => earned.find(e => e.id === reward.id) || reward));
+      setUnlockQueue(prev => [...prev, ...earned]);
+    } catch (error) {
+      console.error('Error checking rewards:', error);
+    } finally {
+      checkingRef.current = false;
+      if (recheckRef.current) {
+        recheckRef.current = false;
+        checkRewards();
+      }
+    }
+  }, [setRewards]);
+
+  const dismissUnlock = useCallback(() => {
+    setUnlockQueue(prev => prev.slice(1));
+  }, []);
+
+  // XP from workouts, quests, storylines and guild events can all unlock rewards
+  useEffect(() => onXpAwarded(() => {
+    checkRewards();
+  }), [checkRewards]);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const previousUserId = userIdRef.current;
+    userIdRef.current = userId;
+    setRewardsState([]);
+    setUnlockQueue([]);
+
+    // Signed out, or switched account: the last user's copy goes with them
+    if (previousUserId && previousUserId !== userId) {
+      AsyncStorage.removeItem(getCacheKey(previousUserId)).catch(error => {
+        console.error('Failed to clear cached rewards', error);
+      });
+    }
+
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    const loadRewards = async () => {
+      setLoading(true);
+      try {
+        AsyncStorage.removeItem(LEGACY_STORAGE_KEY).catch(() => {});
+
+        const cached = await AsyncStorage.getItem(getCacheKey(userId));
+        if (cached && userIdRef.current === userId) {
+          setRewardsState(JSON.parse(cached));
+        }
+      } catch (error) {
+        console.error('Failed to read cached rewards', error);
+      }
+
+      await refreshRewards();
+      if (userIdRef.current === userId) {
+        setLoading(false);
+      }
+    };
+
+    loadRewards();
+  }, [userId, authLoading, refreshRewards]);
+
+  const value = useMemo(
+    () => ({ rewards, loading, setRewards, refreshRewards, checkRewards, unlockQueue, dismissUnlock }),
+    [rewards, loading, setRewards, refreshRewards, checkRewards, unlockQueue, dismissUnlock]
+  );
+
+  return (
+    <RewardsContext.Provider value={value}>
+      {children}
+    </RewardsContext.Provider>
+  );
+};
+
+export default RewardsProvider;
+
+export const useRewards = () => useContext(RewardsContext);
+
+export const useEarnedRewards = (): Reward[] => {
+  const { rewards } = useRewards();
+  return useMemo(() => rewards.filter(isRewardEarned), [rewards]);
+};
+
+// Earned but not yet claimed
+export const useClaimableRewards = (): Reward[] => {
+  const { rewards } = useRewards();
+  return useMemo(() => rewards.filter(isRewardClaimable), [rewards]);
+};
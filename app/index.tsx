@@ -1,6 +1,9 @@
 import React from 'react';
 import AppNavigator from './AppNavigator';
 import AuthProvider from './AuthProvider';
+import ClassesProvider from './ClassesProvider';
+import RewardsProvider from './RewardsProvider';
+import RewardCelebration from '../components/RewardCelebration';
 import { NavigationContainer } from '@react-navigation/native';
 import { StatusBar, View, StyleSheet } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -10,9 +13,14 @@ export default function App() {
     <SafeAreaView style={styles.safeTopOnly} edges={['top']}>
       <StatusBar barStyle="light" backgroundColor="#0f0c29" translucent={false} />
       <View style={styles.fullScreen}>
-        <AuthProvider>
-            <AppNavigator />
-        </AuthProvider>
+        <ClassesProvider>
+          <AuthProvider>
+            <RewardsProvider>
+              <AppNavigator />
+              <RewardCelebration />
+            </RewardsProvider>
+          </AuthProvider>
+        </ClassesProvider>
       </View>
     </SafeAreaView>
   );
@@ -0,0 +1,213 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { getCharacterClass } from '../lib/classes';
+import { getItem, RARITY_COLORS } from '../constants/items';
+import { normalizeAvatar } from '../lib/avatar';
+import { AvatarConfig } from '../types/avatarTypes';
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+interface AvatarProps {
+  avatar?: Partial<AvatarConfig> | null;
+  characterClass?: string;
+  equippedItemIds?: string[];
+  size?: number;
+}
+
+// Torso width as a share of the avatar size
+const BODY_WIDTHS = {
+  slim: 0.42,
+  athletic: 0.5,
+  broad: 0.6,
+};
+
+// Layers are drawn back to front: long hair, body, class outfit, armor, head, hair, gear
+export default function Avatar({ avatar, characterClass, equippedItemIds = [], size = 48 }: AvatarProps) {
+  const config = normalizeAvatar(avatar);
+  // Class outfit layer: class colour as trim and the class icon as a chest emblem
+  const classInfo = getCharacterClass(characterClass);
+  const outfit = classInfo ? { trim: classInfo.color, emblem: classInfo.icon } : undefined;
+  const equipped = equippedItemIds.map(getItem);
+  const weapon = equipped.find(item => item?.slot === 'weapon');
+  const armor = equipped.find(item => item?.slot === 'armor');
+  const trinket = equipped.find(item => item?.slot === 'trinket');
+
+  const headSize = size * 0.36;
+  const headTop = size * 0.16;
+  const headLeft = (size - headSize) / 2;
+  const bodyWidth = size * BODY_WIDTHS[config.bodyType];
+  const bodyHeight = size * 0.36;
+  const eyeSize = Math.max(2, size * 0.05);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          width: size,
+          height: size,
+          borderRadius: size / 2,
+          borderColor: outfit?.trim || '#555',
+          borderWidth: Math.max(1, size * 0.03),
+        },
+      ]}
+    >
+      {/* Hair that falls behind the shoulders */}
+      {config.hairStyle === 'long' && (
+        <View
+          style={{
+            position: 'absolute',
+            top: headTop - size * 0.02,
+            left: headLeft - headSize * 0.08,
+            width: headSize * 1.16,
+            height: headSize * 1.35,
+            borderTopLeftRadius: headSize / 2,
+            borderTopRightRadius: headSize / 2,
+            backgroundColor: config.hairColor,
+          }}
+        />
+      )}
+
+      {/* Body with the chosen outfit colour */}
+      <View
+        style={{
+          position: 'absolute',
+          bottom: -size * 0.02,
+          left: (size - bodyWidth) / 2,
+          width: bodyWidth,
+          height: bodyHeight,
+          borderTopLeftRadius: bodyWidth * 0.4,
+          borderTopRightRadius: bodyWidth * 0.4,
+          backgroundColor: config.outfitColor,
+          borderTopWidth: Math.max(1, size * 0.03),
+          borderColor: outfit?.trim || config.outfitColor,
+          alignItems: 'center',
+          paddingTop: bodyHeight * 0.18,
+        }}
+      >
+        {outfit && (
+          <MaterialCommunityIcons name={outfit.emblem as IconName} size={size * 0.14} color={outfit.trim} />
+        )}
+      </View>
+
+      {/* Armor pauldrons in the item's rarity colour */}
+      {armor && (
+        <>
+          <View
+            style={[
+              styles.pauldron,
+              {
+                bottom: bodyHeight - size * 0.1,
+                left: (size - bodyWidth) / 2 - size * 0.02,
+                width: size * 0.16,
+                height: size * 0.1,
+                borderRadius: size * 0.05,
+                backgroundColor: RARITY_COLORS[armor.rarity],
+              },
+            ]}
+          />
+          <View
+            style={[
+              styles.pauldron,
+              {
+                bottom: bodyHeight - size * 0.1,
+                right: (size - bodyWidth) / 2 - size * 0.02,
+                width: size * 0.16,
+                height: size * 0.1,
+                borderRadius: size * 0.05,
+                backgroundColor: RARITY_COLORS[armor.rarity],
+              },
+            ]}
+          />
+        </>
+      )}
+
+      {/* Head and eyes */}
+      <View
+        style={{
+          position: 'absolute',
+          top: headTop,
+          left: headLeft,
+          width: headSize,
+          height: headSize,
+          borderRadius: headSize / 2,
+          backgroundColor: config.skinTone,
+          flexDirection: 'row',
+          justifyContent: 'center',
+          alignItems: 'center',
+        }}
+      >
+        <View style={{ width: eyeSize, height: eyeSize, borderRadius: eyeSize / 2, backgroundColor: config.eyeColor, marginHorizontal: headSize * 0.12 }} />
+        <View style={{ width: eyeSize, height: eyeSize, borderRadius: eyeSize / 2, backgroundColor: config.eyeColor, marginHorizontal: headSize * 0.12 }} />
+      </View>
+
+      {/* Hair on top of the head */}
+      {(config.hairStyle === 'short' || config.hairStyle === 'long' || config.hairStyle === 'ponytail') && (
+        <View
+          style={{
+            position: 'absolute',
+            top: headTop - size * 0.02,
+            left: headLeft - headSize * 0.04,
+            width: headSize * 1.08,
+            height: headSize * 0.42,
+            borderTopLeftRadius: headSize / 2,
+            borderTopRightRadius: headSize / 2,
+            backgroundColor: config.hairColor,
+          }}
+        />
+      )}
+      {config.hairStyle === 'ponytail' && (
+        <View
+          style={{
+            position: 'absolute',
+            top: headTop + headSize * 0.2,
+            left: headLeft + headSize * 0.92,
+            width: headSize * 0.28,
+            height: headSize * 0.55,
+            borderRadius: headSize * 0.14,
+            backgroundColor: config.hairColor,
+          }}
+        />
+      )}
+      {config.hairStyle === 'mohawk' && (
+        <View
+          style={{
+            position: 'absolute',
+            top: headTop - size * 0.08,
+            left: (size - headSize * 0.22) / 2,
+            width: headSize * 0.22,
+            height: headSize * 0.55,
+            borderRadius: headSize * 0.11,
+            backgroundColor: config.hairColor,
+          }}
+        />
+      )}
+
+      {/* Gear overlays */}
+      {weapon && (
+        <View style={[styles.gearBadge, { right: size * 0.06, bottom: size * 0.14 }]}>
+          <MaterialCommunityIcons name={weapon.icon as IconName} size={size * 0.26} color={RARITY_COLORS[weapon.rarity]} />
+        </View>
+      )}
+      {trinket && (
+        <View style={[styles.gearBadge, { left: size * 0.1, top: size * 0.12 }]}>
+          <MaterialCommunityIcons name={trinket.icon as IconName} size={size * 0.18} color={RARITY_COLORS[trinket.rarity]} />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#2a2a40',
+    overflow: 'hidden',
+  },
+  pauldron: {
+    position: 'absolute',
+  },
+  gearBadge: {
+    position: 'absolute',
+  },
+});
@@ -0,0 +1,158 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { getChainPercent, getChainState } from '../lib/questChains';
+import { QuestChain, QuestChainProgress } from '../types/questChainTypes';
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+interface QuestChainCardProps {
+  chain: QuestChain;
+  progress?: QuestChainProgress | null;
+  rewardXp: number;
+  busy?: boolean;
+  onStart: () => void;
+  onClaim: () => void;
+  // The quest card for the step being played
+  children?: React.ReactNode;
+}
+
+// Storyline view: every step of the arc, with the ones ahead kept secret
+export default function QuestChainCard({ chain, progress, rewardXp, busy, onStart, onClaim, children }: QuestChainCardProps) {
+  const state = getChainState(progress);
+  const currentStep = progress?.current_step ?? -1;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <MaterialCommunityIcons name={chain.icon as IconName} size={22} color="#ffd700" />
+        <Text style={styles.name}>{chain.name}</Text>
+        <Text style={styles.stepCount}>
+          {Math.min(Math.max(currentStep, 0), chain.steps.length)}/{chain.steps.length}
+        </Text>
+      </View>
+
+      <Text style={styles.lore}>{state === 'finished' ? chain.epilogue : chain.prologue}</Text>
+
+      <View style={styles.barOuter}>
+        <View style={[styles.barInner, { width: `${getChainPercent(chain, progress)}%` }]} />
+      </View>
+
+      {chain.steps.map((step, index) => {
+        const done = index < currentStep;
+        const current = index === currentStep;
+        const revealed = done || current;
+        return (
+          <View key={step.title} style={styles.step}>
+            <MaterialCommunityIcons
+              name={done ? 'check-circle' : current ? 'sword' : 'lock'}
+              size={16}
+              color={done ? '#2a9d8f' : current ? '#ffd700' : '#666'}
+            />
+            <Text style={[styles.stepText, current && styles.stepTextCurrent, !revealed && styles.stepTextLocked]}>
+              {revealed ? step.title : '???'}
+            </Text>
+          </View>
+        );
+      })}
+
+      {state === 'in_progress' && children}
+
+      {state === 'not_started' && (
+        <TouchableOpacity style={[styles.button, busy && styles.buttonDisabled]} onPress={onStart} disabled={busy}>
+          <Text style={styles.buttonText}>Begin Storyline</Text>
+        </TouchableOpacity>
+      )}
+
+      {state === 'reward_ready' && (
+        <TouchableOpacity style={[styles.button, styles.claimButton, busy && styles.buttonDisabled]} onPress={onClaim} disabled={busy}>
+          <MaterialCommunityIcons name="treasure-chest" size={18} color="#1e1e2e" />
+          <Text style={[styles.buttonText, styles.claimButtonText]}>Claim {rewardXp} XP</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 215, 0, 0.3)',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  name: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+    flex: 1,
+  },
+  stepCount: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+  },
+  lore: {
+    color: '#bbb',
+    fontStyle: 'italic',
+    lineHeight: 20,
+    marginBottom: 10,
+  },
+  barOuter: {
+    height: 6,
+    backgroundColor: '#444',
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  barInner: {
+    height: '100%',
+    backgroundColor: '#ffd700',
+  },
+  step: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  stepText: {
+    color: '#ddd',
+    marginLeft: 8,
+  },
+  stepTextCurrent: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+  },
+  stepTextLocked: {
+    color: '#666',
+  },
+  button: {
+    backgroundColor: '#4e60d3',
+    paddingVertical: 10,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  buttonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  claimButton: {
+    backgroundColor: '#ffd700',
+  },
+  claimButtonText: {
+    color: '#1e1e2e',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Animated, Easing } from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRewards } from '../app/RewardsProvider';
+import { describeRewardPayload, getRewardPayload } from '../lib/rewards';
+import { RewardDifficulty } from '../types/rewardTypes';
+
+const DIFFICULTY_COLORS: Record<RewardDifficulty, string> = {
+  bronze: '#CD7F32',
+  silver: '#C0C0C0',
+  gold: '#FFD700',
+};
+
+// Full-screen celebration for the oldest unlock in the rewards queue. Lives
+// at the app root so it shows over whichever tab the unlock happened on;
+// dismissing it brings up the next one.
+export default function RewardCelebration() {
+  const { unlockQueue, dismissUnlock } = useRewards();
+  const reward = unlockQueue[0];
+  const fade = useRef(new Animated.Value(0)).current;
+  const scale = useRef(new Animated.Value(0.6)).current;
+  const glow = useRef(new Animated.Value(0)).current;
+  // Ignores a second tap while the card fades out
+  const dismissingRef = useRef(false);
+
+  useEffect(() => {
+    if (!reward) return;
+
+    dismissingRef.current = false;
+    fade.setValue(0);
+    scale.setValue(0.6);
+    Animated.parallel([
+      Animated.timing(fade, {
+        toValue: 1,
+        duration: 250,
+        useNativeDriver: true,
+      }),
+      Animated.spring(scale, {
+        toValue: 1,
+        friction: 5,
+        tension: 80,
+        useNativeDriver: true,
+      }),
+    ]).start();
+
+    const pulse = Animated.loop(
+      Animated.sequence([
+        Animated.timing(glow, {
+          toValue: 1,
+          duration: 900,
+          useNativeDriver: true,
+          easing: Easing.inOut(Easing.ease),
+        }),
+        Animated.timing(glow, {
+          toValue: 0,
+          duration: 900,
+          useNativeDriver: true,
+          easing: Easing.inOut(Easing.ease),
+        }),
+      ])
+    );
+    pulse.start();
+
+    return () => pulse.stop();
+  }, [reward?.id]);
+
+  const handleDismiss = () => {
+    if (dismissingRef.current) return;
+    dismissingRef.current = true;
+    Animated.timing(fade, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => dismissUnlock());
+  };
+
+  if (!reward) return null;
+
+  const color = DIFFICULTY_COLORS[reward.difficulty] || DIFFICULTY_COLORS.gold;
+  const loot = describeRewardPayload(getRewardPayload(reward));
+  const remaining = unlockQueue.length - 1;
+
+  return (
+    <Modal visible transparent animationType="none" onRequestClose={handleDismiss}>
+      <Animated.View style={[styles.backdrop, { opacity: fade }]}>
+        <Animated.View style={[styles.card, { borderColor: color, transform: [{ scale }] }]}>
+          <Animated.View
+            style={[
+              styles.iconRing,
+              {
+                borderColor: color,
+                transform: [{ scale: glow.interpolate({ inputRange: [0, 1], outputRange: [1, 1.12] }) }],
+              },
+            ]}
+          >
+            <MaterialCommunityIcons name="trophy" size={56} color={color} />
+          </Animated.View>
+
+          <Text style={styles.heading}>Achievement Unlocked!</Text>
+          <Text style={[styles.difficulty, { color }]}>{reward.difficulty}</Text>
+          <Text style={styles.title}>{reward.title}</Text>
+          <Text style={styles.description}>{reward.description}</Text>
+
+          {loot.length > 0 && (
+            <View style={styles.lootBox}>
+              {loot.map(line => (
+                <Text key={line} style={styles.lootLine}>🎁 {line}</Text>
+              ))}
+              <Text style={styles.claimHint}>Claim it in the Rewards tab</Text>
+            </View>
+          )}
+
+          <TouchableOpacity style={[styles.button, { backgroundColor: color }]} onPress={handleDismiss}>
+            <Text style={styles.buttonText}>{remaining > 0 ? `Next (${remaining} more)` : 'Awesome!'}</Text>
+          </TouchableOpacity>
+        </Animated.View>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(10, 8, 30, 0.88)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: '#2a2a40',
+    borderRadius: 20,
+    borderWidth: 2,
+    padding: 24,
+    alignItems: 'center',
+  },
+  iconRing: {
+    width: 104,
+    height: 104,
+    borderRadius: 52,
+    borderWidth: 3,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1e1e2e',
+    marginBottom: 16,
+  },
+  heading: {
+    color: '#ffd700',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  difficulty: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    letterSpacing: 2,
+    marginTop: 6,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  description: {
+    color: '#ccc',
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  lootBox: {
+    alignSelf: 'stretch',
+    backgroundColor: 'rgba(255, 215, 0, 0.08)',
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 16,
+  },
+  lootLine: {
+    color: '#ffd700',
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  claimHint: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  button: {
+    marginTop: 20,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 24,
+  },
+  buttonText: {
+    color: '#1e1e2e',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,32 @@
+import { AvatarConfig, BodyType, HairStyle } from '../types/avatarTypes';
+
+export const BODY_TYPES: Array<{ value: BodyType; label: string }> = [
+  { value: 'slim', label: 'Slim' },
+  { value: 'athletic', label: 'Athletic' },
+  { value: 'broad', label: 'Broad' },
+];
+
+export const HAIR_STYLES: Array<{ value: HairStyle; label: string }> = [
+  { value: 'bald', label: 'Bald' },
+  { value: 'short', label: 'Short' },
+  { value: 'long', label: 'Long' },
+  { value: 'mohawk', label: 'Mohawk' },
+  { value: 'ponytail', label: 'Ponytail' },
+];
+
+export const SKIN_TONES = ['#f8d9c0', '#e8b98f', '#c68e63', '#9a6440', '#6b4128', '#3f2616'];
+
+export const HAIR_COLORS = ['#1c1c1c', '#5a3825', '#a0522d', '#e0b05c', '#d8d8d8', '#c0392b', '#4e60d3'];
+
+export const EYE_COLORS = ['#3b2a1a', '#2e86de', '#27ae60', '#7f8c8d', '#8e44ad'];
+
+export const OUTFIT_COLORS = ['#3a3a55', '#8b0000', '#1b4332', '#023e8a', '#5a189a', '#b08968'];
+
+export const DEFAULT_AVATAR: AvatarConfig = {
+  bodyType: 'athletic',
+  skinTone: SKIN_TONES[1],
+  hairStyle: 'short',
+  hairColor: HAIR_COLORS[1],
+  eyeColor: EYE_COLORS[0],
+  outfitColor: OUTFIT_COLORS[0],
+};
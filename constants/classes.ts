@@ -0,0 +1,4 @@
+// Class definitions live in the character_classes table; see lib/classes.ts.
+
+// Mirrored by respec_class() in the database; keep the two in sync
+export const CLASS_RESPEC_COOLDOWN_DAYS = 7;
@@ -0,0 +1,3 @@
+// XP a guild event can pay; the database keeps xp_reward inside it
+// (guild_event_xp), whatever is typed in
+export const EVENT_XP_RANGE = { min: 50, max: 300 };
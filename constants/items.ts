@@ -0,0 +1,158 @@
+import { EquipSlot, Item, ItemRarity } from '../types/gearTypes';
+
+export const EQUIP_SLOTS: Array<{ slot: EquipSlot; label: string; icon: string }> = [
+  { slot: 'weapon', label: 'Weapon', icon: 'sword' },
+  { slot: 'armor', label: 'Armor', icon: 'shield-half-full' },
+  { slot: 'trinket', label: 'Trinket', icon: 'diamond-stone' },
+];
+
+export const RARITY_COLORS: Record<ItemRarity, string> = {
+  common: '#aaaaaa',
+  rare: '#4e9bff',
+  epic: '#b388ff',
+};
+
+export const ITEMS: Item[] = [
+  {
+    id: 'iron-greatsword',
+    name: 'Iron Greatsword',
+    slot: 'weapon',
+    rarity: 'rare',
+    icon: 'sword',
+    description: 'Forged for those whose legs can carry half again their own weight.',
+    statModifiers: { strength: 2 },
+    unlock: { type: 'lift', exercise: 'squat', bodyweightMultiple: 1.5 },
+  },
+  {
+    id: 'titans-maul',
+    name: "Titan's Maul",
+    slot: 'weapon',
+    rarity: 'epic',
+    icon: 'hammer',
+    description: 'Only a deadlift of twice your bodyweight can lift it from the ground.',
+    statModifiers: { strength: 4 },
+    unlock: { type: 'lift', exercise: 'deadlift', bodyweightMultiple: 2 },
+  },
+  {
+    id: 'oakwood-longbow',
+    name: 'Oakwood Longbow',
+    slot: 'weapon',
+    rarity: 'rare',
+    icon: 'bow-arrow',
+    description: 'Carried by scouts who can cover 10 km in a single outing.',
+    statModifiers: { speed: 2 },
+    unlock: { type: 'distance', minKm: 10 },
+  },
+  {
+    id: 'apprentice-staff',
+    name: 'Apprentice Staff',
+    slot: 'weapon',
+    rarity: 'common',
+    icon: 'magic-staff',
+    description: 'Granted after a full hour of focused mobility practice.',
+    statModifiers: { magic: 2 },
+    unlock: { type: 'duration', minMinutes: 60, statType: 'magic' },
+  },
+  {
+    id: 'leather-jerkin',
+    name: 'Leather Jerkin',
+    slot: 'armor',
+    rarity: 'common',
+    icon: 'tshirt-crew',
+    description: 'Standard issue for adventurers with ten workouts under their belt.',
+    statModifiers: { speed: 1, willpower: 1 },
+    unlock: { type: 'workout_count', count: 10 },
+  },
+  {
+    id: 'chainmail-hauberk',
+    name: 'Chainmail Hauberk',
+    slot: 'armor',
+    rarity: 'rare',
+    icon: 'shield-half-full',
+    description: 'Earned by benching your own bodyweight.',
+    statModifiers: { strength: 1, willpower: 2 },
+    unlock: { type: 'lift', exercise: 'bench', bodyweightMultiple: 1 },
+  },
+  {
+    id: 'windrunner-cloak',
+    name: 'Windrunner Cloak',
+    slot: 'armor',
+    rarity: 'epic',
+    icon: 'weather-windy',
+    description: 'Woven for those who have run a half marathon in one go.',
+    statModifiers: { speed: 3 },
+    unlock: { type: 'distance', minKm: 21.1 },
+  },
+  {
+    id: 'iron-resolve-charm',
+    name: 'Iron Resolve Charm',
+    slot: 'trinket',
+    rarity: 'common',
+    icon: 'shield-star',
+    description: 'Awarded for 100 push-ups in a single session.',
+    statModifiers: { willpower: 2 },
+    unlock: { type: 'reps', exercise: 'push up', minTotalReps: 100 },
+  },
+  {
+    id: 'lotus-amulet',
+    name: 'Lotus Amulet',
+    slot: 'trinket',
+    rarity: 'rare',
+    icon: 'flower-tulip',
+    description: 'Blooms after ten yoga or flexibility sessions.',
+    statModifiers: { magic: 2 },
+    unlock: { type: 'workout_count', count: 10, statType: 'magic' },
+  },
+  {
+    id: 'hollow-crown-blade',
+    name: 'Hollow Crown Blade',
+    slot: 'weapon',
+    rarity: 'epic',
+    icon: 'sword-cross',
+    description: "Reforged from the Hollow King's own sword for every hero who fought him.",
+    statModifiers: { strength: 2, willpower: 2 },
+    unlock: { type: 'boss_loot', bossName: 'The Hollow King' },
+  },
+  {
+    id: 'wyrmscale-mail',
+    name: 'Wyrmscale Mail',
+    slot: 'armor',
+    rarity: 'epic',
+    icon: 'snowflake',
+    description: 'Scales from Vaelkyr the Frost Wyrm, shared among those who brought it down.',
+    statModifiers: { speed: 2, willpower: 2 },
+    unlock: { type: 'boss_loot', bossName: 'Vaelkyr the Frost Wyrm' },
+  },
+  {
+    id: 'colossus-heartstone',
+    name: 'Colossus Heartstone',
+    slot: 'trinket',
+    rarity: 'epic',
+    icon: 'heart-flash',
+    description: "A shard of the Colossus's stone heart, still faintly warm.",
+    statModifiers: { strength: 1, speed: 1, magic: 1, willpower: 1 },
+    unlock: { type: 'boss_loot', bossName: 'The Colossus' },
+  },
+  {
+    id: 'wanderers-cloak',
+    name: "Wanderer's Cloak",
+    slot: 'armor',
+    rarity: 'rare',
+    icon: 'weather-windy',
+    description: 'Worn thin by many roads, and by the days its owner refused to skip.',
+    statModifiers: { speed: 1, willpower: 1 },
+    unlock: { type: 'reward_claim', rewardTitle: 'Steadfast Wanderer' },
+  },
+  {
+    id: 'laurel-of-valor',
+    name: 'Laurel of Valor',
+    slot: 'trinket',
+    rarity: 'epic',
+    icon: 'trophy-award',
+    description: 'Woven for heroes who claim a gold achievement.',
+    statModifiers: { strength: 1, speed: 1, magic: 1, willpower: 1 },
+    unlock: { type: 'reward_claim' },
+  },
+];
+
+export const getItem = (itemId: string): Item | undefined => ITEMS.find(item => item.id === itemId);
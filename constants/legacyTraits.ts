@@ -0,0 +1,48 @@
+import { LegacyTrait } from '../types/legacyTypes';
+
+// Permanent traits earned once per player; they outlive characters and seasons
+export const LEGACY_TRAITS: LegacyTrait[] = [
+  {
+    id: 'marathoner',
+    name: 'Marathoner',
+    icon: 'run-fast',
+    description: 'You went the full 42.2 km. Your stride never forgets.',
+    milestone: { type: 'distance', minKm: 42.2 },
+    bonus: { statBonuses: { speed: 3 }, xpMultipliers: { speed: 1.05 } },
+  },
+  {
+    id: 'first-pull-up',
+    name: 'Skyward Grip',
+    icon: 'arm-flex',
+    description: 'Your first strict pull-up. Gravity has never felt the same.',
+    milestone: { type: 'reps', exercise: 'pull up', minTotalReps: 1 },
+    bonus: { statBonuses: { strength: 1 }, xpMultipliers: { strength: 1.05 } },
+  },
+  {
+    id: 'mountain-mover',
+    name: 'Mountain Mover',
+    icon: 'image-filter-hdr',
+    description: 'Deadlifted two and a half times your own bodyweight.',
+    milestone: { type: 'lift', exercise: 'deadlift', bodyweightMultiple: 2.5 },
+    bonus: { statBonuses: { strength: 3 } },
+  },
+  {
+    id: 'still-waters',
+    name: 'Still Waters',
+    icon: 'meditation',
+    description: 'Held a 90 minute mobility practice without breaking focus.',
+    milestone: { type: 'duration', minMinutes: 90, statType: 'magic' },
+    bonus: { statBonuses: { magic: 2 }, xpMultipliers: { magic: 1.05 } },
+  },
+  {
+    id: 'centurion',
+    name: 'Centurion',
+    icon: 'shield-crown',
+    description: 'One hundred workouts logged. Discipline is now part of you.',
+    milestone: { type: 'workout_count', count: 100 },
+    bonus: { statBonuses: { willpower: 2 }, xpMultipliers: { willpower: 1.05 } },
+  },
+];
+
+export const getLegacyTrait = (traitId: string): LegacyTrait | undefined =>
+  LEGACY_TRAITS.find(trait => trait.id === traitId);
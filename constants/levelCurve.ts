@@ -0,0 +1,38 @@
+// Level curve tuning. Each level costs `growth` times more XP than the last,
+// starting at `baseXp` for level 2; `overrides` hand-tunes individual levels.
+export interface LevelCurveConfig {
+  baseXp: number;
+  growth: number;
+  maxLevel: number;
+  // XP needed to go from (level - 1) to level, keyed by level
+  overrides: Record<number, number>;
+}
+
+export const LEVEL_CURVE_CONFIG: LevelCurveConfig = {
+  baseXp: 1000,
+  growth: 1.15,
+  maxLevel: 50,
+  overrides: {},
+};
+
+// Stat points granted on reaching a level; the last matching tier wins
+export const STAT_POINT_TIERS = [
+  { fromLevel: 2, points: 1 },
+  { fromLevel: 10, points: 2 },
+  { fromLevel: 25, points: 3 },
+];
+
+// Cumulative XP needed to reach each level; index 0 is level 1
+export function buildLevelCurve(config: LevelCurveConfig): number[] {
+  const thresholds = [0];
+
+  for (let level = 2; level <= config.maxLevel; level++) {
+    const cost = config.overrides[level]
+      ?? Math.round((config.baseXp * Math.pow(config.growth, level - 2)) / 10) * 10;
+    thresholds.push(thresholds[thresholds.length - 1] + cost);
+  }
+
+  return thresholds;
+}
+
+export const LEVEL_CURVE = buildLevelCurve(LEVEL_CURVE_CONFIG);
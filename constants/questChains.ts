@@ -0,0 +1,105 @@
+import { QuestChain } from '../types/questChainTypes';
+
+// quest_chain_catalogue() in the database mirrors each chain's id and step count
+export const QUEST_CHAINS: QuestChain[] = [
+  {
+    id: 'mount-dreadstone',
+    name: 'The Ascent of Mount Dreadstone',
+    icon: 'image-filter-hdr',
+    prologue: 'Beacon fires have gone dark along the slopes of Mount Dreadstone. The village elders need someone to climb.',
+    epilogue: 'The summit beacon burns again. From Hollowmere you can see its light every night.',
+    steps: [
+      {
+        title: 'The Foothill Trail',
+        description: 'Scout the lower trail and learn the mountain\'s moods before the real climb.',
+        type: 'speed',
+        difficulty: 'easy',
+        objective: { metric: 'distance_km', target: 3 },
+      },
+      {
+        title: 'The Switchbacks',
+        description: 'The path turns steep. Every step up is a step closer to the dark beacons.',
+        type: 'speed',
+        difficulty: 'medium',
+        objective: { metric: 'elevation_ft', target: 500 },
+      },
+      {
+        title: 'The Goblin Ledge',
+        description: 'A goblin warband holds the narrow ledge. Haul yourself past them hand over hand.',
+        type: 'strength',
+        difficulty: 'medium',
+        objective: { metric: 'reps', target: 50, exercise: 'push up' },
+      },
+      {
+        title: 'Climb Mount Dreadstone',
+        description: 'The summit waits above the clouds. Climb the last thousand feet and relight the beacon.',
+        type: 'speed',
+        difficulty: 'hard',
+        objective: { metric: 'elevation_ft', target: 1000 },
+      },
+    ],
+  },
+  {
+    id: 'hollowmere-siege',
+    name: 'The Siege of Hollowmere',
+    icon: 'castle',
+    prologue: 'Bandit raiders have surrounded Hollowmere Village. Its walls will not hold on their own.',
+    epilogue: 'The raiders have fled into the marsh and Hollowmere sings your name in its taverns.',
+    steps: [
+      {
+        title: 'Shore Up the Walls',
+        description: 'Carry stone to the breached walls before the raiders notice the gap.',
+        type: 'strength',
+        difficulty: 'easy',
+        objective: { metric: 'reps', target: 40, exercise: 'squat' },
+      },
+      {
+        title: 'Run the Blockade',
+        description: 'Slip past the raider camps and bring word to the garrison at Stormpeak Pass.',
+        type: 'speed',
+        difficulty: 'medium',
+        objective: { metric: 'distance_km', target: 5 },
+      },
+      {
+        title: 'Hold the Gate',
+        description: 'The raiders storm the gate at dawn. Stand firm for as long as it takes.',
+        type: 'willpower',
+        difficulty: 'hard',
+        objective: { metric: 'duration_minutes', target: 45, statType: 'willpower' },
+      },
+    ],
+  },
+  {
+    id: 'moonlit-shrine',
+    name: 'The Moonlit Shrine',
+    icon: 'moon-waning-crescent',
+    prologue: 'A shrine hidden in Gloomwood Forest only opens to those whose body and mind move as one.',
+    epilogue: 'The shrine\'s runes glow at your touch. Its old magic now flows with you.',
+    steps: [
+      {
+        title: 'Find the Hidden Path',
+        description: 'Quiet your thoughts and the forest will show you the way to the shrine.',
+        type: 'willpower',
+        difficulty: 'easy',
+        objective: { metric: 'duration_minutes', target: 10, statType: 'willpower' },
+      },
+      {
+        title: 'The Thorn Wall',
+        description: 'Bend like the willow to slip through the enchanted thorns that guard the shrine.',
+        type: 'magic',
+        difficulty: 'medium',
+        objective: { metric: 'duration_minutes', target: 25, statType: 'magic' },
+      },
+      {
+        title: 'Unseal the Shrine',
+        description: 'Hold the sacred poses under the full moon until the seal breaks.',
+        type: 'magic',
+        difficulty: 'hard',
+        objective: { metric: 'duration_minutes', target: 45, statType: 'magic' },
+      },
+    ],
+  },
+];
+
+export const getQuestChain = (id: string): QuestChain | undefined =>
+  QUEST_CHAINS.find(chain => chain.id === id);
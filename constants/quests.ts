@@ -0,0 +1,116 @@
+import { ObjectiveMetric, QuestBoard, QuestDifficulty, QuestObjective, QuestType } from '../types/questTypes';
+
+export const QUEST_TYPES: QuestType[] = ['strength', 'speed', 'magic', 'willpower'];
+
+// durationHours is how long a new quest stays open before it expires. The XP
+// ranges are mirrored by quest_xp_range() in the database.
+export const QUEST_DIFFICULTIES: Array<{ name: QuestDifficulty; xpRange: [number, number]; durationHours: number }> = [
+  { name: 'easy', xpRange: [50, 150], durationHours: 24 },
+  { name: 'medium', xpRange: [150, 250], durationHours: 72 },
+  { name: 'hard', xpRange: [250, 400], durationHours: 168 },
+];
+
+// How many quests each board holds, which difficulties it draws from and how
+// much more XP its quests pay (prepare_new_quest() allows the weekly multiplier)
+export const QUEST_BOARDS: Record<QuestBoard, { label: string; size: number; difficulties: QuestDifficulty[]; xpMultiplier: number }> = {
+  daily: { label: 'Daily Quests', size: 3, difficulties: ['easy', 'medium'], xpMultiplier: 1 },
+  weekly: { label: 'Weekly Quests', size: 2, difficulties: ['hard'], xpMultiplier: 3 },
+};
+
+// minTarget is the smallest target prepare_new_quest() accepts for the metric
+export const OBJECTIVE_METRICS: Record<ObjectiveMetric, { label: string; unit: string; minTarget: number }> = {
+  distance_km: { label: 'Distance', unit: 'km', minTarget: 0.5 },
+  elevation_ft: { label: 'Elevation', unit: 'ft', minTarget: 50 },
+  duration_minutes: { label: 'Time', unit: 'min', minTarget: 5 },
+  reps: { label: 'Reps', unit: 'reps', minTarget: 5 },
+};
+
+// Workout prescriptions by quest type and difficulty. `text` is what the
+// quest story asks for, with {target} filled in from the objective once it
+// has been scaled to the player; `objective` is how it gets verified.
+export const QUEST_OBJECTIVE_TEMPLATES: Record<QuestType, Record<QuestDifficulty, Array<{ text: string; objective: QuestObjective }>>> = {
+  strength: {
+    easy: [
+      { text: '{target} push-ups', objective: { metric: 'reps', target: 30, exercise: 'push up' } },
+      { text: '{target} bodyweight squats', objective: { metric: 'reps', target: 40, exercise: 'squat' } },
+      { text: '{target} minutes of strength training', objective: { metric: 'duration_minutes', target: 20, statType: 'strength' } },
+    ],
+    medium: [
+      { text: '{target} push-ups', objective: { metric: 'reps', target: 60, exercise: 'push up' } },
+      { text: '{target} squats', objective: { metric: 'reps', target: 50, exercise: 'squat' } },
+      { text: '{target} minutes of strength training', objective: { metric: 'duration_minutes', target: 40, statType: 'strength' } },
+    ],
+    hard: [
+      { text: '{target} push-ups', objective: { metric: 'reps', target: 100, exercise: 'push up' } },
+      { text: '{target} deadlifts', objective: { metric: 'reps', target: 25, exercise: 'deadlift' } },
+      { text: '{target} minutes of strength training', objective: { metric: 'duration_minutes', target: 60, statType: 'strength' } },
+    ],
+  },
+  speed: {
+    easy: [
+      { text: 'a {target} km run', objective: { metric: 'distance_km', target: 2 } },
+      { text: '{target} minutes of cardio', objective: { metric: 'duration_minutes', target: 15, statType: 'speed' } },
+      { text: '{target} ft of climbing', objective: { metric: 'elevation_ft', target: 250 } },
+    ],
+    medium: [
+      { text: 'a {target} km run', objective: { metric: 'distance_km', target: 5 } },
+      { text: '{target} minutes of HIIT', objective: { metric: 'duration_minutes', target: 20, statType: 'speed' } },
+      { text: '{target} ft of climbing', objective: { metric: 'elevation_ft', target: 500 } },
+    ],
+    hard: [
+      { text: 'a {target} km run', objective: { metric: 'distance_km', target: 10 } },
+      { text: '{target} minutes of cardio', objective: { metric: 'duration_minutes', target: 45, statType: 'speed' } },
+      { text: '{target} ft of climbing', objective: { metric: 'elevation_ft', target: 1000 } },
+    ],
+  },
+  magic: {
+    easy: [
+      { text: 'a {target} minute stretching flow', objective: { metric: 'duration_minutes', target: 10, statType: 'magic' } },
+      { text: '{target} minutes of gentle yoga', objective: { metric: 'duration_minutes', target: 15, statType: 'magic' } },
+    ],
+    medium: [
+      { text: 'a {target} minute yoga session', objective: { metric: 'duration_minutes', target: 25, statType: 'magic' } },
+      { text: '{target} minutes of mobility drills', objective: { metric: 'duration_minutes', target: 30, statType: 'magic' } },
+    ],
+    hard: [
+      { text: 'a {target} minute yoga practice', objective: { metric: 'duration_minutes', target: 45, statType: 'magic' } },
+      { text: '{target} minutes of deep mobility work', objective: { metric: 'duration_minutes', target: 60, statType: 'magic' } },
+    ],
+  },
+  willpower: {
+    easy: [
+      { text: '{target} minutes of meditation', objective: { metric: 'duration_minutes', target: 10, statType: 'willpower' } },
+      { text: '{target} minutes of core holds', objective: { metric: 'duration_minutes', target: 15, statType: 'willpower' } },
+    ],
+    medium: [
+      { text: '{target} minutes of breathwork and core holds', objective: { metric: 'duration_minutes', target: 20, statType: 'willpower' } },
+      { text: '{target} minutes of disciplined training', objective: { metric: 'duration_minutes', target: 30, statType: 'willpower' } },
+    ],
+    hard: [
+      { text: '{target} minutes of focused discipline work', objective: { metric: 'duration_minutes', target: 45, statType: 'willpower' } },
+      { text: '{target} minutes of unbroken training', objective: { metric: 'duration_minutes', target: 60, statType: 'willpower' } },
+    ],
+  },
+};
+
+// Week-long goals for weekly board quests, whatever the difficulty
+export const WEEKLY_OBJECTIVE_TEMPLATES: Record<QuestType, Array<{ text: string; objective: QuestObjective }>> = {
+  strength: [
+    { text: '{target} push-ups over the week', objective: { metric: 'reps', target: 300, exercise: 'push up' } },
+    { text: '{target} squats over the week', objective: { metric: 'reps', target: 250, exercise: 'squat' } },
+    { text: '{target} minutes of strength training this week', objective: { metric: 'duration_minutes', target: 180, statType: 'strength' } },
+  ],
+  speed: [
+    { text: '{target} km of running this week', objective: { metric: 'distance_km', target: 25 } },
+    { text: '{target} ft of climbing this week', objective: { metric: 'elevation_ft', target: 1000 } },
+    { text: '{target} minutes of cardio this week', objective: { metric: 'duration_minutes', target: 120, statType: 'speed' } },
+  ],
+  magic: [
+    { text: '{target} minutes of yoga this week', objective: { metric: 'duration_minutes', target: 120, statType: 'magic' } },
+    { text: '{target} minutes of mobility work this week', objective: { metric: 'duration_minutes', target: 150, statType: 'magic' } },
+  ],
+  willpower: [
+    { text: '{target} minutes of meditation this week', objective: { metric: 'duration_minutes', target: 90, statType: 'willpower' } },
+    { text: '{target} minutes of disciplined training this week', objective: { metric: 'duration_minutes', target: 180, statType: 'willpower' } },
+  ],
+};
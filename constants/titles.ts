@@ -0,0 +1,133 @@
+import { EventTitleInfo, RewardTitleInfo, TitleInfo } from '../types/titleTypes';
+
+// Level titles, mirrored in level_titles() so the server can grant them on level-up
+export const TITLES: TitleInfo[] = [
+  {
+    name: 'Adventurer',
+    icon: 'compass',
+    description: 'No longer a stranger to the road.',
+    level: 5,
+  },
+  {
+    name: 'Veteran',
+    icon: 'shield-star',
+    description: 'Scarred, seasoned and still training.',
+    level: 10,
+  },
+  {
+    name: 'Champion',
+    icon: 'sword-cross',
+    description: 'Bards know the name, and so do rivals.',
+    level: 20,
+  },
+  {
+    name: 'Legend',
+    icon: 'crown',
+    description: 'Spoken of in every guild hall of the realm.',
+    level: 35,
+  },
+  {
+    name: 'Mythic',
+    icon: 'star-four-points',
+    description: 'Reached the very top of the level curve.',
+    level: 50,
+  },
+];
+
+// Reward titles, mirrored in reward_titles(); claim_reward grants no others
+export const REWARD_TITLES: RewardTitleInfo[] = [
+  {
+    name: 'Ironhide',
+    icon: 'shield-half-full',
+    description: 'Took every blow the training yard had to give.',
+    type: 'strength',
+    difficulty: 'silver',
+  },
+  {
+    name: 'Titanbreaker',
+    icon: 'hammer-war',
+    description: 'Lifted what the old giants left behind.',
+    type: 'strength',
+    difficulty: 'gold',
+  },
+  {
+    name: 'Windstrider',
+    icon: 'weather-windy',
+    description: 'Covers ground faster than the rumours about them.',
+    type: 'speed',
+    difficulty: 'silver',
+  },
+  {
+    name: 'Stormchaser',
+    icon: 'weather-lightning',
+    description: 'Outran the storm and came back for another lap.',
+    type: 'speed',
+    difficulty: 'gold',
+  },
+  {
+    name: 'Runeweaver',
+    icon: 'book-open-variant',
+    description: 'Reads the old runes as easily as a training log.',
+    type: 'magic',
+    difficulty: 'silver',
+  },
+  {
+    name: 'Archmage',
+    icon: 'auto-fix',
+    description: 'Master of breath, balance and the arcane.',
+    type: 'magic',
+    difficulty: 'gold',
+  },
+  {
+    name: 'Unyielding',
+    icon: 'shield-check',
+    description: 'Kept showing up when others stayed home.',
+    type: 'willpower',
+    difficulty: 'silver',
+  },
+  {
+    name: 'Oathkeeper',
+    icon: 'handshake',
+    description: 'Swore to train every day and meant it.',
+    type: 'willpower',
+    difficulty: 'gold',
+  },
+];
+
+// Guild event titles, mirrored in event_titles(). A reward description that
+// names anything else grants no title.
+export const EVENT_TITLES: EventTitleInfo[] = [
+  {
+    name: 'Dawn Warrior',
+    icon: 'weather-sunset-up',
+    description: 'Trained with the guild before the sun was up.',
+  },
+  {
+    name: 'Iron Vanguard',
+    icon: 'shield-sword',
+    description: 'First into the guild\'s hardest challenge.',
+  },
+  {
+    name: 'Trailblazer',
+    icon: 'map-marker-path',
+    description: 'Led the guild over a long and winding course.',
+  },
+  {
+    name: 'Moonlit Sage',
+    icon: 'moon-waning-crescent',
+    description: 'Kept the guild\'s evening practice in balance.',
+  },
+  {
+    name: 'Raid Breaker',
+    icon: 'sword',
+    description: 'Stood with the guild until the raid boss fell.',
+  },
+  {
+    name: 'Tourney Victor',
+    icon: 'trophy',
+    description: 'Came out on top of a guild tournament.',
+  },
+];
+
+export const getTitleInfo = (name: string): EventTitleInfo | undefined =>
+  [...TITLES, ...REWARD_TITLES, ...EVENT_TITLES].find(title => title.name === name);
@@ -0,0 +1,35 @@
+import { WorldBossInfo } from '../types/worldBossTypes';
+
+// HP, duration and loot are set by world_boss_rotation() in the world bosses
+// migration; keep the two lists in the same order.
+export const WORLD_BOSSES: WorldBossInfo[] = [
+  {
+    key: 'the-colossus',
+    name: 'The Colossus',
+    icon: 'robot-angry',
+    color: '#c28b5a',
+    lore: 'A giant of living stone has woken beneath the Ember Peaks. Only every hero in the realm, training together, can wear it down.',
+    defeatText: 'The Colossus crumbles into a hill of rubble. Its heart, still warm, is split among those who fought.',
+    lootItemId: 'colossus-heartstone',
+  },
+  {
+    key: 'frost-wyrm',
+    name: 'Vaelkyr the Frost Wyrm',
+    icon: 'snowflake-alert',
+    color: '#80d8ff',
+    lore: 'Vaelkyr circles the Frostbound Valley, freezing rivers and villages alike. Every workout is another spear thrown at the sky.',
+    defeatText: 'The wyrm falls into the frozen lake and the valley thaws. Its scales make fine armor.',
+    lootItemId: 'wyrmscale-mail',
+  },
+  {
+    key: 'hollow-king',
+    name: 'The Hollow King',
+    icon: 'crown',
+    color: '#b388ff',
+    lore: 'An empty crown leads an army of shades out of the Shadowfen. It feeds on idleness; only effort can starve it.',
+    defeatText: 'The crown clatters to the ground, empty at last. Its blade is reforged for every hero who stood firm.',
+    lootItemId: 'hollow-crown-blade',
+  },
+];
+
+export const getWorldBoss = (key: string): WorldBossInfo | undefined => WORLD_BOSSES.find(boss => boss.key === key);
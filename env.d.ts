@@ -1,4 +1,10 @@
 declare module '@env' {
     export const SUPABASE_URL: string;
     export const SUPABASE_ANON_KEY: string;
-}
\ No newline at end of file
+    export const OPENAI_KEY: string | undefined;
+    // Optional OpenAI-compatible endpoint and model for quest generation
+    export const OPENAI_BASE_URL: string | undefined;
+    export const OPENAI_MODEL: string | undefined;
+    // 'openai' | 'template' | 'stub'; see lib/questGenerators
+    export const QUEST_GENERATOR: string | undefined;
+}
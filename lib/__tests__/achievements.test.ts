@@ -0,0 +1,229 @@
+import { CONDITION_LIMITS, evaluateCondition, getConditionProgress, getRewardCondition, parseCondition } from '../achievements';
+import { MAX_LEVEL } from '../progression';
+import { AchievementCondition, AchievementStats } from '../../types/achievementTypes';
+
+jest.mock('../../app/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const stats: AchievementStats = {
+  questCounts: { strength: 4, speed: 2, magic: 0, willpower: 1 },
+  totalXp: 5200,
+  level: 8,
+  currentStreak: 3,
+  longestStreak: 12,
+  workouts: [
+    { created_at: daysAgo(1), stat_type: 'strength' },
+    { created_at: daysAgo(2), stat_type: 'speed' },
+    { created_at: daysAgo(5), stat_type: 'strength' },
+    { created_at: daysAgo(20), stat_type: 'strength' },
+  ],
+  guildEventsCompleted: 2,
+};
+
+const evaluate = (condition: AchievementCondition) => evaluateCondition(condition, stats, NOW);
+
+describe('evaluateCondition', () => {
+  it('counts quests of one type or of every type', () => {
+    expect(evaluate({ type: 'quest_count', questType: 'strength', count: 4 })).toBe(true);
+    expect(evaluate({ type: 'quest_count', questType: 'speed', count: 3 })).toBe(false);
+    expect(evaluate({ type: 'quest_count', count: 7 })).toBe(true);
+    expect(evaluate({ type: 'quest_count', count: 8 })).toBe(false);
+  });
+
+  it('checks total XP', () => {
+    expect(evaluate({ type: 'total_xp', xp: 5000 })).toBe(true);
+    expect(evaluate({ type: 'total_xp', xp: 6000 })).toBe(false);
+  });
+
+  it('checks the level reached', () => {
+    expect(evaluate({ type: 'level', level: 8 })).toBe(true);
+    expect(evaluate({ type: 'level', level: 9 })).toBe(false);
+  });
+
+  it('checks the live streak, or the best one with longest', () => {
+    expect(evaluate({ type: 'streak', days: 3 })).toBe(true);
+    expect(evaluate({ type: 'streak', days: 10 })).toBe(false);
+    expect(evaluate({ type: 'streak', days: 10, longest: true })).toBe(true);
+    expect(evaluate({ type: 'streak', days: 13, longest: true })).toBe(false);
+  });
+
+  it('only counts workouts inside the window and of the given stat', () => {
+    expect(evaluate({ type: 'workouts_in_window', count: 3, days: 7 })).toBe(true);
+    expect(evaluate({ type: 'workouts_in_window', count: 4, days: 7 })).toBe(false);
+    expect(evaluate({ type: 'workouts_in_window', count: 4, days: 30 })).toBe(true);
+    expect(evaluate({ type: 'workouts_in_window', count: 2, days: 7, statType: 'strength' })).toBe(true);
+    expect(evaluate({ type: 'workouts_in_window', count: 2, days: 7, statType: 'speed' })).toBe(false);
+  });
+
+  it('counts completed guild events', () => {
+    expect(evaluate({ type: 'guild_events', count: 2 })).toBe(true);
+    expect(evaluate({ type: 'guild_events', count: 3 })).toBe(false);
+  });
+
+  it('needs every part of an all', () => {
+    expect(evaluate({ type: 'all', conditions: [{ type: 'level', level: 5 }, { type: 'total_xp', xp: 1000 }] })).toBe(true);
+    expect(evaluate({ type: 'all', conditions: [{ type: 'level', level: 5 }, { type: 'total_xp', xp: 9000 }] })).toBe(false);
+  });
+
+  it('needs one part of an any', () => {
+    expect(evaluate({ type: 'any', conditions: [{ type: 'level', level: 20 }, { type: 'guild_events', count: 1 }] })).toBe(true);
+    expect(evaluate({ type: 'any', conditions: [{ type: 'level', level: 20 }, { type: 'guild_events', count: 5 }] })).toBe(false);
+  });
+
+  it('inverts the condition inside a not', () => {
+    expect(evaluate({ type: 'not', condition: { type: 'level', level: 10 } })).toBe(true);
+    expect(evaluate({ type: 'not', condition: { type: 'level', level: 5 } })).toBe(false);
+  });
+
+  it('evaluates nested groups', () => {
+    // 4 strength quests, and either a 10-day best streak or level 20, before level 10
+    const condition: AchievementCondition = {
+      type: 'all',
+      conditions: [
+        { type: 'quest_count', questType: 'strength', count: 4 },
+        { type: 'any', conditions: [{ type: 'streak', days: 10, longest: true }, { type: 'level', level: 20 }] },
+        { type: 'not', condition: { type: 'level', level: 10 } },
+      ],
+    };
+
+    expect(evaluate(condition)).toBe(true);
+    expect(evaluateCondition(condition, { ...stats, level: 10 }, NOW)).toBe(false);
+  });
+});
+
+describe('getConditionProgress', () => {
+  it('reports leaf progress as a capped fraction', () => {
+    expect(getConditionProgress({ type: 'total_xp', xp: 10400 }, stats, NOW)).toEqual({
+      met: false,
+      current: 5200,
+      target: 10400,
+      fraction: 0.5,
+    });
+    expect(getConditionProgress({ type: 'level', level: 4 }, stats, NOW).fraction).toBe(1);
+  });
+
+  it('reports groups by how many parts are met', () => {
+    const progress = getConditionProgress(
+      { type: 'all', conditions: [{ type: 'level', level: 5 }, { type: 'total_xp', xp: 10400 }] },
+      stats,
+      NOW
+    );
+    expect(progress).toMatchObject({ met: false, current: 1, target: 2, fraction: 0.75 });
+  });
+});
+
+describe('parseCondition', () => {
+  it('accepts each leaf type', () => {
+    const leaves: AchievementCondition[] = [
+      { type: 'quest_count', count: 5 },
+      { type: 'quest_count', count: 5, questType: 'magic' },
+      { type: 'total_xp', xp: 2500 },
+      { type: 'level', level: 10 },
+      { type: 'streak', days: 7 },
+      { type: 'streak', days: 30, longest: true },
+      { type: 'workouts_in_window', count: 10, days: 14 },
+      { type: 'workouts_in_window', count: 10, days: 14, statType: 'speed' },
+      { type: 'guild_events', count: 3 },
+    ];
+    leaves.forEach(leaf => expect(parseCondition(leaf)).toEqual(leaf));
+  });
+
+  it('accepts all, any and not', () => {
+    const condition = {
+      type: 'any',
+      conditions: [
+        { type: 'all', conditions: [{ type: 'level', level: 5 }, { type: 'guild_events', count: 1 }] },
+        { type: 'not', condition: { type: 'streak', days: 3 } },
+      ],
+    };
+    expect(parseCondition(condition)).toEqual(condition);
+  });
+
+  it('drops fields it does not know about', () => {
+    expect(parseCondition({ type: 'level', level: 10, reward: 'everything' })).toEqual({ type: 'level', level: 10 });
+    expect(parseCondition({ type: 'streak', days: 7, longest: 'yes' })).toEqual({ type: 'streak', days: 7 });
+  });
+
+  it('rejects values that are not conditions', () => {
+    [null, undefined, 42, 'level 10', [], {}, { type: 'unknown', count: 1 }].forEach(value => {
+      expect(parseCondition(value)).toBeUndefined();
+    });
+  });
+
+  it('rejects out-of-range or mistyped numbers', () => {
+    [
+      { type: 'quest_count', count: 0 },
+      { type: 'quest_count', count: -3 },
+      { type: 'quest_count', count: 2.5 },
+      { type: 'quest_count', count: '5' },
+      { type: 'quest_count', count: CONDITION_LIMITS.maxCount + 1 },
+      { type: 'total_xp', xp: CONDITION_LIMITS.maxXp + 1 },
+      { type: 'level', level: MAX_LEVEL + 1 },
+      { type: 'streak', days: CONDITION_LIMITS.maxStreakDays + 1 },
+      { type: 'workouts_in_window', count: 5, days: CONDITION_LIMITS.maxWindowDays + 1 },
+      { type: 'workouts_in_window', count: 5 },
+      { type: 'guild_events' },
+    ].forEach(value => expect(parseCondition(value)).toBeUndefined());
+  });
+
+  it('rejects unknown quest and stat types', () => {
+    expect(parseCondition({ type: 'quest_count', count: 5, questType: 'charisma' })).toBeUndefined();
+    expect(parseCondition({ type: 'workouts_in_window', count: 5, days: 7, statType: 'luck' })).toBeUndefined();
+  });
+
+  it('rejects malformed groups', () => {
+    expect(parseCondition({ type: 'all' })).toBeUndefined();
+    expect(parseCondition({ type: 'all', conditions: [] })).toBeUndefined();
+    expect(parseCondition({ type: 'any', conditions: { type: 'level', level: 5 } })).toBeUndefined();
+    expect(parseCondition({
+      type: 'all',
+      conditions: Array.from({ length: CONDITION_LIMITS.maxChildren + 1 }, () => ({ type: 'level', level: 5 })),
+    })).toBeUndefined();
+    expect(parseCondition({ type: 'not' })).toBeUndefined();
+    expect(parseCondition({ type: 'not', condition: { type: 'level', level: 0 } })).toBeUndefined();
+  });
+
+  it('rejects a whole tree when any child is invalid', () => {
+    expect(parseCondition({
+      type: 'all',
+      conditions: [{ type: 'level', level: 5 }, { type: 'total_xp', xp: -1 }],
+    })).toBeUndefined();
+  });
+
+  it('rejects trees nested deeper than the limit', () => {
+    let condition: object = { type: 'level', level: 5 };
+    for (let depth = 0; depth <= CONDITION_LIMITS.maxDepth; depth++) {
+      condition = { type: 'not', condition };
+    }
+    expect(parseCondition(condition)).toBeUndefined();
+  });
+
+  it('rejects malformed JSON once parsed', () => {
+    const parse = (json: string) => {
+      try {
+        return parseCondition(JSON.parse(json));
+      } catch {
+        return undefined;
+      }
+    };
+    expect(parse('{"type": "level", "level": 10')).toBeUndefined();
+    expect(parse('{"type": "level", "level": "ten"}')).toBeUndefined();
+    expect(parse('{"type": "level", "level": 10}')).toEqual({ type: 'level', level: 10 });
+  });
+});
+
+describe('getRewardCondition', () => {
+  it('prefers the stored condition', () => {
+    const condition: AchievementCondition = { type: 'level', level: 5 };
+    expect(getRewardCondition({ type: 'strength', requirement: 3, condition })).toBe(condition);
+  });
+
+  it('turns legacy quest requirements into a quest count', () => {
+    expect(getRewardCondition({ type: 'speed', requirement: 3 })).toEqual({ type: 'quest_count', questType: 'speed', count: 3 });
+    expect(getRewardCondition({ type: 'speed' })).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { supabase } from '../../app/supabase';
+import { createQuest } from '../questGenerators';
+import { ensureQuestBoards, getPeriodEnd, getPeriodKey, planBoardRotation } from '../questBoards';
+import { Quest } from '../../types/questTypes';
+
+jest.mock('../../app/supabase', () => ({
+  supabase: { from: jest.fn() },
+}));
+
+jest.mock('../questGenerators', () => ({
+  createQuest: jest.fn(async (_generator: unknown, request: { type: string; difficulty: string }) => ({
+    id: `quest-${Math.random()}`,
+    title: 'Test Quest',
+    description: 'A quest for the tests',
+    type: request.type,
+    difficulty: request.difficulty,
+    xpReward: 100,
+    objective: { metric: 'duration_minutes', target: 20 },
+    accepted: false,
+    completed: false,
+  })),
+}));
+
+// 2026-10-19 is a Monday; all times are on the local clock
+const at = (day: number, hours = 0, minutes = 0, seconds = 0) => new Date(2026, 9, day, hours, minutes, seconds);
+const fixedClock = (date: Date) => () => date;
+
+const boardQuest = (board: 'daily' | 'weekly', periodKey: string, slot: number): Quest => ({
+  id: `${board}-${periodKey}-${slot}`,
+  title: 'Board Quest',
+  description: '',
+  type: 'strength',
+  difficulty: 'easy',
+  xpReward: 100,
+  accepted: false,
+  completed: false,
+  board,
+  period_key: periodKey,
+  board_slot: slot,
+});
+
+// Fills every slot of both boards for the period containing `now`
+const fullBoards = (now: Date): Quest[] => [
+  ...[0, 1, 2].map(slot => boardQuest('daily', getPeriodKey('daily', now), slot)),
+  ...[0, 1].map(slot => boardQuest('weekly', getPeriodKey('weekly', now), slot)),
+];
+
+const missingSlots = (quests: Quest[], now: Date) =>
+  Object.fromEntries(planBoardRotation(quests, now).map(plan => [plan.board, plan.missingSlots]));
+
+describe('daily rollover', () => {
+  it('keeps the same period until local midnight', () => {
+    expect(getPeriodKey('daily', at(21, 0, 0))).toBe('2026-10-21');
+    expect(getPeriodKey('daily', at(21, 23, 59, 59))).toBe('2026-10-21');
+    expect(getPeriodKey('daily', at(22, 0, 0))).toBe('2026-10-22');
+  });
+
+  it('ends the period at the next midnight', () => {
+    expect(getPeriodEnd('daily', at(21, 23, 59, 59))).toEqual(at(22));
+  });
+
+  it('refills the daily board after midnight but not the weekly one', () => {
+    const quests = fullBoards(at(21, 23, 59, 59));
+
+    expect(missingSlots(quests, at(21, 23, 59, 59))).toEqual({ daily: [], weekly: [] });
+    expect(missingSlots(quests, at(22, 0, 0))).toEqual({ daily: [0, 1, 2], weekly: [] });
+  });
+});
+
+describe('weekly rollover', () => {
+  it('starts weeks on Monday', () => {
+    expect(getPeriodKey('weekly', at(19))).toBe('2026-10-19');
+    expect(getPeriodKey('weekly', at(22, 12))).toBe('2026-10-19');
+    expect(getPeriodKey('weekly', at(25, 23, 59, 59))).toBe('2026-10-19');
+    expect(getPeriodKey('weekly', at(26, 0, 0))).toBe('2026-10-26');
+  });
+
+  it('ends the period at midnight going into the next Monday', () => {
+    expect(getPeriodEnd('weekly', at(19))).toEqual(at(26));
+    expect(getPeriodEnd('weekly', at(25, 23, 59, 59))).toEqual(at(26));
+  });
+
+  it('refills both boards when Sunday turns into Monday', () => {
+    const quests = fullBoards(at(25, 23, 59, 59));
+
+    expect(missingSlots(quests, at(25, 23, 59, 59))).toEqual({ daily: [], weekly: [] });
+    expect(missingSlots(quests, at(26, 0, 0))).toEqual({ daily: [0, 1, 2], weekly: [0, 1] });
+  });
+});
+
+describe('ensureQuestBoards', () => {
+  // The first read sees `quests`; reads after the upsert see what it stored,
+  // or `storedElsewhere` when another device filled the slots first
+  const mockExistingQuests = (quests: Quest[], storedElsewhere?: Quest[]) => {
+    let upserted: Quest[] = [];
+    const upsert = jest.fn(async (rows: Quest[]) => {
+      upserted = rows;
+      return { error: null };
+    });
+    const query = {
+      select: jest.fn().mockReturnThis(),
+      eq: jest.fn().mockReturnThis(),
+      in: jest.fn()
+        .mockResolvedValueOnce({ data: quests, error: null })
+        .mockImplementation(async () => ({ data: [...quests, ...(storedElsewhere || upserted)], error: null })),
+    };
+    (supabase.from as jest.Mock).mockReturnValue({ ...query, upsert });
+    return { query, upsert };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('generates nothing while the boards are full', async () => {
+    const now = at(21, 23, 59, 59);
+    const { upsert } = mockExistingQuests(fullBoards(now));
+    const loadContext = jest.fn();
+
+    const { data, error } = await ensureQuestBoards('user-1', {} as never, fixedClock(now), loadContext);
+
+    expect(error).toBeNull();
+    expect(data).toEqual([]);
+    expect(loadContext).not.toHaveBeenCalled();
+    expect(createQuest).not.toHaveBeenCalled();
+    expect(upsert).not.toHaveBeenCalled();
+  });
+
+  it('posts the next daily board once the clock passes midnight', async () => {
+    const now = at(22, 0, 0);
+    const { query } = mockExistingQuests(fullBoards(at(21, 23, 59, 59)));
+
+    const { data, error } = await ensureQuestBoards('user-1', {} as never, fixedClock(now), async () => null);
+
+    expect(error).toBeNull();
+    expect(query.in).toHaveBeenCalledWith('period_key', ['2026-10-22', '2026-10-19']);
+    expect(data).toHaveLength(3);
+    data!.forEach(quest => {
+      expect(quest).toMatchObject({ board: 'daily', period_key: '2026-10-22', user_id: 'user-1' });
+      expect(quest.deadline).toBe(at(23).toISOString());
+    });
+  });
+
+  it('returns the quests another device already stored for the period', async () => {
+    const now = at(22, 0, 0);
+    const otherDevice = [0, 1, 2].map(slot => boardQuest('daily', '2026-10-22', slot));
+    const { upsert } = mockExistingQuests(fullBoards(at(21, 23, 59, 59)), otherDevice);
+
+    const { data, error } = await ensureQuestBoards('user-1', {} as never, fixedClock(now), async () => null);
+
+    expect(error).toBeNull();
+    expect(upsert).toHaveBeenCalledTimes(1);
+    expect(data!.map(quest => quest.id)).toEqual(otherDevice.map(quest => quest.id));
+  });
+
+  it('posts a new week of quests on Monday', async () => {
+    const now = at(26, 0, 0);
+    mockExistingQuests(fullBoards(at(25, 23, 59, 59)));
+
+    const { data } = await ensureQuestBoards('user-1', {} as never, fixedClock(now), async () => null);
+
+    const weekly = (data || []).filter(quest => quest.board === 'weekly');
+    expect(weekly.map(quest => quest.board_slot)).toEqual([0, 1]);
+    weekly.forEach(quest => {
+      expect(quest.period_key).toBe('2026-10-26');
+      expect(quest.deadline).toBe(at(26 + 7).toISOString());
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  DIFFICULTY_TUNING,
+  getDifficultyMix,
+  getObjectiveScale,
+  getPerformanceShift,
+  getQuestPerformance,
+  scaleObjective,
+} from '../questDifficulty';
+import { Quest, QuestTypePerformance } from '../../types/questTypes';
+
+type HistoryQuest = Pick<Quest, 'type' | 'status' | 'completed'>;
+
+const completed: HistoryQuest = { type: 'strength', status: 'completed', completed: true };
+const abandoned: HistoryQuest = { type: 'strength', status: 'abandoned', completed: false };
+const expired: HistoryQuest = { type: 'strength', status: 'expired', completed: false };
+
+const repeat = (quest: HistoryQuest, count: number) => Array.from({ length: count }, () => quest);
+
+const record = (completedCount: number, failedCount: number): QuestTypePerformance => ({
+  completed: completedCount,
+  failed: failedCount,
+  completionRate: completedCount + failedCount > 0 ? completedCount / (completedCount + failedCount) : null,
+});
+
+describe('getQuestPerformance', () => {
+  it('counts finished quests as completions and abandoned or expired ones as failures', () => {
+    const performance = getQuestPerformance([
+      completed,
+      abandoned,
+      expired,
+      { type: 'strength', status: 'active', completed: false },
+      { type: 'speed', status: 'completed', completed: true },
+    ]);
+
+    expect(performance.strength).toEqual({ completed: 1, failed: 2, completionRate: 1 / 3 });
+    expect(performance.speed).toEqual({ completed: 1, failed: 0, completionRate: 1 });
+    expect(performance.magic.completionRate).toBeNull();
+  });
+
+  it('lets old results decay out of the history window', () => {
+    // Newest first: recent failures, then a long run of old completions
+    const history = [...repeat(abandoned, 10), ...repeat(completed, DIFFICULTY_TUNING.historyWindow)];
+
+    const performance = getQuestPerformance(history);
+
+    expect(performance.strength.failed).toBe(10);
+    expect(performance.strength.completed).toBe(DIFFICULTY_TUNING.historyWindow - 10);
+  });
+});
+
+describe('getPerformanceShift', () => {
+  it('stays neutral until there are enough resolved quests', () => {
+    expect(getPerformanceShift(undefined)).toBe(0);
+    expect(getPerformanceShift(record(0, 0))).toBe(0);
+    expect(getPerformanceShift(record(2, 0))).toBe(0);
+  });
+
+  it('ramps up from the target rate to a perfect record', () => {
+    expect(getPerformanceShift(record(7, 3))).toBeCloseTo(0);
+    expect(getPerformanceShift(record(17, 3))).toBeCloseTo(0.5);
+    expect(getPerformanceShift(record(10, 0))).toBe(1);
+  });
+
+  it('decays below the target rate down to a record of failures', () => {
+    expect(getPerformanceShift(record(7, 13))).toBeCloseTo(-0.5);
+    expect(getPerformanceShift(record(0, 10))).toBe(-1);
+  });
+
+  it('clamps to -1..1 even for an out-of-range rate', () => {
+    expect(getPerformanceShift({ completed: 5, failed: 0, completionRate: 1.6 })).toBe(1);
+    expect(getPerformanceShift({ completed: 0, failed: 5, completionRate: -0.5 })).toBe(-1);
+  });
+});
+
+describe('getDifficultyMix', () => {
+  const sum = (mix: Record<string, number>) => Object.values(mix).reduce((total, share) => total + share, 0);
+
+  it('uses the base mix without history', () => {
+    expect(getDifficultyMix(undefined)).toEqual(DIFFICULTY_TUNING.baseMix);
+  });
+
+  it('moves towards hard quests as the completion rate ramps up', () => {
+    const base = getDifficultyMix(undefined);
+    const strong = getDifficultyMix(record(10, 0));
+
+    expect(strong.hard).toBeGreaterThan(base.hard);
+    expect(strong.easy).toBeLessThan(base.easy);
+    expect(sum(strong)).toBeCloseTo(1);
+  });
+
+  it('moves towards easy quests as the completion rate decays', () => {
+    const base = getDifficultyMix(undefined);
+    const weak = getDifficultyMix(record(0, 10));
+
+    expect(weak.easy).toBeGreaterThan(base.easy);
+    expect(weak.hard).toBeLessThan(base.hard);
+    expect(sum(weak)).toBeCloseTo(1);
+  });
+
+  it('keeps every allowed difficulty above the floor', () => {
+    const mix = getDifficultyMix(record(10, 0));
+
+    expect(mix.easy).toBeGreaterThanOrEqual(DIFFICULTY_TUNING.minShare);
+  });
+
+  it('only hands out the difficulties a board allows', () => {
+    expect(getDifficultyMix(record(0, 10), ['hard'])).toEqual({ easy: 0, medium: 0, hard: 1 });
+
+    const daily = getDifficultyMix(record(10, 0), ['easy', 'medium']);
+    expect(daily.hard).toBe(0);
+    expect(sum(daily)).toBeCloseTo(1);
+  });
+});
+
+describe('getObjectiveScale', () => {
+  it('is 1 without enough history', () => {
+    expect(getObjectiveScale(undefined)).toBe(1);
+    expect(getObjectiveScale(record(1, 1))).toBe(1);
+  });
+
+  it('ramps up to the maximum and decays to the minimum', () => {
+    expect(getObjectiveScale(record(17, 3))).toBe(1.25);
+    expect(getObjectiveScale(record(10, 0))).toBe(DIFFICULTY_TUNING.objectiveScale.max);
+    expect(getObjectiveScale(record(7, 13))).toBe(0.85);
+    expect(getObjectiveScale(record(0, 10))).toBe(DIFFICULTY_TUNING.objectiveScale.min);
+  });
+
+  it('stays within the configured range for any record', () => {
+    for (let done = 0; done <= 10; done++) {
+      const scale = getObjectiveScale(record(done, 10 - done));
+      expect(scale).toBeGreaterThanOrEqual(DIFFICULTY_TUNING.objectiveScale.min);
+      expect(scale).toBeLessThanOrEqual(DIFFICULTY_TUNING.objectiveScale.max);
+    }
+  });
+});
+
+describe('scaleObjective', () => {
+  it('leaves the objective alone at scale 1', () => {
+    const objective = { metric: 'reps' as const, target: 30, exercise: 'push up' };
+    expect(scaleObjective(objective)).toBe(objective);
+  });
+
+  it('rounds scaled targets to loggable steps', () => {
+    expect(scaleObjective({ metric: 'distance_km', target: 5 }, 1.25).target).toBe(6.5);
+    expect(scaleObjective({ metric: 'reps', target: 30, exercise: 'push up' }, 1.5)).toEqual({
+      metric: 'reps',
+      target: 45,
+      exercise: 'push up',
+    });
+    expect(scaleObjective({ metric: 'elevation_ft', target: 400 }, 0.7).target).toBe(300);
+  });
+
+  it('never scales a target below one step', () => {
+    expect(scaleObjective({ metric: 'duration_minutes', target: 5 }, 0.7).target).toBe(5);
+    expect(scaleObjective({ metric: 'distance_km', target: 0.5 }, 0.7).target).toBe(0.5);
+  });
+});
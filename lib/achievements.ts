@@ -0,0 +1,269 @@
+import { supabase } from '../app/supabase';
+import { QUEST_TYPES } from '../constants/quests';
+import { isStatType, MAX_LEVEL } from './progression';
+import { fetchStreakSummary } from './streaks';
+import { AchievementCondition, AchievementStats, ConditionProgress } from '../types/achievementTypes';
+import { QuestType } from '../types/questTypes';
+
+// Reward conditions are a small rule tree stored with each reward (see
+// AchievementCondition). Evaluation is pure: load the stats once with
+// fetchAchievementStats, then check any number of rewards against them.
+
+// Bounds for conditions read from AI replies or the database
+export const CONDITION_LIMITS = {
+  maxDepth: 3,
+  maxChildren: 5,
+  maxCount: 1000,
+  maxXp: 10000000,
+  maxStreakDays: 365,
+  // Also how far back fetchAchievementStats loads workouts
+  maxWindowDays: 90,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rewards from before conditions existed only had a quest type and a count
+export interface LegacyRewardFields {
+  type?: QuestType | null;
+  requirement?: number | null;
+  condition?: AchievementCondition | null;
+}
+
+export function getRewardCondition(reward: LegacyRewardFields): AchievementCondition | null {
+  if (reward.condition) return reward.condition;
+  if (reward.type && reward.requirement) {
+    return { type: 'quest_count', questType: reward.type, count: reward.requirement };
+  }
+  return null;
+}
+
+function countWorkoutsInWindow(
+  stats: AchievementStats,
+  condition: Extract<AchievementCondition, { type: 'workouts_in_window' }>,
+  now: Date
+): number {
+  const since = now.getTime() - condition.days * DAY_MS;
+  return stats.workouts.filter(workout =>
+    new Date(workout.created_at).getTime() >= since
+    && (!condition.statType || workout.stat_type === condition.statType)
+  ).length;
+}
+
+// The number a leaf condition looks at, and the number it needs
+function getLeafValues(condition: AchievementCondition, stats: AchievementStats, now: Date): [number, number] {
+  switch (condition.type) {
+    case 'quest_count': {
+      const completed = condition.questType
+        ? stats.questCounts[condition.questType] || 0
+        : QUEST_TYPES.reduce((sum, type) => sum + (stats.questCounts[type] || 0), 0);
+      return [completed, condition.count];
+    }
+    case 'total_xp':
+      return [stats.totalXp, condition.xp];
+    case 'level':
+      return [stats.level, condition.level];
+    case 'streak':
+      return [condition.longest ? stats.longestStreak : stats.currentStreak, condition.days];
+    case 'workouts_in_window':
+      return [countWorkoutsInWindow(stats, condition, now), condition.count];
+    case 'guild_events':
+      return [stats.guildEventsCompleted, condition.count];
+    default:
+      return [0, 1];
+  }
+}
+
+export function getConditionProgress(
+  condition: AchievementCondition,
+  stats: AchievementStats,
+  now: Date = new Date()
+): ConditionProgress {
+  if (condition.type === 'all' || condition.type === 'any') {
+    const parts = condition.conditions.map(child => getConditionProgress(child, stats, now));
+    const metCount = parts.filter(part => part.met).length;
+    if (condition.type === 'all') {
+      return {
+        met: metCount === parts.length,
+        current: metCount,
+        target: parts.length,
+        fraction: parts.length > 0 ? parts.reduce((sum, part) => sum + part.fraction, 0) / parts.length : 1,
+      };
+    }
+    return {
+      met: metCount > 0,
+      current: Math.min(metCount, 1),
+      target: 1,
+      fraction: parts.reduce((best, part) => Math.max(best, part.fraction), 0),
+    };
+  }
+
+  // Partial progress towards the inner condition is no progress here
+  if (condition.type === 'not') {
+    const met = !getConditionProgress(condition.condition, stats, now).met;
+    return { met, current: met ? 1 : 0, target: 1, fraction: met ? 1 : 0 };
+  }
+
+  const [current, target] = getLeafValues(condition, stats, now);
+  return {
+    met: current >= target,
+    current,
+    target,
+    fraction: target > 0 ? Math.min(1, current / target) : 1,
+  };
+}
+
+export const evaluateCondition = (
+  condition: AchievementCondition,
+  stats: AchievementStats,
+  now: Date = new Date()
+): boolean => getConditionProgress(condition, stats, now).met;
+
+const plural = (count: number, word: string) => `${count.toLocaleString()} ${word}${count === 1 ? '' : 's'}`;
+
+const isList = (condition: AchievementCondition): boolean => condition.type === 'all' || condition.type === 'any';
+
+const isGroup = (condition: AchievementCondition): boolean => isList(condition) || condition.type === 'not';
+
+export function describeCondition(condition: AchievementCondition): string {
+  switch (condition.type) {
+    case 'quest_count':
+      return `Complete ${plural(condition.count, `${condition.questType ? `${condition.questType} ` : ''}quest`)}`;
+    case 'total_xp':
+      return `Earn ${condition.xp.toLocaleString()} XP`;
+    case 'level':
+      return `Reach level ${condition.level}`;
+    case 'streak':
+      return condition.longest
+        ? `Reach a best streak of ${plural(condition.days, 'day')}`
+        : `Keep a ${condition.days}-day training streak`;
+    case 'workouts_in_window':
+      return `Log ${plural(condition.count, `${condition.statType ? `${condition.statType} ` : ''}workout`)} within ${plural(condition.days, 'day')}`;
+    case 'guild_events':
+      return `Complete ${plural(condition.count, 'guild event')}`;
+    case 'all':
+    case 'any': {
+      const joiner = condition.type === 'all' ? ' and ' : ' or ';
+      return condition.conditions
+        .map(child => isList(child) ? `(${describeCondition(child)})` : describeCondition(child))
+        .join(joiner);
+    }
+    case 'not': {
+      // "Not reach level 10"
+      const inner = describeCondition(condition.condition);
+      return isList(condition.condition) ? `Not (${inner})` : `Not ${inner.charAt(0).toLowerCase()}${inner.slice(1)}`;
+    }
+    default:
+      return 'Unknown challenge';
+  }
+}
+
+// e.g. "3/5" for a leaf, "1/2 goals" for a group
+export function formatConditionProgress(condition: AchievementCondition, progress: ConditionProgress): string {
+  const value = `${Math.min(progress.current, progress.target).toLocaleString()}/${progress.target.toLocaleString()}`;
+  return isGroup(condition) ? `${value} goals` : value;
+}
+
+const isCount = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= max;
+
+const isQuestType = (value: unknown): value is QuestType => QUEST_TYPES.includes(value as QuestType);
+
+// Checks untrusted JSON (AI replies, stored rows) and returns a clean
+// condition, or undefined when any part of the tree is invalid
+export function parseCondition(value: unknown, depth: number = 0): AchievementCondition | undefined {
+  if (!value || typeof value !== 'object' || depth > CONDITION_LIMITS.maxDepth) return undefined;
+  const raw = value as Record<string, unknown>;
+  const limits = CONDITION_LIMITS;
+
+  switch (raw.type) {
+    case 'quest_count':
+      if (!isCount(raw.count, limits.maxCount)) return undefined;
+      if (raw.questType !== undefined && !isQuestType(raw.questType)) return undefined;
+      return raw.questType
+        ? { type: 'quest_count', count: raw.count, questType: raw.questType as QuestType }
+        : { type: 'quest_count', count: raw.count };
+    case 'total_xp':
+      return isCount(raw.xp, limits.maxXp) ? { type: 'total_xp', xp: raw.xp } : undefined;
+    case 'level':
+      return isCount(raw.level, MAX_LEVEL) ? { type: 'level', level: raw.level } : undefined;
+    case 'streak':
+      if (!isCount(raw.days, limits.maxStreakDays)) return undefined;
+      return raw.longest === true ? { type: 'streak', days: raw.days, longest: true } : { type: 'streak', days: raw.days };
+    case 'workouts_in_window': {
+      if (!isCount(raw.count, limits.maxCount) || !isCount(raw.days, limits.maxWindowDays)) return undefined;
+      if (raw.statType !== undefined && !isStatType(raw.statType)) return undefined;
+      const condition: AchievementCondition = { type: 'workouts_in_window', count: raw.count, days: raw.days };
+      if (isStatType(raw.statType)) condition.statType = raw.statType;
+      return condition;
+    }
+    case 'guild_events':
+      return isCount(raw.count, limits.maxCount) ? { type: 'guild_events', count: raw.count } : undefined;
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(raw.conditions) || raw.conditions.length === 0 || raw.conditions.length > limits.maxChildren) {
+        return undefined;
+      }
+      const conditions = raw.conditions.map(child => parseCondition(child, depth + 1));
+      if (conditions.some(child => !child)) return undefined;
+      return { type: raw.type, conditions: conditions as AchievementCondition[] };
+    }
+    case 'not': {
+      const condition = parseCondition(raw.condition, depth + 1);
+      return condition ? { type: 'not', condition } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+export async function fetchAchievementStats(userId: string): Promise<{ data: AchievementStats | null; error: Error | null }> {
+  const since = new Date(Date.now() - CONDITION_LIMITS.maxWindowDays * DAY_MS);
+
+  const [questsResult, characterResult, workoutsResult, eventsResult, streaks] = await Promise.all([
+    supabase
+      .from('quests')
+      .select('type')
+      .eq('user_id', userId)
+      .eq('completed', true),
+    supabase
+      .from('characters')
+      .select('xp, level')
+      .eq('user_id', userId)
+      .single(),
+    supabase
+      .from('workouts')
+      .select('created_at, stat_type')
+      .eq('user_id', userId)
+      .gte('created_at', since.toISOString()),
+    // Every completed guild event pays out once through the XP ledger
+    supabase
+      .from('xp_awards')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('source', 'event'),
+    fetchStreakSummary(userId),
+  ]);
+
+  const error = questsResult.error || characterResult.error || workoutsResult.error || eventsResult.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const questCounts = { strength: 0, speed: 0, magic: 0, willpower: 0 } as Record<QuestType, number>;
+  (questsResult.data || []).forEach(quest => {
+    if (isQuestType(quest.type)) questCounts[quest.type]++;
+  });
+
+  return {
+    data: {
+      questCounts,
+      totalXp: characterResult.data?.xp || 0,
+      level: characterResult.data?.level || 1,
+      currentStreak: streaks?.overall.current || 0,
+      longestStreak: streaks?.overall.longest || 0,
+      workouts: workoutsResult.data || [],
+      guildEventsCompleted: eventsResult.count || 0,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,48 @@
+import { supabase } from '../app/supabase';
+import { DEFAULT_AVATAR } from '../constants/avatar';
+import { AvatarConfig, AvatarProfile } from '../types/avatarTypes';
+
+// Older rows have no avatar and saved JSON may predate newer fields
+export function normalizeAvatar(avatar?: Partial<AvatarConfig> | null): AvatarConfig {
+  return { ...DEFAULT_AVATAR, ...(avatar || {}) };
+}
+
+// Loads avatar, class, equipped gear and title for a set of players, keyed by user id
+export async function fetchAvatarProfiles(userIds: string[]): Promise<Record<string, AvatarProfile>> {
+  const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+  if (uniqueIds.length === 0) return {};
+
+  const [charactersResult, itemsResult] = await Promise.all([
+    supabase
+      .from('characters')
+      .select('user_id, avatar, class, active_title')
+      .in('user_id', uniqueIds),
+    supabase
+      .from('character_items')
+      .select('user_id, item_id')
+      .in('user_id', uniqueIds)
+      .eq('equipped', true),
+  ]);
+
+  if (charactersResult.error) {
+    console.error("Error fetching avatars:", charactersResult.error);
+    return {};
+  }
+  if (itemsResult.error) {
+    console.error("Error fetching equipped gear:", itemsResult.error);
+  }
+
+  const profiles: Record<string, AvatarProfile> = {};
+  (charactersResult.data || []).forEach(character => {
+    profiles[character.user_id] = {
+      avatar: character.avatar,
+      characterClass: character.class,
+      equippedItemIds: (itemsResult.data || [])
+        .filter(item => item.user_id === character.user_id)
+        .map(item => item.item_id),
+      activeTitle: character.active_title,
+    };
+  });
+
+  return profiles;
+}
@@ -0,0 +1,46 @@
+import { supabase } from '../app/supabase';
+import { CharacterClass } from '../types/classTypes';
+
+// Classes come from the character_classes table, which respec_class() also
+// checks against. ClassesProvider loads them at startup and keeps the copy
+// here, so XP previews and quest prompts can look a class up synchronously;
+// until then lookups find nothing and no class bonus is shown.
+
+interface CharacterClassRow {
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  specialty: CharacterClass['specialty'];
+  xp_multipliers: CharacterClass['xpMultipliers'] | null;
+  starting_stats: CharacterClass['startingStats'] | null;
+}
+
+let characterClasses: CharacterClass[] = [];
+
+export const getCharacterClasses = (): CharacterClass[] => characterClasses;
+
+export const setCharacterClasses = (classes: CharacterClass[]) => {
+  characterClasses = classes;
+};
+
+export const getCharacterClass = (className?: string | null): CharacterClass | undefined =>
+  className ? characterClasses.find(characterClass => characterClass.name === className) : undefined;
+
+const toCharacterClass = (row: CharacterClassRow): CharacterClass => ({
+  name: row.name,
+  icon: row.icon,
+  color: row.color,
+  description: row.description,
+  specialty: row.specialty,
+  xpMultipliers: row.xp_multipliers || {},
+  startingStats: row.starting_stats || {},
+});
+
+export async function fetchCharacterClasses() {
+  const { data, error } = await supabase
+    .from('character_classes')
+    .select('*')
+    .order('sort_order', { ascending: true });
+  return { data: data ? (data as CharacterClassRow[]).map(toCharacterClass) : null, error };
+}
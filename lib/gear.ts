@@ -0,0 +1,77 @@
+import { supabase } from '../app/supabase';
+import { getItem } from '../constants/items';
+import { Character } from '../types/characterTypes';
+import { InventoryItem, Item } from '../types/gearTypes';
+import { StatType } from '../types/workoutTypes';
+import { STAT_TYPES } from './progression';
+
+export function getEquippedModifiers(inventory: InventoryItem[]): Record<StatType, number> {
+  const modifiers = { strength: 0, speed: 0, magic: 0, willpower: 0 } as Record<StatType, number>;
+
+  inventory
+    .filter(entry => entry.equipped)
+    .forEach(entry => {
+      const item = getItem(entry.item_id);
+      if (!item) return;
+      STAT_TYPES.forEach(stat => {
+        modifiers[stat] += item.statModifiers[stat] || 0;
+      });
+    });
+
+  return modifiers;
+}
+
+// Gear never touches the stored stats; it is layered on for display and combat
+export function getEffectiveStats(character: Pick<Character, StatType>, inventory: InventoryItem[]): Record<StatType, number> {
+  const modifiers = getEquippedModifiers(inventory);
+  const effective = {} as Record<StatType, number>;
+  STAT_TYPES.forEach(stat => {
+    effective[stat] = (character[stat] || 0) + modifiers[stat];
+  });
+  return effective;
+}
+
+export async function fetchInventory(userId: string) {
+  return supabase
+    .from('character_items')
+    .select('*')
+    .eq('user_id', userId)
+    .order('unlocked_at', { ascending: true });
+}
+
+// The database checks the full workout history (and the saved bodyweight)
+// against item_catalogue and stores anything newly earned
+export async function unlockEarnedGear(): Promise<{ data: Item[]; error: Error | null }> {
+  const { data, error } = await supabase.rpc('unlock_earned_items');
+
+  if (error) return { data: [], error };
+
+  const unlocked = ((data as string[] | null) || [])
+    .map(getItem)
+    .filter((item): item is Item => !!item);
+  return { data: unlocked, error: null };
+}
+
+// Swaps out whatever is in the slot; the partial unique index rejects two at once
+export async function equipItem(userId: string, entry: InventoryItem) {
+  const { error: unequipError } = await supabase
+    .from('character_items')
+    .update({ equipped: false })
+    .eq('user_id', userId)
+    .eq('slot', entry.slot)
+    .eq('equipped', true);
+
+  if (unequipError) return { error: unequipError };
+
+  return supabase
+    .from('character_items')
+    .update({ equipped: true })
+    .eq('id', entry.id);
+}
+
+export async function unequipItem(entry: InventoryItem) {
+  return supabase
+    .from('character_items')
+    .update({ equipped: false })
+    .eq('id', entry.id);
+}
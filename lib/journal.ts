@@ -0,0 +1,254 @@
+import { OPENAI_KEY, OPENAI_BASE_URL, OPENAI_MODEL, QUEST_GENERATOR } from '@env';
+import { supabase } from '../app/supabase';
+import { QUEST_DIFFICULTIES } from '../constants/quests';
+import { getPeriodEnd, getPeriodKey, getPeriodStart } from './questBoards';
+import { OpenAiGeneratorConfig, requestChatCompletion } from './questGenerators';
+import { ChapterText, JournalChapter, JournalEntry, JournalWeek } from '../types/journalTypes';
+import { QuestType } from '../types/questTypes';
+
+// The journal turns completed quests into weekly chapters. A chapter's recap
+// is written once the week is over and saved, so re-reading never rewrites it.
+
+// Recaps written per visit, newest weeks first; older gaps fill in on later visits
+export const MAX_CHAPTERS_PER_VISIT = 3;
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_RECAP_LENGTH = 2000;
+
+// Oldest week first, each with its quests in completion order
+export function groupJournalWeeks(entries: JournalEntry[]): JournalWeek[] {
+  const weeks = new Map<string, JournalWeek>();
+
+  [...entries]
+    .sort((a, b) => new Date(a.completed_at).getTime() - new Date(b.completed_at).getTime())
+    .forEach(entry => {
+      const completedAt = new Date(entry.completed_at);
+      const weekKey = getPeriodKey('weekly', completedAt);
+      let week = weeks.get(weekKey);
+      if (!week) {
+        week = {
+          weekKey,
+          startsAt: getPeriodStart('weekly', completedAt),
+          endsAt: getPeriodEnd('weekly', completedAt),
+          chapterNumber: weeks.size + 1,
+          entries: [],
+        };
+        weeks.set(weekKey, week);
+      }
+      week.entries.push(entry);
+    });
+
+  return Array.from(weeks.values());
+}
+
+export const isWeekFinished = (week: JournalWeek, now: Date = new Date()): boolean =>
+  now.getTime() >= week.endsAt.getTime();
+
+// e.g. "Oct 12 – Oct 18"
+export function formatWeekRange(week: JournalWeek): string {
+  const lastDay = new Date(week.endsAt.getTime() - 1);
+  const format = (date: Date) => date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return `${format(week.startsAt)} – ${format(lastDay)}`;
+}
+
+export const getWeekXp = (week: JournalWeek): number =>
+  week.entries.reduce((sum, entry) => sum + entry.xpReward, 0);
+
+// A source of chapter recaps. Like quest generators, writers throw on failure
+// so callers can fall back to another one.
+export interface ChapterWriter {
+  name: string;
+  write(week: JournalWeek, heroName: string): Promise<ChapterText>;
+}
+
+const CHAPTER_TITLES: Record<QuestType, string[]> = {
+  strength: ['Trials of Iron', 'The Weight of Legends', 'Stone and Sinew'],
+  speed: ['The Swift Road', 'Wind at Their Heels', 'The Long Run'],
+  magic: ['Arcane Currents', 'The Flowing Path', 'Whispers of the Ley'],
+  willpower: ['The Unbending Will', 'Iron Resolve', 'The Quiet Vigil'],
+};
+
+const TYPE_DEEDS: Record<QuestType, string> = {
+  strength: 'trials of strength',
+  speed: 'races against time',
+  magic: 'arcane rites',
+  willpower: 'tests of will',
+};
+
+const DIFFICULTY_ORDER = QUEST_DIFFICULTIES.map(difficulty => difficulty.name);
+
+// Writes a recap from the week's quests alone, so the journal works offline
+export function createTemplateChapterWriter(): ChapterWriter {
+  return {
+    name: 'template',
+    async write(week: JournalWeek, heroName: string): Promise<ChapterText> {
+      const counts = {} as Record<QuestType, number>;
+      week.entries.forEach(entry => {
+        counts[entry.type] = (counts[entry.type] || 0) + 1;
+      });
+      const types = (Object.keys(counts) as QuestType[]).sort((a, b) => counts[b] - counts[a]);
+      const titles = CHAPTER_TITLES[types[0]];
+      const title = titles[(week.chapterNumber - 1) % titles.length];
+
+      // The hardest, then richest, quest of the week is the one the bards remember
+      const highlight = [...week.entries].sort((a, b) =>
+        DIFFICULTY_ORDER.indexOf(b.difficulty) - DIFFICULTY_ORDER.indexOf(a.difficulty) || b.xpReward - a.xpReward
+      )[0];
+
+      const quests = week.entries.length === 1 ? 'one quest' : `${week.entries.length} quests`;
+      const deeds = types.map(type => `${counts[type]} ${TYPE_DEEDS[type]}`).join(', ');
+      const storyline = week.entries.some(entry => entry.chain_id)
+        ? ' Along the way, the threads of a greater story drew tighter.'
+        : '';
+      const closing = week.entries.length >= 5
+        ? 'Songs are already being written about this week.'
+        : 'The road goes on, and so does the hero.';
+
+      return {
+        title,
+        recap: `${heroName} answered the call and completed ${quests} (${deeds}), earning ${getWeekXp(week).toLocaleString()} XP. ` +
+          `Most memorable was "${highlight.title}": ${highlight.description}${storyline} ${closing}`,
+      };
+    },
+  };
+}
+
+// Pulls the first JSON object out of a chat reply and checks it has usable text
+export function parseChapterText(raw: string): ChapterText {
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Chapter writer reply contained no JSON');
+  }
+
+  const parsed = JSON.parse(match[0]);
+  if (typeof parsed.title !== 'string' || typeof parsed.recap !== 'string'
+    || !parsed.title.trim() || !parsed.recap.trim()) {
+    throw new Error('Chapter writer reply is missing a title or recap');
+  }
+
+  return {
+    title: parsed.title.trim().slice(0, MAX_TITLE_LENGTH),
+    recap: parsed.recap.trim().slice(0, MAX_RECAP_LENGTH),
+  };
+}
+
+export function buildChapterPrompt(week: JournalWeek, heroName: string): string {
+  const quests = week.entries
+    .map(entry => `- ${entry.title} (${entry.difficulty} ${entry.type}): ${entry.description}`)
+    .join('\n');
+  return [
+    `Write chapter ${week.chapterNumber} of ${heroName}'s adventure log, covering ${formatWeekRange(week)}.`,
+    `The quests they completed this week, in order:\n${quests}`,
+    'Retell them as one short fantasy story of 80-120 words in the past tense, and give the chapter a title of at most 6 words.',
+    'Return only JSON: {"title": string, "recap": string}.',
+  ].join('\n\n');
+}
+
+export function createOpenAiChapterWriter(config: OpenAiGeneratorConfig): ChapterWriter {
+  return {
+    name: 'openai',
+    async write(week: JournalWeek, heroName: string): Promise<ChapterText> {
+      const reply = await requestChatCompletion(
+        config,
+        'You are the chronicler of a fantasy-themed fitness RPG. You turn a hero\'s completed quests into a vivid, encouraging weekly chapter.',
+        buildChapterPrompt(week, heroName)
+      );
+      return parseChapterText(reply);
+    },
+  };
+}
+
+// Uses the same provider as quest generation, always backed by the template writer
+export function createChapterWriter(name: string | undefined = QUEST_GENERATOR): ChapterWriter {
+  const template = createTemplateChapterWriter();
+  const selected = name || (OPENAI_KEY ? 'openai' : 'template');
+  if (selected !== 'openai' || !OPENAI_KEY) return template;
+
+  const openAi = createOpenAiChapterWriter({ apiKey: OPENAI_KEY, baseUrl: OPENAI_BASE_URL, model: OPENAI_MODEL });
+  return {
+    name: 'openai+template',
+    async write(week: JournalWeek, heroName: string): Promise<ChapterText> {
+      try {
+        return await openAi.write(week, heroName);
+      } catch (error) {
+        console.error('Chapter writer "openai" failed:', error);
+        return template.write(week, heroName);
+      }
+    },
+  };
+}
+
+export async function fetchJournal(userId: string) {
+  const [questsResult, chaptersResult] = await Promise.all([
+    supabase
+      .from('quests')
+      .select('id, title, description, type, difficulty, xpReward, chain_id, completed_at')
+      .eq('user_id', userId)
+      .eq('completed', true)
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: true }),
+    supabase
+      .from('journal_chapters')
+      .select('*')
+      .eq('user_id', userId),
+  ]);
+
+  const error = questsResult.error || chaptersResult.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: {
+      entries: (questsResult.data || []) as JournalEntry[],
+      chapters: (chaptersResult.data || []) as JournalChapter[],
+    },
+    error: null,
+  };
+}
+
+// Writes recaps for finished weeks that don't have one yet. The unique
+// (user_id, week_key) index keeps the first recap if two devices race.
+export async function writeMissingChapters(
+  userId: string,
+  heroName: string,
+  weeks: JournalWeek[],
+  chapters: JournalChapter[],
+  writer: ChapterWriter,
+  now: Date = new Date()
+) {
+  const written = new Set(chapters.map(chapter => chapter.week_key));
+  const missing = weeks
+    .filter(week => isWeekFinished(week, now) && !written.has(week.weekKey))
+    .reverse()
+    .slice(0, MAX_CHAPTERS_PER_VISIT);
+
+  if (missing.length === 0) {
+    return { data: [] as JournalChapter[], error: null };
+  }
+
+  const newChapters: JournalChapter[] = [];
+  for (const week of missing) {
+    const text = await writer.write(week, heroName);
+    newChapters.push({
+      ...text,
+      user_id: userId,
+      week_key: week.weekKey,
+      chapter_number: week.chapterNumber,
+      generator: writer.name,
+    });
+  }
+
+  const { error } = await supabase
+    .from('journal_chapters')
+    .upsert(newChapters, { onConflict: 'user_id,week_key', ignoreDuplicates: true });
+
+  return { data: error ? null : newChapters, error };
+}
+
+// Plain text for the share sheet
+export function formatChapterForSharing(week: JournalWeek, chapter: ChapterText | null, heroName: string): string {
+  const heading = `📖 ${heroName}'s Journal — Chapter ${week.chapterNumber}${chapter ? `: ${chapter.title}` : ''}`;
+  const quests = week.entries.map(entry => `⚔️ ${entry.title} (+${entry.xpReward} XP)`).join('\n');
+  return [heading, formatWeekRange(week), chapter?.recap, quests].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,70 @@
+import { supabase } from '../app/supabase';
+import { getLegacyTrait } from '../constants/legacyTraits';
+import { EarnedLegacyTrait, LegacyTrait } from '../types/legacyTypes';
+import { StatType } from '../types/workoutTypes';
+
+// Multipliers from several traits stack multiplicatively
+export function getLegacyXpMultiplier(traitIds: string[], statType: StatType): number {
+  return traitIds.reduce((multiplier, traitId) => {
+    const trait = getLegacyTrait(traitId);
+    return multiplier * (trait?.bonus.xpMultipliers?.[statType] || 1);
+  }, 1);
+}
+
+export function getLegacyStatBonuses(traitIds: string[]): Record<StatType, number> {
+  const bonuses = { strength: 0, speed: 0, magic: 0, willpower: 0 } as Record<StatType, number>;
+
+  traitIds.forEach(traitId => {
+    const statBonuses = getLegacyTrait(traitId)?.bonus.statBonuses || {};
+    (Object.keys(statBonuses) as StatType[]).forEach(stat => {
+      bonuses[stat] += statBonuses[stat] || 0;
+    });
+  });
+
+  return bonuses;
+}
+
+// e.g. "+3 Speed, +5% Speed XP"
+export function describeLegacyBonus(trait: LegacyTrait): string {
+  const capitalize = (stat: string) => stat.charAt(0).toUpperCase() + stat.slice(1);
+  const statBonuses = trait.bonus.statBonuses || {};
+  const xpMultipliers = trait.bonus.xpMultipliers || {};
+
+  return [
+    ...(Object.keys(statBonuses) as StatType[]).map(stat => `+${statBonuses[stat]} ${capitalize(stat)}`),
+    ...(Object.keys(xpMultipliers) as StatType[]).map(
+      stat => `+${Math.round(((xpMultipliers[stat] || 1) - 1) * 100)}% ${capitalize(stat)} XP`
+    ),
+  ].join(', ');
+}
+
+export async function fetchLegacyTraits(userId: string) {
+  return supabase
+    .from('legacy_traits')
+    .select('*')
+    .eq('user_id', userId)
+    .order('earned_at', { ascending: true });
+}
+
+// Trait ids only, for passing into XP awards; an error just means no bonus
+export async function fetchLegacyTraitIds(userId: string): Promise<string[]> {
+  const { data, error } = await fetchLegacyTraits(userId);
+  if (error) {
+    console.error("Error fetching legacy traits:", error);
+    return [];
+  }
+  return (data || []).map((trait: EarnedLegacyTrait) => trait.trait_id);
+}
+
+// The database checks the full workout history (and the saved bodyweight)
+// against legacy_trait_catalogue and records any newly reached milestones
+export async function unlockLegacyTraits(): Promise<{ data: LegacyTrait[]; error: Error | null }> {
+  const { data, error } = await supabase.rpc('unlock_legacy_traits');
+
+  if (error) return { data: [], error };
+
+  const unlocked = ((data as string[] | null) || [])
+    .map(getLegacyTrait)
+    .filter((trait): trait is LegacyTrait => !!trait);
+  return { data: unlocked, error: null };
+}
@@ -0,0 +1,76 @@
+import { MilestoneRule } from '../types/milestoneTypes';
+import { Workout } from '../types/workoutTypes';
+
+// The workout fields milestone rules look at
+export type MilestoneWorkout = Pick<Workout, 'exercise' | 'stat_type' | 'sets' | 'reps' | 'weight_kg' | 'duration_minutes' | 'distance_km'>;
+
+// "Push-Ups", "pushups" and "push up" should all match a "push up" rule
+const normalizeExercise = (exercise: string): string => exercise.toLowerCase().replace(/[^a-z]/g, '');
+
+export const matchesExercise = (workout: Pick<Workout, 'exercise'>, exercise: string): boolean =>
+  normalizeExercise(workout.exercise).includes(normalizeExercise(exercise));
+
+// Relative lifts can't be checked until the player has entered a bodyweight
+export function getRequiredWeightKg(rule: Extract<MilestoneRule, { type: 'lift' }>, bodyWeightKg?: number | null): number | null {
+  const required: number[] = [];
+  if (rule.minWeightKg) required.push(rule.minWeightKg);
+  if (rule.bodyweightMultiple) {
+    if (!bodyWeightKg) return null;
+    required.push(rule.bodyweightMultiple * bodyWeightKg);
+  }
+  return required.length > 0 ? Math.max(...required) : null;
+}
+
+export function isMilestoneMet(rule: MilestoneRule, workouts: MilestoneWorkout[], bodyWeightKg?: number | null): boolean {
+  switch (rule.type) {
+    case 'lift': {
+      const requiredKg = getRequiredWeightKg(rule, bodyWeightKg);
+      if (requiredKg === null) return false;
+      return workouts.some(w => matchesExercise(w, rule.exercise) && (w.weight_kg || 0) >= requiredKg);
+    }
+    case 'reps':
+      return workouts.some(w => matchesExercise(w, rule.exercise) && (w.sets || 1) * (w.reps || 0) >= rule.minTotalReps);
+    case 'distance':
+      return workouts.some(w => (w.distance_km || 0) >= rule.minKm);
+    case 'duration':
+      return workouts.some(w =>
+        (!rule.statType || w.stat_type === rule.statType) && (w.duration_minutes || 0) >= rule.minMinutes
+      );
+    case 'workout_count':
+      return workouts.filter(w => !rule.statType || w.stat_type === rule.statType).length >= rule.count;
+    case 'boss_loot':
+      // Granted by strike_world_boss when the boss falls
+      return false;
+    case 'reward_claim':
+      // Granted by claim_reward
+      return false;
+    default:
+      return false;
+  }
+}
+
+export function describeMilestone(rule: MilestoneRule): string {
+  switch (rule.type) {
+    case 'lift': {
+      const exercise = rule.exercise.charAt(0).toUpperCase() + rule.exercise.slice(1);
+      if (rule.bodyweightMultiple) return `${exercise} ${rule.bodyweightMultiple}× bodyweight`;
+      return `${exercise} ${rule.minWeightKg} kg`;
+    }
+    case 'reps':
+      return rule.minTotalReps === 1
+        ? `Complete your first ${rule.exercise}`
+        : `${rule.minTotalReps} ${rule.exercise}s in one session`;
+    case 'distance':
+      return `Cover ${rule.minKm} km in one workout`;
+    case 'duration':
+      return `Train ${rule.statType ? `${rule.statType} ` : ''}for ${rule.minMinutes} minutes straight`;
+    case 'workout_count':
+      return `Log ${rule.count} ${rule.statType ? `${rule.statType} ` : ''}workouts`;
+    case 'boss_loot':
+      return `Help defeat ${rule.bossName}`;
+    case 'reward_claim':
+      return rule.rewardTitle ? `Claim the "${rule.rewardTitle}" reward` : 'Claim an achievement reward';
+    default:
+      return 'Unknown challenge';
+  }
+}
@@ -0,0 +1,177 @@
+import { Character } from '../types/characterTypes';
+import { StatType } from '../types/workoutTypes';
+import { XpSource } from '../types/historyTypes';
+import { LEVEL_CURVE, STAT_POINT_TIERS } from '../constants/levelCurve';
+import { getCharacterClass } from './classes';
+import { CharacterClass } from '../types/classTypes';
+
+// Every XP source (workouts, quests, guild events) goes through this module so
+// level, class bonus and stat rules stay identical across screens. award_xp
+// applies the same bonuses on the server, which decides what is paid.
+
+export type ProgressionCharacter = Pick<Character, 'class' | 'level' | 'xp' | StatType>;
+
+export interface XpAward {
+  source: XpSource;
+  statType: StatType;
+  baseXp: number;
+  // Stat points earned by the activity itself, before any level-up points
+  statGain?: number;
+  // Bonus multiplier (e.g. an active training streak) applied before the class bonus
+  multiplier?: number;
+  // Passive bonus from earned legacy traits, see getLegacyXpMultiplier
+  legacyMultiplier?: number;
+}
+
+export interface LevelUp {
+  level: number;
+  statPoints: number;
+}
+
+export interface ProgressionResult {
+  source: XpSource;
+  statType: StatType;
+  xpDelta: number;
+  multiplier: number;
+  legacyMultiplier: number;
+  classBonusApplied: boolean;
+  previousXp: number;
+  newXp: number;
+  previousLevel: number;
+  newLevel: number;
+  // Every level reached by this award, in order
+  levelUps: LevelUp[];
+  statChanges: Partial<Record<StatType, number>>;
+  xpToNextLevel: number;
+}
+
+export interface LevelProgress {
+  level: number;
+  xpIntoLevel: number;
+  xpForLevel: number;
+  xpToNextLevel: number;
+  percent: number;
+  isMaxLevel: boolean;
+}
+
+export const STAT_TYPES: StatType[] = ['strength', 'speed', 'magic', 'willpower'];
+export const MAX_LEVEL = LEVEL_CURVE.length;
+
+export function isStatType(value: unknown): value is StatType {
+  return STAT_TYPES.includes(value as StatType);
+}
+
+export function getClassSpecialty(className?: string): StatType | undefined {
+  return getCharacterClass(className)?.specialty;
+}
+
+export function getClassXpMultiplier(className: string | undefined, statType: StatType): number {
+  return getCharacterClass(className)?.xpMultipliers[statType] || 1;
+}
+
+export function applyClassBonus(className: string | undefined, statType: StatType, xp: number): number {
+  const multiplier = getClassXpMultiplier(className, statType);
+  return multiplier !== 1 ? Math.floor(xp * multiplier) : xp;
+}
+
+// Total XP needed to reach the start of a level
+export function getXpForLevel(level: number): number {
+  return LEVEL_CURVE[Math.min(MAX_LEVEL, Math.max(1, level)) - 1];
+}
+
+export function getLevelForXp(xp: number): number {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= LEVEL_CURVE[level]) {
+    level++;
+  }
+  return level;
+}
+
+export function getStatPointsForLevel(level: number): number {
+  return STAT_POINT_TIERS.reduce((points, tier) => (level >= tier.fromLevel ? tier.points : points), 0);
+}
+
+export function getLevelProgress(xp: number): LevelProgress {
+  const level = getLevelForXp(xp);
+  const levelStart = getXpForLevel(level);
+
+  if (level >= MAX_LEVEL) {
+    return { level, xpIntoLevel: xp - levelStart, xpForLevel: 0, xpToNextLevel: 0, percent: 100, isMaxLevel: true };
+  }
+
+  const xpForLevel = getXpForLevel(level + 1) - levelStart;
+  const xpIntoLevel = xp - levelStart;
+
+  return {
+    level,
+    xpIntoLevel,
+    xpForLevel,
+    xpToNextLevel: xpForLevel - xpIntoLevel,
+    percent: (xpIntoLevel / xpForLevel) * 100,
+    isMaxLevel: false,
+  };
+}
+
+export function calculateProgression(character: ProgressionCharacter, award: XpAward): ProgressionResult {
+  const multiplier = award.multiplier || 1;
+  const legacyMultiplier = award.legacyMultiplier || 1;
+  const boostedXp = Math.max(0, Math.round(award.baseXp * multiplier * legacyMultiplier));
+  const xpDelta = applyClassBonus(character.class, award.statType, boostedXp);
+  const newXp = character.xp + xpDelta;
+  // Never demote a character whose stored level is ahead of its XP
+  const newLevel = Math.max(character.level, getLevelForXp(newXp));
+
+  // A single award can cross several levels; each one grants its own stat points
+  const levelUps: LevelUp[] = [];
+  for (let level = character.level + 1; level <= newLevel; level++) {
+    levelUps.push({ level, statPoints: getStatPointsForLevel(level) });
+  }
+
+  const statPoints = levelUps.reduce((total, levelUp) => total + levelUp.statPoints, award.statGain || 0);
+
+  return {
+    source: award.source,
+    statType: award.statType,
+    xpDelta,
+    multiplier,
+    legacyMultiplier,
+    classBonusApplied: getClassXpMultiplier(character.class, award.statType) > 1,
+    previousXp: character.xp,
+    newXp,
+    previousLevel: character.level,
+    newLevel,
+    levelUps,
+    statChanges: statPoints > 0 ? { [award.statType]: statPoints } : {},
+    xpToNextLevel: getLevelProgress(newXp).xpToNextLevel,
+  };
+}
+
+// e.g. "+2 Strength" for alerts; empty when no stats changed
+export function formatStatChanges(statChanges: Partial<Record<StatType, number>>): string {
+  return (Object.keys(statChanges) as StatType[])
+    .map(stat => `+${statChanges[stat]} ${stat.charAt(0).toUpperCase() + stat.slice(1)}`)
+    .join(', ');
+}
+
+// e.g. "+10% Strength XP, +10% Willpower XP"
+export function formatClassBonus(characterClass: CharacterClass): string {
+  return (Object.keys(characterClass.xpMultipliers) as StatType[])
+    .map(stat => {
+      const percent = Math.round(((characterClass.xpMultipliers[stat] || 1) - 1) * 100);
+      return `+${percent}% ${stat.charAt(0).toUpperCase() + stat.slice(1)} XP`;
+    })
+    .join(', ');
+}
+
+// e.g. "Level 4 (+1 stat point)\nLevel 5 (+1 stat point)" for level-up alerts
+export function formatLevelUps(levelUps: LevelUp[]): string {
+  return levelUps
+    .map(({ level, statPoints }) => `Level ${level} (+${statPoints} stat point${statPoints === 1 ? '' : 's'})`)
+    .join('\n');
+}
+
+export function formatNextLevel(result: ProgressionResult): string {
+  return result.newLevel >= MAX_LEVEL
+    ? 'Maximum level reached!'
+    : `${result.xpToNextLevel} XP until level ${result.newLevel + 1}`;
+}
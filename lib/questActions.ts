@@ -0,0 +1,72 @@
+import { supabase } from '../app/supabase';
+import { createBoardQuest, getPeriodEnd, getPeriodStart } from './questBoards';
+import { createQuest, QuestGenerator } from './questGenerators';
+import { getLevelProgress } from './progression';
+import { getDeviceTimeZone } from './streaks';
+import { Character } from '../types/characterTypes';
+import { Quest, QuestContext, QuestType } from '../types/questTypes';
+
+// Both limits are mirrored in abandon_quest and reroll_quest
+export const DAILY_REROLL_LIMIT = 3;
+// Share of the reward lost by abandoning an accepted quest; 0 turns the penalty off
+export const ABANDON_PENALTY_SHARE = 0.1;
+
+// Still on the board: not finished, expired, abandoned or rerolled
+export const isQuestOpen = (quest: Quest): boolean =>
+  quest.status ? quest.status === 'active' : !quest.completed;
+
+// Storyline steps are fixed, so only open, standalone quests can be dropped
+export const canDropQuest = (quest: Quest): boolean => isQuestOpen(quest) && !quest.chain_id;
+
+// Once accepted, a quest can only be abandoned, which carries the penalty
+export const canRerollQuest = (quest: Quest): boolean => canDropQuest(quest) && !quest.accepted;
+
+// Abandoning never costs a level, so the penalty stops at the start of the current one
+export function getAbandonPenalty(quest: Quest, character: Pick<Character, 'xp'>): number {
+  if (!quest.accepted) return 0;
+  const penalty = Math.round(quest.xpReward * ABANDON_PENALTY_SHARE);
+  return Math.min(penalty, getLevelProgress(character.xp).xpIntoLevel);
+}
+
+export function countRerollsToday(quests: Quest[], now: Date = new Date()): number {
+  const dayStart = getPeriodStart('daily', now).getTime();
+  return quests.filter(q => q.status === 'rerolled' && q.rerolled_at && new Date(q.rerolled_at).getTime() >= dayStart).length;
+}
+
+// Only accepted quests can be abandoned; the slot is refilled on the next board check
+export async function abandonQuest(questId: string) {
+  return supabase.rpc('abandon_quest', { p_quest_id: questId });
+}
+
+// Swaps a quest for a new one of the chosen type and the same difficulty,
+// in the same board slot. Uses up one of the day's rerolls.
+export async function rerollQuest(
+  userId: string,
+  quest: Quest,
+  type: QuestType,
+  generator: QuestGenerator,
+  context?: QuestContext
+) {
+  const { error: rerollError } = await supabase.rpc('reroll_quest', {
+    p_quest_id: quest.id,
+    p_time_zone: getDeviceTimeZone(),
+  });
+
+  if (rerollError) {
+    return { data: null, error: rerollError };
+  }
+
+  const replacement = quest.board && quest.period_key && quest.board_slot !== null && quest.board_slot !== undefined
+    ? await createBoardQuest(
+      generator,
+      { board: quest.board, periodKey: quest.period_key, endsAt: getPeriodEnd(quest.board, new Date()) },
+      quest.board_slot,
+      { type, difficulty: quest.difficulty, context }
+    )
+    : await createQuest(generator, { type, difficulty: quest.difficulty, context });
+
+  const newQuest: Quest = { ...replacement, user_id: userId, rerolled_from: quest.id };
+  const { error } = await supabase.from('quests').insert(newQuest);
+
+  return { data: error ? null : newQuest, error };
+}
@@ -0,0 +1,168 @@
+import { supabase } from '../app/supabase';
+import { QUEST_BOARDS, QUEST_TYPES } from '../constants/quests';
+import { chooseQuestType } from './questContext';
+import { chooseDifficulty, getDifficultyMix, getObjectiveScale } from './questDifficulty';
+import { createQuest, QuestGenerator } from './questGenerators';
+import { getDayKey } from './streaks';
+import { Quest, QuestBoard, QuestContext, QuestRequest } from '../types/questTypes';
+
+// Boards rotate on the device's local calendar: the daily board at midnight,
+// the weekly board at midnight going into Monday. Every function takes the
+// current time so rotation can be checked against a fake clock.
+
+export type Clock = () => Date;
+
+export const systemClock: Clock = () => new Date();
+
+export const QUEST_BOARD_ORDER: QuestBoard[] = ['daily', 'weekly'];
+
+export interface BoardPlan {
+  board: QuestBoard;
+  periodKey: string;
+  endsAt: Date;
+  // Slots still to be generated this period
+  missingSlots: number[];
+}
+
+export function getPeriodStart(board: QuestBoard, now: Date): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (board === 'weekly') {
+    // getDay() is 0 on Sunday; weeks start on Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+export function getPeriodEnd(board: QuestBoard, now: Date): Date {
+  const end = getPeriodStart(board, now);
+  end.setDate(end.getDate() + (board === 'weekly' ? 7 : 1));
+  return end;
+}
+
+// The local date the period started on, e.g. "2026-10-19"
+export function getPeriodKey(board: QuestBoard, now: Date): string {
+  return getDayKey(getPeriodStart(board, now));
+}
+
+// Which board slots still need a quest this period. Finished and expired
+// quests keep their slot, so a board is only filled once per period; abandoned
+// and rerolled quests give theirs back (their board_slot is cleared).
+export function planBoardRotation(quests: Quest[], now: Date): BoardPlan[] {
+  return QUEST_BOARD_ORDER.map(board => {
+    const periodKey = getPeriodKey(board, now);
+    const filled = new Set(
+      quests
+        .filter(q => q.board === board && q.period_key === periodKey)
+        .map(q => q.board_slot)
+    );
+    const missingSlots = Array.from({ length: QUEST_BOARDS[board].size }, (_, slot) => slot)
+      .filter(slot => !filled.has(slot));
+
+    return { board, periodKey, endsAt: getPeriodEnd(board, now), missingSlots };
+  });
+}
+
+export function getBoardQuests(quests: Quest[], board: QuestBoard, now: Date): Quest[] {
+  const periodKey = getPeriodKey(board, now);
+  return quests
+    .filter(q => q.board === board && q.period_key === periodKey)
+    .sort((a, b) => (a.board_slot || 0) - (b.board_slot || 0));
+}
+
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Board quests run until the period ends and pay the board's XP multiplier.
+// Unless given (rerolls pick the type), the type leans towards what the
+// player's context says they need, and the difficulty mix and objective size
+// follow how often they finish quests of that type.
+export async function createBoardQuest(
+  generator: QuestGenerator,
+  plan: Pick<BoardPlan, 'board' | 'periodKey' | 'endsAt'>,
+  slot: number,
+  request: Partial<Pick<QuestRequest, 'type' | 'difficulty' | 'context'>> = {}
+): Promise<Quest> {
+  const config = QUEST_BOARDS[plan.board];
+  const { context } = request;
+  const type = request.type || (context ? chooseQuestType(context) : pickRandom(QUEST_TYPES));
+  const performance = context?.performance?.[type];
+  const quest = await createQuest(generator, {
+    type,
+    difficulty: request.difficulty || chooseDifficulty(getDifficultyMix(performance, config.difficulties)),
+    board: plan.board,
+    context,
+    objectiveScale: getObjectiveScale(performance),
+  });
+
+  return {
+    ...quest,
+    xpReward: Math.round(quest.xpReward * config.xpMultiplier),
+    deadline: plan.endsAt.toISOString(),
+    board: plan.board,
+    period_key: plan.periodKey,
+    board_slot: slot,
+  };
+}
+
+const slotKey = (quest: Pick<Quest, 'board' | 'period_key' | 'board_slot'>) =>
+  `${quest.board}:${quest.period_key}:${quest.board_slot}`;
+
+// Generates whatever the current boards are missing. The unique index on
+// (user_id, board, period_key, board_slot) stops two devices filling a slot twice,
+// so the slots are read back afterwards and the stored quests returned, whoever
+// wrote them. The player's context is only loaded when there is something to
+// generate.
+export async function ensureQuestBoards(
+  userId: string,
+  generator: QuestGenerator,
+  clock: Clock = systemClock,
+  loadContext?: () => Promise<QuestContext | null>
+) {
+  const now = clock();
+  const periodKeys = QUEST_BOARD_ORDER.map(board => getPeriodKey(board, now));
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('quests')
+    .select('board, period_key, board_slot')
+    .eq('user_id', userId)
+    .in('period_key', periodKeys);
+
+  if (fetchError) {
+    return { data: null, error: fetchError };
+  }
+
+  const plans = planBoardRotation((existing || []) as Quest[], now);
+  if (plans.every(plan => plan.missingSlots.length === 0)) {
+    return { data: [] as Quest[], error: null };
+  }
+
+  const context = (await loadContext?.()) || undefined;
+  const newQuests: Quest[] = [];
+  for (const plan of plans) {
+    for (const slot of plan.missingSlots) {
+      const quest = await createBoardQuest(generator, plan, slot, { context });
+      newQuests.push({ ...quest, user_id: userId });
+    }
+  }
+
+  const { error } = await supabase
+    .from('quests')
+    .upsert(newQuests, { onConflict: 'user_id,board,period_key,board_slot', ignoreDuplicates: true });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('quests')
+    .select('*')
+    .eq('user_id', userId)
+    .in('period_key', periodKeys);
+
+  if (storedError) {
+    return { data: null, error: storedError };
+  }
+
+  const generatedSlots = new Set(newQuests.map(slotKey));
+  const filled = ((stored || []) as Quest[]).filter(quest => generatedSlots.has(slotKey(quest)));
+  return { data: filled, error: null };
+}
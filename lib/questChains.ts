@@ -0,0 +1,101 @@
+import 'react-native-get-random-values';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../app/supabase';
+import { QUEST_DIFFICULTIES } from '../constants/quests';
+import { QuestChain, QuestChainProgress } from '../types/questChainTypes';
+import { Quest } from '../types/questTypes';
+
+// Share of the chain's quest XP paid again as the completion reward. Mirrored
+// in award_xp, which works the reward out from the completed quests.
+export const CHAIN_REWARD_XP_SHARE = 0.5;
+
+export type ChainState = 'not_started' | 'in_progress' | 'reward_ready' | 'finished';
+
+export function getChainState(progress?: QuestChainProgress | null): ChainState {
+  if (!progress) return 'not_started';
+  if (!progress.completed_at) return 'in_progress';
+  return progress.reward_claimed_at ? 'finished' : 'reward_ready';
+}
+
+export function getChainPercent(chain: QuestChain, progress?: QuestChainProgress | null): number {
+  if (!progress) return 0;
+  return Math.round((Math.min(progress.current_step, chain.steps.length) / chain.steps.length) * 100);
+}
+
+export function getChainRewardXp(chainQuests: Quest[]): number {
+  const total = chainQuests
+    .filter(q => q.completed)
+    .reduce((sum, quest) => sum + quest.xpReward, 0);
+  return Math.round(total * CHAIN_REWARD_XP_SHARE);
+}
+
+// Step quests have no deadline: a storyline waits for the player
+export function createChainStepQuest(chain: QuestChain, stepIndex: number): Quest {
+  const step = chain.steps[stepIndex];
+  const [minXp, maxXp] = QUEST_DIFFICULTIES.find(d => d.name === step.difficulty)?.xpRange || [100, 100];
+
+  return {
+    id: uuidv4(),
+    title: step.title,
+    description: step.description,
+    type: step.type,
+    difficulty: step.difficulty,
+    // Storylines pay the top of the range
+    xpReward: maxXp,
+    objective: step.objective,
+    accepted: false,
+    completed: false,
+    status: 'active',
+    deadline: null,
+    chain_id: chain.id,
+    chain_step: stepIndex,
+  };
+}
+
+export async function fetchChainProgress(userId: string) {
+  return supabase
+    .from('quest_chain_progress')
+    .select('*')
+    .eq('user_id', userId);
+}
+
+// start_quest_chain takes the step count from the database's copy of the catalogue
+export async function startQuestChain(userId: string, chain: QuestChain) {
+  const { error } = await supabase.rpc('start_quest_chain', { p_chain_id: chain.id });
+
+  if (error) return { error };
+
+  return supabase
+    .from('quests')
+    .insert({ ...createChainStepQuest(chain, 0), user_id: userId });
+}
+
+// award_xp moves current_step on when a step quest is completed; this posts
+// the quest for whichever step the player is now on, if it isn't posted yet
+export async function issueCurrentChainSteps(
+  userId: string,
+  chains: QuestChain[],
+  progressRows: QuestChainProgress[],
+  quests: Quest[]
+) {
+  const missing: Quest[] = [];
+  progressRows.forEach(progress => {
+    const chain = chains.find(c => c.id === progress.chain_id);
+    if (!chain || progress.completed_at || progress.current_step >= chain.steps.length) return;
+
+    const posted = quests.some(q => q.chain_id === chain.id && q.chain_step === progress.current_step);
+    if (!posted) {
+      missing.push({ ...createChainStepQuest(chain, progress.current_step), user_id: userId });
+    }
+  });
+
+  if (missing.length === 0) {
+    return { data: [] as Quest[], error: null };
+  }
+
+  const { error } = await supabase
+    .from('quests')
+    .upsert(missing, { onConflict: 'user_id,chain_id,chain_step', ignoreDuplicates: true });
+
+  return { data: error ? null : missing, error };
+}
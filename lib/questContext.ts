@@ -0,0 +1,138 @@
+import { supabase } from '../app/supabase';
+import { getCharacterClass } from './classes';
+import { getItem } from '../constants/items';
+import { QUEST_TYPES } from '../constants/quests';
+import { fetchInventory, getEffectiveStats } from './gear';
+import { DIFFICULTY_TUNING, getQuestPerformance } from './questDifficulty';
+import { fetchStreakSummary } from './streaks';
+import { Character } from '../types/characterTypes';
+import { QuestContext, QuestType } from '../types/questTypes';
+import { StatType } from '../types/workoutTypes';
+
+// Tuning for how strongly quest types lean towards what the player needs.
+// Every type keeps a base weight of 1 so nothing disappears from the boards.
+export const QUEST_TYPE_BIAS = {
+  // Extra weight for the weakest stat, scaled down for stronger ones
+  weakStat: 1.5,
+  classSpecialty: 0.75,
+  // Per goal keyword match, e.g. "run a 10k" leans towards speed
+  goalKeyword: 1,
+};
+
+const GOAL_KEYWORDS: Record<QuestType, string[]> = {
+  strength: ['strong', 'strength', 'lift', 'muscle', 'squat', 'bench', 'deadlift', 'push-up', 'pushup', 'pull-up', 'pullup'],
+  speed: ['run', 'cardio', 'marathon', '5k', '10k', 'sprint', 'bike', 'cycle', 'swim', 'hike', 'climb'],
+  magic: ['yoga', 'flexib', 'mobility', 'stretch', 'splits', 'balance'],
+  willpower: ['meditat', 'discipline', 'habit', 'consisten', 'stress', 'focus', 'sleep', 'plank'],
+};
+
+const RECENT_LIMIT = 10;
+
+export function buildQuestContext(
+  character: Pick<Character, 'class' | 'level' | StatType> & { goals?: string | null },
+  extras: Partial<Pick<QuestContext, 'equippedItems' | 'streakDays' | 'recentQuests' | 'recentWorkouts' | 'performance'>> = {}
+): QuestContext {
+  return {
+    level: character.level,
+    className: character.class,
+    stats: {
+      strength: character.strength,
+      speed: character.speed,
+      magic: character.magic,
+      willpower: character.willpower,
+    },
+    equippedItems: extras.equippedItems || [],
+    streakDays: extras.streakDays || 0,
+    recentQuests: extras.recentQuests || [],
+    recentWorkouts: extras.recentWorkouts || [],
+    goals: character.goals,
+    performance: extras.performance,
+  };
+}
+
+export function getQuestTypeWeights(context: QuestContext): Record<QuestType, number> {
+  const values = QUEST_TYPES.map(type => context.stats[type] || 0);
+  const highest = Math.max(...values);
+  const lowest = Math.min(...values);
+  const specialty = getCharacterClass(context.className)?.specialty;
+  const goals = (context.goals || '').toLowerCase();
+
+  const weights = {} as Record<QuestType, number>;
+  QUEST_TYPES.forEach(type => {
+    let weight = 1;
+    // 1 for the weakest stat, 0 for the strongest
+    if (highest > lowest) {
+      weight += QUEST_TYPE_BIAS.weakStat * ((highest - (context.stats[type] || 0)) / (highest - lowest));
+    }
+    if (type === specialty) {
+      weight += QUEST_TYPE_BIAS.classSpecialty;
+    }
+    weight += QUEST_TYPE_BIAS.goalKeyword * GOAL_KEYWORDS[type].filter(keyword => goals.includes(keyword)).length;
+    weights[type] = weight;
+  });
+  return weights;
+}
+
+export function chooseQuestType(context: QuestContext, random: () => number = Math.random): QuestType {
+  const weights = getQuestTypeWeights(context);
+  const total = QUEST_TYPES.reduce((sum, type) => sum + weights[type], 0);
+  let roll = random() * total;
+  for (const type of QUEST_TYPES) {
+    roll -= weights[type];
+    if (roll < 0) return type;
+  }
+  return QUEST_TYPES[QUEST_TYPES.length - 1];
+}
+
+export async function fetchQuestContext(userId: string): Promise<{ data: QuestContext | null; error: Error | null }> {
+  const [characterResult, inventoryResult, questsResult, workoutsResult, streaks, historyResult] = await Promise.all([
+    supabase
+      .from('characters')
+      .select('class, level, strength, speed, magic, willpower, goals')
+      .eq('user_id', userId)
+      .single(),
+    fetchInventory(userId),
+    supabase
+      .from('quests')
+      .select('title, type, completed')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_LIMIT),
+    supabase
+      .from('workouts')
+      .select('exercise, stat_type')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_LIMIT),
+    fetchStreakSummary(userId),
+    supabase
+      .from('quests')
+      .select('type, status, completed')
+      .eq('user_id', userId)
+      .or('completed.eq.true,status.in.(abandoned,expired)')
+      .order('created_at', { ascending: false })
+      .limit(DIFFICULTY_TUNING.historyWindow),
+  ]);
+
+  if (characterResult.error || !characterResult.data) {
+    return { data: null, error: characterResult.error };
+  }
+
+  const inventory = inventoryResult.data || [];
+  const equippedItems = inventory
+    .filter(entry => entry.equipped)
+    .map(entry => getItem(entry.item_id)?.name)
+    .filter((name): name is string => !!name);
+
+  return {
+    // Quests are pitched at the stats the player fights with, gear included
+    data: buildQuestContext({ ...characterResult.data, ...getEffectiveStats(characterResult.data, inventory) }, {
+      equippedItems,
+      streakDays: streaks?.overall.current || 0,
+      recentQuests: questsResult.data || [],
+      recentWorkouts: workoutsResult.data || [],
+      performance: getQuestPerformance(historyResult.data || []),
+    }),
+    error: null,
+  };
+}
@@ -0,0 +1,62 @@
+import { supabase } from '../app/supabase';
+import { QUEST_DIFFICULTIES } from '../constants/quests';
+import { Quest, QuestDifficulty } from '../types/questTypes';
+
+// Finishing while at least this share of the quest's time is left earns the
+// early bonus. Mirrored in award_xp, which pays the bonus on the server.
+export const EARLY_FINISH_WINDOW = 0.5;
+export const EARLY_FINISH_BONUS = 1.25;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getQuestDeadline(difficulty: QuestDifficulty, from: Date = new Date()): string {
+  const hours = QUEST_DIFFICULTIES.find(d => d.name === difficulty)?.durationHours || 24;
+  return new Date(from.getTime() + hours * HOUR_MS).toISOString();
+}
+
+// Milliseconds until the deadline; null for quests without one
+export function getTimeRemaining(quest: Quest, now: Date = new Date()): number | null {
+  if (!quest.deadline) return null;
+  return new Date(quest.deadline).getTime() - now.getTime();
+}
+
+export function isQuestExpired(quest: Quest, now: Date = new Date()): boolean {
+  if (quest.status === 'expired') return true;
+  if (quest.completed) return false;
+  const remaining = getTimeRemaining(quest, now);
+  return remaining !== null && remaining <= 0;
+}
+
+// When the early bonus window closes, or null if the quest has no deadline
+export function getEarlyFinishCutoff(quest: Quest): Date | null {
+  if (!quest.deadline || !quest.created_at) return null;
+  const start = new Date(quest.created_at).getTime();
+  const end = new Date(quest.deadline).getTime();
+  return new Date(end - (end - start) * EARLY_FINISH_WINDOW);
+}
+
+export function qualifiesForEarlyBonus(quest: Quest, now: Date = new Date()): boolean {
+  const cutoff = getEarlyFinishCutoff(quest);
+  return !!cutoff && now.getTime() <= cutoff.getTime();
+}
+
+export function getQuestBaseXp(quest: Quest, now: Date = new Date()): number {
+  return qualifiesForEarlyBonus(quest, now) ? Math.round(quest.xpReward * EARLY_FINISH_BONUS) : quest.xpReward;
+}
+
+// "2d 4h", "3h 12m", "45m"
+export function formatCountdown(ms: number): string {
+  if (ms <= 0) return 'Expired';
+  const totalMinutes = Math.ceil(ms / 60000);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+// Marks the player's overdue quests expired and returns how many were
+export async function expireOverdueQuests() {
+  return supabase.rpc('expire_quests');
+}
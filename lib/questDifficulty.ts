@@ -0,0 +1,143 @@
+import { QUEST_TYPES } from '../constants/quests';
+import { Quest, QuestDifficulty, QuestObjective, QuestType, QuestTypePerformance } from '../types/questTypes';
+
+// Adaptive difficulty: players who finish most of their quests of a type get
+// more hard ones and bigger objectives; players who keep abandoning or letting
+// them expire get easier ones. Everything here is pure so it can be tuned and
+// checked in isolation.
+
+export interface DifficultyTuning {
+  // Mix before any history is known
+  baseMix: Record<QuestDifficulty, number>;
+  // Completion rate the model steers towards
+  targetRate: number;
+  // Resolved quests of a type needed before the mix starts to move
+  minSamples: number;
+  // How many recent resolved quests are looked at
+  historyWindow: number;
+  // How far a perfect (or zero) completion rate moves easy and hard weights
+  shiftStrength: number;
+  // No difficulty allowed by a board ever drops below this share
+  minShare: number;
+  // Objective targets are multiplied by a value in this range
+  objectiveScale: { min: number; max: number };
+}
+
+export const DIFFICULTY_TUNING: DifficultyTuning = {
+  baseMix: { easy: 0.4, medium: 0.4, hard: 0.2 },
+  targetRate: 0.7,
+  minSamples: 3,
+  historyWindow: 30,
+  shiftStrength: 0.8,
+  minShare: 0.05,
+  objectiveScale: { min: 0.7, max: 1.5 },
+};
+
+const DIFFICULTY_ORDER: QuestDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Objective targets are rounded to steps a player would actually log
+const TARGET_STEPS: Record<QuestObjective['metric'], number> = {
+  distance_km: 0.5,
+  elevation_ft: 50,
+  duration_minutes: 5,
+  reps: 5,
+};
+
+// Quests newest first; only finished, abandoned or expired quests count
+export function getQuestPerformance(
+  quests: Array<Pick<Quest, 'type' | 'status' | 'completed'>>,
+  tuning: DifficultyTuning = DIFFICULTY_TUNING
+): Record<QuestType, QuestTypePerformance> {
+  const performance = {} as Record<QuestType, QuestTypePerformance>;
+  QUEST_TYPES.forEach(type => {
+    performance[type] = { completed: 0, failed: 0, completionRate: null };
+  });
+
+  quests
+    .filter(q => q.completed || q.status === 'abandoned' || q.status === 'expired')
+    .slice(0, tuning.historyWindow)
+    .forEach(quest => {
+      const entry = performance[quest.type];
+      if (!entry) return;
+      if (quest.completed) entry.completed++;
+      else entry.failed++;
+    });
+
+  QUEST_TYPES.forEach(type => {
+    const { completed, failed } = performance[type];
+    performance[type].completionRate = completed + failed > 0 ? completed / (completed + failed) : null;
+  });
+  return performance;
+}
+
+// -1 (struggling) to 1 (breezing through), 0 until there is enough history
+export function getPerformanceShift(
+  performance: QuestTypePerformance | undefined,
+  tuning: DifficultyTuning = DIFFICULTY_TUNING
+): number {
+  if (!performance || performance.completionRate === null) return 0;
+  if (performance.completed + performance.failed < tuning.minSamples) return 0;
+
+  const rate = performance.completionRate;
+  const shift = rate >= tuning.targetRate
+    ? (rate - tuning.targetRate) / (1 - tuning.targetRate)
+    : (rate - tuning.targetRate) / tuning.targetRate;
+  return Math.max(-1, Math.min(1, shift));
+}
+
+// Share of each difficulty, limited to the ones a board allows; sums to 1
+export function getDifficultyMix(
+  performance: QuestTypePerformance | undefined,
+  allowed: QuestDifficulty[] = DIFFICULTY_ORDER,
+  tuning: DifficultyTuning = DIFFICULTY_TUNING
+): Record<QuestDifficulty, number> {
+  const shift = getPerformanceShift(performance, tuning) * tuning.shiftStrength;
+  const weights: Record<QuestDifficulty, number> = {
+    easy: tuning.baseMix.easy * (1 - shift),
+    medium: tuning.baseMix.medium,
+    hard: tuning.baseMix.hard * (1 + shift),
+  };
+
+  const mix: Record<QuestDifficulty, number> = { easy: 0, medium: 0, hard: 0 };
+  const total = allowed.reduce((sum, difficulty) => sum + weights[difficulty], 0);
+  if (total <= 0) {
+    allowed.forEach(difficulty => { mix[difficulty] = 1 / allowed.length; });
+    return mix;
+  }
+
+  // Apply the floor, then renormalise
+  allowed.forEach(difficulty => {
+    mix[difficulty] = Math.max(tuning.minShare, weights[difficulty] / total);
+  });
+  const floored = allowed.reduce((sum, difficulty) => sum + mix[difficulty], 0);
+  allowed.forEach(difficulty => { mix[difficulty] /= floored; });
+  return mix;
+}
+
+export function chooseDifficulty(mix: Record<QuestDifficulty, number>, random: () => number = Math.random): QuestDifficulty {
+  let roll = random();
+  const candidates = DIFFICULTY_ORDER.filter(difficulty => mix[difficulty] > 0);
+  for (const difficulty of candidates) {
+    roll -= mix[difficulty];
+    if (roll < 0) return difficulty;
+  }
+  return candidates[candidates.length - 1] || 'medium';
+}
+
+export function getObjectiveScale(
+  performance: QuestTypePerformance | undefined,
+  tuning: DifficultyTuning = DIFFICULTY_TUNING
+): number {
+  const shift = getPerformanceShift(performance, tuning);
+  const { min, max } = tuning.objectiveScale;
+  // Scale up towards max when breezing through, down towards min when struggling
+  const scale = shift >= 0 ? 1 + shift * (max - 1) : 1 + shift * (1 - min);
+  return Math.round(scale * 100) / 100;
+}
+
+export function scaleObjective(objective: QuestObjective, scale: number = 1): QuestObjective {
+  if (scale === 1) return objective;
+  const step = TARGET_STEPS[objective.metric];
+  const target = Math.max(step, Math.round((objective.target * scale) / step) * step);
+  return { ...objective, target };
+}
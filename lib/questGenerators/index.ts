@@ -0,0 +1,88 @@
+import 'react-native-get-random-values';
+import { OPENAI_KEY, OPENAI_BASE_URL, OPENAI_MODEL, QUEST_GENERATOR } from '@env';
+import { v4 as uuidv4 } from 'uuid';
+import { QUEST_DIFFICULTIES } from '../../constants/quests';
+import { getQuestDeadline } from '../questDeadlines';
+import { scaleObjective } from '../questDifficulty';
+import { pickDefaultObjective } from '../questObjectives';
+import { Quest, QuestRequest, QuestText } from '../../types/questTypes';
+import { createOpenAiGenerator } from './openAiGenerator';
+import { createStubGenerator } from './stubGenerator';
+import { createTemplateGenerator } from './templateGenerator';
+import { QuestGenerator } from './types';
+
+export type { QuestGenerator } from './types';
+export { createOpenAiGenerator, requestChatCompletion } from './openAiGenerator';
+export type { OpenAiGeneratorConfig } from './openAiGenerator';
+export { createStubGenerator } from './stubGenerator';
+export { createSeededRandom, createTemplateGenerator } from './templateGenerator';
+
+export type QuestGeneratorName = 'openai' | 'template' | 'stub';
+
+// Tries each generator in turn; the last one should be able to work offline
+export function withFallback(...generators: QuestGenerator[]): QuestGenerator {
+  return {
+    name: generators.map(generator => generator.name).join('+'),
+    async generate(request: QuestRequest): Promise<QuestText> {
+      let lastError: unknown;
+      for (const generator of generators) {
+        try {
+          return await generator.generate(request);
+        } catch (error) {
+          console.error(`Quest generator "${generator.name}" failed:`, error);
+          lastError = error;
+        }
+      }
+      throw lastError;
+    },
+  };
+}
+
+// QUEST_GENERATOR in .env picks the provider; by default OpenAI is used when a
+// key is configured, always backed by the template engine
+export function createQuestGenerator(name: string | undefined = QUEST_GENERATOR): QuestGenerator {
+  const selected = (name || (OPENAI_KEY ? 'openai' : 'template')) as QuestGeneratorName;
+
+  switch (selected) {
+    case 'stub':
+      return createStubGenerator();
+    case 'openai':
+      if (OPENAI_KEY) {
+        return withFallback(
+          createOpenAiGenerator({ apiKey: OPENAI_KEY, baseUrl: OPENAI_BASE_URL, model: OPENAI_MODEL }),
+          createTemplateGenerator()
+        );
+      }
+      console.warn('QUEST_GENERATOR is "openai" but OPENAI_KEY is not set; using templates');
+      return createTemplateGenerator();
+    case 'template':
+    default:
+      return createTemplateGenerator();
+  }
+}
+
+// Turns generated text into a new, unaccepted quest with an XP reward, a
+// deadline and a measurable objective for its difficulty
+export async function createQuest(generator: QuestGenerator, request: QuestRequest): Promise<Quest> {
+  const text = await generator.generate(request);
+  const [minXp, maxXp] = QUEST_DIFFICULTIES.find(d => d.name === request.difficulty)?.xpRange || [100, 100];
+  const now = new Date();
+
+  return {
+    id: uuidv4(),
+    title: text.title,
+    description: text.description,
+    type: request.type,
+    difficulty: request.difficulty,
+    xpReward: Math.floor(Math.random() * (maxXp - minXp)) + minXp,
+    // Whichever objective is used, it is sized to the player's track record here
+    objective: scaleObjective(
+      text.objective ?? pickDefaultObjective(request.type, request.difficulty, request.board),
+      request.objectiveScale
+    ),
+    accepted: false,
+    completed: false,
+    status: 'active',
+    deadline: getQuestDeadline(request.difficulty, now),
+  };
+}
@@ -0,0 +1,145 @@
+import { OBJECTIVE_METRICS } from '../../constants/quests';
+import { isStatType } from '../progression';
+import { ObjectiveMetric, QuestContext, QuestObjective, QuestRequest, QuestText } from '../../types/questTypes';
+import { QuestGenerator } from './types';
+
+export interface OpenAiGeneratorConfig {
+  apiKey: string;
+  // Any OpenAI-compatible chat completions endpoint
+  baseUrl?: string;
+  model?: string;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+
+// Largest target the model may set per metric; anything beyond (or below the
+// metric's minTarget) is discarded and createQuest falls back to a template objective
+const MAX_OBJECTIVE_TARGETS: Record<ObjectiveMetric, number> = {
+  distance_km: 50,
+  elevation_ft: 5000,
+  duration_minutes: 240,
+  reps: 500,
+};
+
+// prepare_new_quest() rejects longer exercise names
+const MAX_EXERCISE_LENGTH = 40;
+
+export function parseObjective(value: unknown): QuestObjective | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { metric, target, statType, exercise } = value as Record<string, unknown>;
+
+  if (typeof metric !== 'string' || !(metric in OBJECTIVE_METRICS)) return undefined;
+  const min = OBJECTIVE_METRICS[metric as ObjectiveMetric].minTarget;
+  const max = MAX_OBJECTIVE_TARGETS[metric as ObjectiveMetric];
+  if (typeof target !== 'number' || !Number.isFinite(target) || target < min || target > max) return undefined;
+
+  const objective: QuestObjective = { metric: metric as ObjectiveMetric, target };
+  if (isStatType(statType)) objective.statType = statType;
+  if (typeof exercise === 'string' && exercise.trim()) {
+    if (exercise.trim().length > MAX_EXERCISE_LENGTH) return undefined;
+    objective.exercise = exercise.trim().toLowerCase();
+  }
+  return objective;
+}
+
+// Pulls the first JSON object out of a chat reply and checks it has usable text
+export function parseQuestText(raw: string): QuestText {
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Quest generator reply contained no JSON');
+  }
+
+  const parsed = JSON.parse(match[0]);
+  if (typeof parsed.title !== 'string' || typeof parsed.description !== 'string'
+    || !parsed.title.trim() || !parsed.description.trim()) {
+    throw new Error('Quest generator reply is missing a title or description');
+  }
+
+  return {
+    title: parsed.title.trim(),
+    description: parsed.description.trim(),
+    objective: parseObjective(parsed.objective),
+  };
+}
+
+// e.g. "Quest completion: strength 4/5, speed 1/4."
+function describePerformance(context: QuestContext): string {
+  if (!context.performance) return '';
+  const parts = Object.entries(context.performance)
+    .filter(([, result]) => result.completed + result.failed > 0)
+    .map(([type, result]) => `${type} ${result.completed}/${result.completed + result.failed}`);
+  return parts.length > 0
+    ? `Quest completion: ${parts.join(', ')}.`
+    : '';
+}
+
+function describeContext(context: QuestContext): string {
+  const stats = Object.entries(context.stats).map(([stat, value]) => `${stat} ${value}`).join(', ');
+  const lines = [
+    `Hero: level ${context.level}${context.className ? ` ${context.className}` : ''}. Stats: ${stats}.`,
+    context.equippedItems.length > 0 ? `Equipped: ${context.equippedItems.join(', ')}.` : '',
+    context.streakDays > 0 ? `Training streak: ${context.streakDays} days.` : '',
+    context.recentWorkouts.length > 0
+      ? `Recent workouts: ${context.recentWorkouts.map(w => `${w.exercise} (${w.stat_type})`).join(', ')}.`
+      : '',
+    context.recentQuests.length > 0
+      ? `Recent quests (avoid repeating them): ${context.recentQuests.map(q => q.title).join('; ')}.`
+      : '',
+    context.goals ? `The player's own goals: "${context.goals}".` : '',
+    describePerformance(context),
+  ];
+  return lines.filter(Boolean).join('\n');
+}
+
+export function buildQuestPrompt({ type, difficulty, board, context }: QuestRequest): string {
+  const length = board === 'weekly' ? ' The quest lasts a whole week.' : '';
+  const metrics = Object.keys(OBJECTIVE_METRICS).join(', ');
+  return [
+    `Create a 5-word fantasy fitness quest title and 20-word description. Type: ${type}, Difficulty: ${difficulty}.${length}`,
+    context ? `Tailor the quest to this player:\n${describeContext(context)}` : '',
+    `Give the quest one measurable workout objective the player can log: a metric (one of ${metrics}), a numeric target suited to the difficulty, and optionally a statType (${type}) or a specific exercise name. The target is resized to the player afterwards, so keep the number out of the description.`,
+    'Return only JSON: {"title": string, "description": string, "objective": {"metric": string, "target": number, "statType"?: string, "exercise"?: string}}.',
+  ].filter(Boolean).join('\n\n');
+}
+
+// One system + user exchange with the chat completions endpoint; returns the reply text
+export async function requestChatCompletion(config: OpenAiGeneratorConfig, system: string, prompt: string): Promise<string> {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+  const res = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${config.apiKey}`,
+    },
+    body: JSON.stringify({
+      model: config.model || DEFAULT_MODEL,
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: prompt },
+      ],
+    }),
+  });
+
+  if (!res.ok) {
+    throw new Error(`Chat completion request failed with status ${res.status}`);
+  }
+
+  const data = await res.json();
+  return data.choices?.[0]?.message?.content || '';
+}
+
+export function createOpenAiGenerator(config: OpenAiGeneratorConfig): QuestGenerator {
+  return {
+    name: 'openai',
+    async generate(request: QuestRequest): Promise<QuestText> {
+      const reply = await requestChatCompletion(
+        config,
+        'You are the Dungeon Master of a fantasy-themed fitness RPG. You write quests that push each player towards their goals and shore up their weakest stats.',
+        buildQuestPrompt(request)
+      );
+      return parseQuestText(reply);
+    },
+  };
+}
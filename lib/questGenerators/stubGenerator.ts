@@ -0,0 +1,25 @@
+import { QuestRequest, QuestText } from '../../types/questTypes';
+import { QuestGenerator } from './types';
+
+// Predictable quests for tests and demos. With canned responses it cycles
+// through them; otherwise the text just echoes the request.
+export function createStubGenerator(responses: QuestText[] = []): QuestGenerator & { requests: QuestRequest[] } {
+  const requests: QuestRequest[] = [];
+
+  return {
+    name: 'stub',
+    requests,
+    async generate(request: QuestRequest): Promise<QuestText> {
+      requests.push(request);
+
+      if (responses.length > 0) {
+        return responses[(requests.length - 1) % responses.length];
+      }
+
+      return {
+        title: `Stub ${request.type} quest`,
+        description: `A ${request.difficulty} ${request.type} quest for testing.`,
+      };
+    },
+  };
+}
@@ -0,0 +1,102 @@
+import { QUEST_OBJECTIVE_TEMPLATES, WEEKLY_OBJECTIVE_TEMPLATES } from '../../constants/quests';
+import { QuestRequest, QuestText, QuestType } from '../../types/questTypes';
+import { scaleObjective } from '../questDifficulty';
+import { QuestGenerator } from './types';
+
+// Offline quest writer. Titles and stories are assembled from lore tables and
+// every workout prescription is a measurable objective scaled to the
+// requested difficulty and, when asked, to the player's track record.
+
+type Random = () => number;
+
+const REGIONS = [
+  'the Frostbound Valley',
+  'the Ashen Wastes',
+  'Gloomwood Forest',
+  'the Sunken Citadel',
+  'Stormpeak Pass',
+  'the Crimson Marsh',
+  'the Glass Dunes',
+  'Hollowmere Village',
+];
+
+const THREATS = [
+  'An ice wyrm',
+  'A goblin warband',
+  'A restless lich',
+  'A stone golem',
+  'Bandit raiders',
+  'A swamp hag',
+  'A shadow drake',
+  'A cursed knight',
+];
+
+const QUEST_LORE: Record<QuestType, { titles: string[]; deeds: string[] }> = {
+  strength: {
+    titles: ['Break the {foe} Siege', 'Lift the Fallen Gate', 'Forge of the {foe}', 'Shoulder the Iron Bridge'],
+    deeds: ['Haul the boulders from the pass', 'Raise the fallen portcullis', 'Drive back the horde by force', 'Carry the wounded to safety'],
+  },
+  speed: {
+    titles: ['Outrun the {foe}', 'The Messenger of {region}', 'Race the Falling Sun', 'Flight from the {foe}'],
+    deeds: ['Carry the warning before nightfall', 'Outpace the pursuing riders', 'Light the beacon fires before dawn', 'Deliver the antidote in time'],
+  },
+  magic: {
+    titles: ['The Runes of {region}', 'Unseal the Moonlit Shrine', 'Weave the Warding Circle', 'Whispers of the {foe}'],
+    deeds: ['Bend like the willow to pass the thorn wall', 'Hold the sacred poses to break the curse', 'Channel calm to restore the ward', 'Align body and spirit to read the runes'],
+  },
+  willpower: {
+    titles: ['Vigil at {region}', 'The Unbroken Oath', 'Stand Against the {foe}', 'Trial of the Iron Mind'],
+    deeds: ['Keep the watch fire burning', 'Resist the whispers of the dark', 'Hold the line until dawn', 'Prove your resolve before the elders'],
+  },
+};
+
+// FNV-1a hash feeding mulberry32, so a seed always yields the same quest
+export function createSeededRandom(seed: string): Random {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = <T,>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+export function createTemplateGenerator(random: Random = Math.random): QuestGenerator {
+  return {
+    name: 'template',
+    async generate({ type, difficulty, board, seed, objectiveScale }: QuestRequest): Promise<QuestText> {
+      const rand = seed ? createSeededRandom(`${seed}:${type}:${difficulty}`) : random;
+      const lore = QUEST_LORE[type];
+      const region = pick(REGIONS, rand);
+      const threat = pick(THREATS, rand);
+      // "An ice wyrm" -> "Ice Wyrm" for titles
+      const foe = threat
+        .replace(/^(An?|The)\s+/i, '')
+        .replace(/\b\w/g, letter => letter.toUpperCase());
+
+      const title = pick(lore.titles, rand)
+        .replace('{foe}', foe)
+        .replace('{region}', region.replace(/^the\s+/i, ''));
+
+      const workouts = board === 'weekly' ? WEEKLY_OBJECTIVE_TEMPLATES[type] : QUEST_OBJECTIVE_TEMPLATES[type][difficulty];
+      const workout = pick(workouts, rand);
+      // createQuest scales the objective itself; the story quotes the same scaled target
+      const { target } = scaleObjective(workout.objective, objectiveScale);
+
+      return {
+        title,
+        description: `${threat} threatens ${region}. ${pick(lore.deeds, rand)} with ${workout.text.replace('{target}', target.toLocaleString())}.`,
+        objective: workout.objective,
+      };
+    },
+  };
+}
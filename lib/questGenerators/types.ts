@@ -0,0 +1,8 @@
+import { QuestRequest, QuestText } from '../../types/questTypes';
+
+// A source of quest titles and descriptions. Providers throw on failure so
+// callers can fall back to another one.
+export interface QuestGenerator {
+  name: string;
+  generate(request: QuestRequest): Promise<QuestText>;
+}
@@ -0,0 +1,108 @@
+import { supabase } from '../app/supabase';
+import { OBJECTIVE_METRICS, QUEST_OBJECTIVE_TEMPLATES, WEEKLY_OBJECTIVE_TEMPLATES } from '../constants/quests';
+import { matchesExercise } from './milestones';
+import { Quest, QuestBoard, QuestDifficulty, QuestObjective, QuestType } from '../types/questTypes';
+import { Workout } from '../types/workoutTypes';
+
+// The workout fields quest objectives look at
+export type ObjectiveWorkout = Pick<Workout, 'exercise' | 'stat_type' | 'sets' | 'reps' | 'duration_minutes' | 'distance_km' | 'elevation_ft' | 'created_at'>;
+
+export interface ObjectiveProgress {
+  current: number;
+  target: number;
+  percent: number;
+  complete: boolean;
+}
+
+// How much one workout counts towards an objective; mirrors
+// public.quest_objective_progress so the server agrees with the progress bar
+export function getWorkoutContribution(objective: QuestObjective, workout: ObjectiveWorkout): number {
+  if (objective.statType && workout.stat_type !== objective.statType) return 0;
+  if (objective.exercise && !matchesExercise(workout, objective.exercise)) return 0;
+
+  switch (objective.metric) {
+    case 'distance_km':
+      return workout.distance_km || 0;
+    case 'elevation_ft':
+      return workout.elevation_ft || 0;
+    case 'duration_minutes':
+      return workout.duration_minutes || 0;
+    case 'reps':
+      return (workout.sets || 1) * (workout.reps || 0);
+    default:
+      return 0;
+  }
+}
+
+export function calculateObjectiveProgress(objective: QuestObjective, workouts: ObjectiveWorkout[]): ObjectiveProgress {
+  const current = workouts.reduce((total, workout) => total + getWorkoutContribution(objective, workout), 0);
+  return {
+    current,
+    target: objective.target,
+    percent: Math.min(100, Math.round((current / objective.target) * 100)),
+    complete: current >= objective.target,
+  };
+}
+
+// Workouts only count from the moment the quest was accepted
+const getQuestStart = (quest: Quest): string | undefined => quest.accepted_at || quest.created_at;
+
+export function describeObjective(objective: QuestObjective): string {
+  const { label, unit } = OBJECTIVE_METRICS[objective.metric];
+  const target = `${objective.target.toLocaleString()} ${unit}`;
+  if (objective.exercise) return `${target} of ${objective.exercise}`;
+  if (objective.statType) return `${label}: ${target} of ${objective.statType} training`;
+  return `${label}: ${target}`;
+}
+
+export function formatObjectiveProgress(objective: QuestObjective, progress: ObjectiveProgress): string {
+  const { unit } = OBJECTIVE_METRICS[objective.metric];
+  // Distances are logged with decimals; everything else is whole numbers
+  const current = objective.metric === 'distance_km'
+    ? Math.round(progress.current * 10) / 10
+    : Math.round(progress.current);
+  return `${Math.min(current, progress.target).toLocaleString()} / ${progress.target.toLocaleString()} ${unit}`;
+}
+
+// Fallback for generators that only write the story
+export function pickDefaultObjective(type: QuestType, difficulty: QuestDifficulty, board?: QuestBoard): QuestObjective {
+  const templates = board === 'weekly' ? WEEKLY_OBJECTIVE_TEMPLATES[type] : QUEST_OBJECTIVE_TEMPLATES[type][difficulty];
+  return templates[Math.floor(Math.random() * templates.length)].objective;
+}
+
+// Progress for every accepted quest with an objective, keyed by quest id
+export async function fetchQuestProgress(userId: string, quests: Quest[]) {
+  const tracked = quests.filter(q => q.accepted && !q.completed && q.objective);
+  if (tracked.length === 0) {
+    return { data: {} as Record<string, ObjectiveProgress>, error: null };
+  }
+
+  const since = tracked
+    .map(getQuestStart)
+    .filter((start): start is string => !!start)
+    .sort()[0];
+
+  let query = supabase
+    .from('workouts')
+    .select('exercise, stat_type, sets, reps, duration_minutes, distance_km, elevation_ft, created_at')
+    .eq('user_id', userId);
+  if (since) {
+    query = query.gte('created_at', since);
+  }
+
+  const { data: workouts, error } = await query;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const progress: Record<string, ObjectiveProgress> = {};
+  tracked.forEach(quest => {
+    const start = getQuestStart(quest);
+    const counted = (workouts || []).filter(w =>
+      !start || !w.created_at || new Date(w.created_at).getTime() >= new Date(start).getTime()
+    );
+    progress[quest.id] = calculateObjectiveProgress(quest.objective as QuestObjective, counted);
+  });
+
+  return { data: progress, error: null };
+}
@@ -0,0 +1,126 @@
+import { supabase } from '../app/supabase';
+import { getItem } from '../constants/items';
+import { isStatType } from './progression';
+import { getDeviceTimeZone } from './streaks';
+import {
+  CharacterBoost,
+  Reward,
+  RewardBoost,
+  RewardClaimResult,
+  RewardDifficulty,
+  RewardPayload
+} from '../types/rewardTypes';
+
+// The server decides when a reward is earned (mark_earned_rewards) and what
+// it pays (reward_payload). Earned rewards are claimed once through
+// claim_reward, which grants the payload's XP, items, titles and boosts in
+// one transaction.
+
+// Mirrors reward_payload and reward_claim_xp: the payout for each
+// difficulty, and the most a payload is paid
+export const REWARD_XP: Record<'default' | 'max', Record<RewardDifficulty, number>> = {
+  default: { bronze: 100, silver: 200, gold: 400 },
+  max: { bronze: 150, silver: 300, gold: 600 },
+};
+
+// Also enforced by claim_reward
+export const REWARD_PAYLOAD_LIMITS = {
+  maxItems: 2,
+  maxTitles: 2,
+  maxBoosts: 1,
+  maxTitleLength: 40,
+  maxBoostMultiplier: 1.5,
+  maxBoostHours: 72,
+};
+
+// Mirrors the daily limit in claim_reward
+export const REWARD_CLAIMS_PER_DAY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isRewardEarned = (reward: Reward): boolean => !!(reward.earned || reward.date_earned);
+
+export const isRewardClaimable = (reward: Reward): boolean =>
+  !!reward.id && isRewardEarned(reward) && !reward.claimed_at;
+
+export function getRewardPayload(reward: Pick<Reward, 'payload' | 'difficulty'>): RewardPayload {
+  return reward.payload || { xp: REWARD_XP.default[reward.difficulty] };
+}
+
+// Whether the daily claim limit leaves room for another claim
+export function hasClaimsLeftToday(rewards: Reward[], now: Date = new Date()): boolean {
+  const claimedToday = rewards.filter(reward =>
+    reward.claimed_at && now.getTime() - new Date(reward.claimed_at).getTime() < DAY_MS
+  ).length;
+  return claimedToday < REWARD_CLAIMS_PER_DAY;
+}
+
+export const formatBoost = (boost: Pick<RewardBoost, 'multiplier' | 'statType'>): string =>
+  `${boost.multiplier}× ${boost.statType ? `${boost.statType} ` : ''}XP`;
+
+// One line per thing the reward grants, e.g. ["+200 XP", "Title: Mountain Titan"]
+export function describeRewardPayload(payload: RewardPayload): string[] {
+  const lines: string[] = [];
+  if (payload.xp) lines.push(`+${payload.xp.toLocaleString()} XP`);
+  (payload.items || []).forEach(entry => {
+    lines.push(`Item: ${getItem(entry.itemId)?.name || entry.itemId}`);
+  });
+  (payload.titles || []).forEach(title => lines.push(`Title: ${title}`));
+  (payload.boosts || []).forEach(boost => lines.push(`${formatBoost(boost)} for ${boost.hours}h`));
+  return lines;
+}
+
+export async function fetchRewards(userId: string) {
+  const { data, error } = await supabase
+    .from('rewards')
+    .select('*')
+    .eq('user_id', userId);
+  return { data: (data as Reward[] | null) || null, error };
+}
+
+// mark_earned_rewards checks every unearned reward's condition against the
+// player's records and returns the rows it marked. Rows another device
+// already marked aren't returned again, so each unlock is reported once.
+export async function markEarnedRewards() {
+  const { data, error } = await supabase.rpc('mark_earned_rewards', { p_time_zone: getDeviceTimeZone() });
+  return { data: (data as Reward[] | null) || [], error };
+}
+
+export async function claimReward(rewardId: string) {
+  const { data, error } = await supabase.rpc('claim_reward', { p_reward_id: rewardId });
+  return { data: (data as RewardClaimResult | null) || null, error };
+}
+
+// Message for the claim alert
+export function formatClaimResult(result: RewardClaimResult): string {
+  if (result.already_claimed) {
+    return 'This reward was already claimed.';
+  }
+
+  const lines: string[] = [];
+  if (result.xp) lines.push(`+${result.xp.toLocaleString()} XP`);
+  (result.items || []).forEach(itemId => lines.push(`New item: ${getItem(itemId)?.name || itemId}`));
+  (result.titles || []).forEach(title => lines.push(`New title: ${title}`));
+  (result.boosts || []).forEach(boost => {
+    const statType = isStatType(boost.statType) ? boost.statType : undefined;
+    const until = new Date(boost.expiresAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+    lines.push(`${formatBoost({ multiplier: Number(boost.multiplier), statType })} until ${until}`);
+  });
+
+  const award = result.award;
+  if (award && award.character.level > award.previous.level) {
+    lines.push(`Level up! You are now level ${award.character.level}.`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'Reward claimed.';
+}
+
+export async function fetchActiveBoosts(userId: string, now: Date = new Date()) {
+  const { data, error } = await supabase
+    .from('character_boosts')
+    .select('*')
+    .eq('user_id', userId)
+    .gt('expires_at', now.toISOString())
+    .order('expires_at', { ascending: true });
+  return { data: (data as CharacterBoost[] | null) || null, error };
+}
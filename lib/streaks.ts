@@ -0,0 +1,159 @@
+import { supabase } from '../app/supabase';
+import { StatType } from '../types/workoutTypes';
+import { STAT_TYPES } from './progression';
+
+// Day keys are YYYY-MM-DD strings in the user's own timezone, so a workout at
+// 23:30 local time counts for that day no matter what UTC says.
+
+export interface StreakInfo {
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  // Yesterday's key when it is the only gap in an otherwise live streak
+  freezeCandidate: string | null;
+}
+
+export interface StreakSummary {
+  overall: StreakInfo;
+  byStat: Record<StatType, StreakInfo>;
+  multiplier: number;
+  freezesAvailable: number;
+}
+
+interface StreakActivity {
+  created_at: string;
+  stat_type: StatType;
+}
+
+// Consecutive days needed for each XP multiplier; the last matching tier wins
+export const STREAK_MULTIPLIER_TIERS = [
+  { days: 3, multiplier: 1.05 },
+  { days: 7, multiplier: 1.1 },
+  { days: 14, multiplier: 1.15 },
+  { days: 30, multiplier: 1.25 },
+];
+
+// How far back activity is loaded when computing streaks
+const STREAK_LOOKBACK_DAYS = 400;
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function getDayKey(date: Date, timeZone: string = getDeviceTimeZone()): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+export function shiftDayKey(dayKey: string, days: number): string {
+  const date = new Date(`${dayKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Frozen days keep a streak alive without adding to its length
+export function calculateStreak(activeDays: Set<string>, frozenDays: Set<string>, todayKey: string): StreakInfo {
+  const isCovered = (day: string) => activeDays.has(day) || frozenDays.has(day);
+  const activeToday = activeDays.has(todayKey);
+
+  // Today's streak is still alive until midnight even if nothing is logged yet
+  const countFrom = (startDay: string) => {
+    let count = 0;
+    let day = startDay;
+    while (isCovered(day)) {
+      if (activeDays.has(day)) count++;
+      day = shiftDayKey(day, -1);
+    }
+    return count;
+  };
+
+  const yesterday = shiftDayKey(todayKey, -1);
+  const current = activeToday ? countFrom(todayKey) : countFrom(yesterday);
+  const freezeCandidate = !isCovered(yesterday) && countFrom(shiftDayKey(todayKey, -2)) > 0
+    ? yesterday
+    : null;
+
+  let longest = 0;
+  let run = 0;
+  const sortedDays = Array.from(new Set([...activeDays, ...frozenDays])).sort();
+  sortedDays.forEach((day, index) => {
+    const continues = index > 0 && shiftDayKey(sortedDays[index - 1], 1) === day;
+    run = (continues ? run : 0) + (activeDays.has(day) ? 1 : 0);
+    longest = Math.max(longest, run);
+  });
+
+  return { current, longest, activeToday, freezeCandidate };
+}
+
+export function getStreakMultiplier(streakDays: number): number {
+  return STREAK_MULTIPLIER_TIERS.reduce((multiplier, tier) => (streakDays >= tier.days ? tier.multiplier : multiplier), 1);
+}
+
+export function summarizeStreaks(
+  activity: StreakActivity[],
+  frozenDays: string[],
+  freezesAvailable: number,
+  now: Date = new Date(),
+  timeZone: string = getDeviceTimeZone()
+): StreakSummary {
+  const todayKey = getDayKey(now, timeZone);
+  const frozen = new Set(frozenDays);
+  const allDays = new Set(activity.map(a => getDayKey(new Date(a.created_at), timeZone)));
+
+  const byStat = {} as Record<StatType, StreakInfo>;
+  STAT_TYPES.forEach(stat => {
+    const statDays = new Set(
+      activity.filter(a => a.stat_type === stat).map(a => getDayKey(new Date(a.created_at), timeZone))
+    );
+    byStat[stat] = calculateStreak(statDays, frozen, todayKey);
+  });
+
+  const overall = calculateStreak(allDays, frozen, todayKey);
+
+  return {
+    overall,
+    byStat,
+    multiplier: getStreakMultiplier(overall.current),
+    freezesAvailable,
+  };
+}
+
+export async function fetchStreakSummary(userId: string): Promise<StreakSummary | null> {
+  const since = new Date(Date.now() - STREAK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const [activityResult, freezesResult, characterResult] = await Promise.all([
+    supabase
+      .from('xp_awards')
+      .select('created_at, stat_type')
+      .eq('user_id', userId)
+      // Only logged workouts make a training day; rewards, events and
+      // storylines pay XP without any training
+      .eq('source', 'workout')
+      .gte('created_at', since.toISOString()),
+    supabase
+      .from('streak_freezes')
+      .select('day')
+      .eq('user_id', userId),
+    supabase
+      .from('characters')
+      .select('streak_freezes')
+      .eq('user_id', userId)
+      .single(),
+  ]);
+
+  if (activityResult.error || freezesResult.error) {
+    console.error("Error fetching streak data:", activityResult.error || freezesResult.error);
+    return null;
+  }
+
+  return summarizeStreaks(
+    activityResult.data || [],
+    (freezesResult.data || []).map(f => f.day),
+    characterResult.data?.streak_freezes || 0
+  );
+}
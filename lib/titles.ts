@@ -0,0 +1,57 @@
+import { supabase } from '../app/supabase';
+import { EVENT_TITLES, getTitleInfo, TITLES } from '../constants/titles';
+import { CharacterTitle, TitleInfo, TitleSource } from '../types/titleTypes';
+
+// Titles come from a fixed catalogue (constants/titles.ts) and are unlocked
+// server-side (level-ups, reward claims, guild event payouts) into
+// character_titles; the player picks one to wear as characters.active_title,
+// which the database checks against the catalogue and that table.
+
+const SOURCE_ICONS: Record<TitleSource, string> = {
+  level: 'star-circle',
+  reward: 'trophy-award',
+  event: 'flag-variant',
+};
+
+const SOURCE_LABELS: Record<TitleSource, string> = {
+  level: 'Level title',
+  reward: 'Achievement reward',
+  event: 'Guild event',
+};
+
+export const getTitleIcon = (title: Pick<CharacterTitle, 'title' | 'source'>): string =>
+  getTitleInfo(title.title)?.icon || SOURCE_ICONS[title.source] || 'tag';
+
+export const describeTitleSource = (title: Pick<CharacterTitle, 'title' | 'source'>): string =>
+  getTitleInfo(title.title)?.description || SOURCE_LABELS[title.source] || 'Title';
+
+// Catalogue titles the player hasn't unlocked yet, lowest level first
+export function getLockedTitles(unlocked: CharacterTitle[]): TitleInfo[] {
+  const names = new Set(unlocked.map(title => title.title));
+  return TITLES.filter(title => !names.has(title.name)).sort((a, b) => a.level - b.level);
+}
+
+// Mirrors event_reward_title: "Dawn Warrior title + 150 XP" -> "Dawn Warrior".
+// Only event titles from the catalogue count, spelled as they are there.
+export function parseEventTitle(rewardDescription: string | null | undefined): string | null {
+  const match = (rewardDescription || '').match(/^\s*([^+,&]{1,40}?)\s+title\b/i);
+  const name = match?.[1].trim().toLowerCase();
+  return EVENT_TITLES.find(title => title.name.toLowerCase() === name)?.name || null;
+}
+
+export async function fetchUnlockedTitles(userId: string) {
+  const { data, error } = await supabase
+    .from('character_titles')
+    .select('*')
+    .eq('user_id', userId)
+    .order('unlocked_at', { ascending: true });
+  return { data: (data as CharacterTitle[] | null) || null, error };
+}
+
+// Null takes the title off
+export async function setActiveTitle(userId: string, title: string | null) {
+  return supabase
+    .from('characters')
+    .update({ active_title: title })
+    .eq('user_id', userId);
+}
@@ -0,0 +1,27 @@
+import { WorkoutEntry } from '../types/workoutTypes';
+
+// XP and stat gains for a logged workout are worked out by the database
+// (workout_rewards) when the entry is saved.
+
+// Returns an error message for the log form, or null when the entry is usable
+export function validateWorkoutEntry(entry: WorkoutEntry): string | null {
+  if (!entry.exercise.trim()) {
+    return 'Please enter the exercise you did';
+  }
+
+  const numbers = [entry.sets, entry.reps, entry.weight_kg, entry.duration_minutes, entry.distance_km, entry.elevation_ft];
+  if (numbers.some(n => n != null && (isNaN(n) || n < 0))) {
+    return 'Workout values must be positive numbers';
+  }
+
+  if (entry.perceived_effort < 1 || entry.perceived_effort > 10) {
+    return 'Perceived effort must be between 1 and 10';
+  }
+
+  const hasVolume = !!entry.sets && !!entry.reps;
+  if (!hasVolume && !entry.duration_minutes && !entry.distance_km && !entry.elevation_ft) {
+    return 'Log at least sets and reps, a duration, a distance or an elevation gain';
+  }
+
+  return null;
+}
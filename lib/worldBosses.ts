@@ -0,0 +1,108 @@
+import { supabase } from '../app/supabase';
+import { BossContribution, BossContributor, BossStrikeResult, WorldBoss } from '../types/worldBossTypes';
+
+// World bosses share one HP pool across every player. Logged workouts deal
+// their base XP as damage through strike_world_boss, which also hands out the
+// loot when the boss falls; screens follow HP live over Supabase realtime.
+
+export const TOP_CONTRIBUTOR_LIMIT = 10;
+
+export function getBossHpPercent(boss: Pick<WorldBoss, 'hp' | 'max_hp'>): number {
+  if (boss.max_hp <= 0) return 0;
+  return Math.max(0, Math.min(100, (boss.hp / boss.max_hp) * 100));
+}
+
+export function getBossTimeRemaining(boss: Pick<WorldBoss, 'ends_at'>, now: Date = new Date()): number {
+  return Math.max(0, new Date(boss.ends_at).getTime() - now.getTime());
+}
+
+// The boss currently roaming; the RPC spawns the next one in the rotation
+// when the last was defeated or escaped
+export async function fetchActiveWorldBoss() {
+  const { data, error } = await supabase.rpc('ensure_world_boss');
+  return { data: (data as WorldBoss | null) || null, error };
+}
+
+// Deals damage for every workout the player logged since the boss appeared
+// and hasn't counted yet, so a failed call is simply caught up on the next one
+export async function strikeWorldBoss() {
+  const { data, error } = await supabase.rpc('strike_world_boss');
+  return { data: (data as BossStrikeResult | null) || null, error };
+}
+
+export async function fetchTopContributors(bossId: string, limit: number = TOP_CONTRIBUTOR_LIMIT) {
+  const { data: contributions, error } = await supabase
+    .from('boss_contributions')
+    .select('*')
+    .eq('boss_id', bossId)
+    .order('damage', { ascending: false })
+    .limit(limit);
+
+  if (error || !contributions) {
+    return { data: null, error };
+  }
+
+  const { data: characters, error: charactersError } = await supabase
+    .from('characters')
+    .select('user_id, name')
+    .in('user_id', contributions.map(c => c.user_id));
+
+  if (charactersError) {
+    console.error('Error fetching contributor names:', charactersError);
+  }
+
+  const contributors: BossContributor[] = (contributions as BossContribution[]).map(contribution => ({
+    ...contribution,
+    name: characters?.find(c => c.user_id === contribution.user_id)?.name || 'Unknown hero',
+  }));
+
+  return { data: contributors, error: null };
+}
+
+export async function fetchMyContribution(bossId: string, userId: string) {
+  return supabase
+    .from('boss_contributions')
+    .select('*')
+    .eq('boss_id', bossId)
+    .eq('user_id', userId)
+    .maybeSingle();
+}
+
+// Calls back with every HP change and whenever someone lands a hit.
+// Returns the cleanup for a useEffect.
+export function subscribeToWorldBoss(
+  bossId: string,
+  onBossChange: (boss: WorldBoss) => void,
+  onContribution: (contribution: BossContribution) => void
+): () => void {
+  const channel = supabase
+    .channel(`world_boss_${bossId}`)
+    .on('postgres_changes', {
+      event: 'UPDATE',
+      schema: 'public',
+      table: 'world_bosses',
+      filter: `id=eq.${bossId}`,
+    }, payload => onBossChange(payload.new as WorldBoss))
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'boss_contributions',
+      filter: `boss_id=eq.${bossId}`,
+    }, payload => {
+      if (payload.new && 'user_id' in payload.new) {
+        onContribution(payload.new as BossContribution);
+      }
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Line for the workout-logged alert, empty when nothing was hit
+export function formatBossStrike(strike: BossStrikeResult | null): string {
+  if (!strike || !strike.boss || strike.damage <= 0) return '';
+  const hit = `⚔️ You hit ${strike.boss.name} for ${strike.damage.toLocaleString()} damage!`;
+  return strike.defeated ? `${hit} It falls, and its loot is yours.` : hit;
+}
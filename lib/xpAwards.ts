@@ -0,0 +1,101 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../app/supabase';
+import { Character } from '../types/characterTypes';
+import {
+  calculateProgression,
+  getLevelProgress,
+  getStatPointsForLevel,
+  ProgressionResult,
+  STAT_TYPES,
+  XpAward
+} from './progression';
+import { getDeviceTimeZone } from './streaks';
+
+export interface XpAwardRequest extends XpAward {
+  // Row the award is for: the workout, quest or guild event id
+  sourceId: string;
+}
+
+export interface XpAwardOutcome {
+  character: Character;
+  result: ProgressionResult;
+}
+
+export type XpAwardListener = (outcome: XpAwardOutcome, award: XpAwardRequest) => void;
+
+const listeners = new Set<XpAwardListener>();
+
+// Called after every award that was persisted, whichever screen made it, so
+// app-wide features such as reward checks can follow along. Returns the
+// unsubscribe for a useEffect.
+export function onXpAwarded(listener: XpAwardListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Applies an award through the award_xp RPC. The database works out the XP
+// from the source row with the same streak, legacy and class bonuses as
+// calculateProgression, increments atomically and decides level-ups from the
+// row it locked, so the returned result always describes what was actually
+// persisted. The local calculation only fills in the bonus details.
+export async function awardXp(
+  character: Character,
+  award: XpAwardRequest
+): Promise<{ data: XpAwardOutcome | null; error: PostgrestError | null }> {
+  const proposed = calculateProgression(character, award);
+
+  const { data, error } = await supabase.rpc('award_xp', {
+    p_source: award.source,
+    p_source_id: award.sourceId,
+    p_stat_type: award.statType,
+    p_stat_gain: award.statGain || 0,
+    p_time_zone: getDeviceTimeZone(),
+  });
+
+  if (error || !data) {
+    return { data: null, error };
+  }
+
+  const previous = data.previous as Character;
+  const updated = data.character as Character;
+  const outcome = { character: updated, result: summarizeAward(previous, updated, proposed) };
+
+  listeners.forEach(listener => {
+    try {
+      listener(outcome, award);
+    } catch (listenerError) {
+      console.error('XP award listener failed:', listenerError);
+    }
+  });
+
+  return { data: outcome, error: null };
+}
+
+function summarizeAward(previous: Character, updated: Character, proposed: ProgressionResult): ProgressionResult {
+  const statChanges: ProgressionResult['statChanges'] = {};
+  STAT_TYPES.forEach(stat => {
+    const change = updated[stat] - previous[stat];
+    if (change !== 0) {
+      statChanges[stat] = change;
+    }
+  });
+
+  const levelUps = [];
+  for (let level = previous.level + 1; level <= updated.level; level++) {
+    levelUps.push({ level, statPoints: getStatPointsForLevel(level) });
+  }
+
+  return {
+    ...proposed,
+    xpDelta: updated.xp - previous.xp,
+    previousXp: previous.xp,
+    newXp: updated.xp,
+    previousLevel: previous.level,
+    newLevel: updated.level,
+    levelUps,
+    statChanges,
+    xpToNextLevel: getLevelProgress(updated.xp).xpToNextLevel,
+  };
+}
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../app/AuthProvider';
+import { supabase } from '../app/supabase';
+import { RootStackParamList } from '../types/navigation';
+import { AvatarConfig } from '../types/avatarTypes';
+import Avatar from '../components/Avatar';
+import { normalizeAvatar, fetchAvatarProfiles } from '../lib/avatar';
+import {
+  BODY_TYPES,
+  DEFAULT_AVATAR,
+  EYE_COLORS,
+  HAIR_COLORS,
+  HAIR_STYLES,
+  OUTFIT_COLORS,
+  SKIN_TONES
+} from '../constants/avatar';
+
+type AvatarEditorNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AvatarEditor'>;
+
+export default function AvatarEditorScreen() {
+  const navigation = useNavigation<AvatarEditorNavigationProp>();
+  const { user } = useAuth();
+  const [avatar, setAvatar] = useState<AvatarConfig>(DEFAULT_AVATAR);
+  const [characterClass, setCharacterClass] = useState<string | undefined>();
+  const [equippedItemIds, setEquippedItemIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchAvatar = async () => {
+      if (!user) return;
+
+      try {
+        const profiles = await fetchAvatarProfiles([user.id]);
+        const profile = profiles[user.id];
+        if (profile) {
+          setAvatar(normalizeAvatar(profile.avatar));
+          setCharacterClass(profile.characterClass);
+          setEquippedItemIds(profile.equippedItemIds);
+        }
+      } catch (error) {
+        console.error("Error in fetchAvatar:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAvatar();
+  }, [user]);
+
+  const updateAvatar = <K extends keyof AvatarConfig>(field: K, value: AvatarConfig[K]) => {
+    setAvatar(prev => ({ ...prev, [field]: value }));
+  };
+
+  const saveAvatar = async () => {
+    if (!user) return;
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('characters')
+        .update({ avatar })
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error("Error saving avatar:", error);
+        Alert.alert("Error", "Failed to save your avatar. Please try again.");
+        return;
+      }
+
+      navigation.goBack();
+    } catch (error) {
+      console.error("Error in saveAvatar:", error);
+      Alert.alert("Error", "Something went wrong. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderOptionRow = <K extends keyof AvatarConfig>(
+    label: string,
+    field: K,
+    options: Array<{ value: AvatarConfig[K]; label: string }>
+  ) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionLabel}>{label}</Text>
+      <View style={styles.optionRow}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.optionChip, avatar[field] === option.value && styles.optionChipSelected]}
+            onPress={() => updateAvatar(field, option.value)}
+          >
+            <Text style={[styles.optionText, avatar[field] === option.value && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderColorRow = (label: string, field: 'skinTone' | 'hairColor' | 'eyeColor' | 'outfitColor', colors: string[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionLabel}>{label}</Text>
+      <View style={styles.optionRow}>
+        {colors.map(color => (
+          <TouchableOpacity
+            key={color}
+            style={[styles.swatch, { backgroundColor: color }, avatar[field] === color && styles.swatchSelected]}
+            onPress={() => updateAvatar(field, color)}
+          />
+        ))}
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ffd700" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Customize Avatar</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        <View style={styles.preview}>
+          <Avatar avatar={avatar} characterClass={characterClass} equippedItemIds={equippedItemIds} size={160} />
+          <Text style={styles.previewHint}>Your class outfit and equipped gear are added automatically</Text>
+        </View>
+
+        {renderOptionRow('Body', 'bodyType', BODY_TYPES)}
+        {renderColorRow('Skin Tone', 'skinTone', SKIN_TONES)}
+        {renderOptionRow('Hair Style', 'hairStyle', HAIR_STYLES)}
+        {renderColorRow('Hair Color', 'hairColor', HAIR_COLORS)}
+        {renderColorRow('Eye Color', 'eyeColor', EYE_COLORS)}
+        {renderColorRow('Outfit Color', 'outfitColor', OUTFIT_COLORS)}
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.buttonDisabled]}
+          onPress={saveAvatar}
+          disabled={saving}
+        >
+          <Text style={styles.saveButtonText}>{saving ? "Saving..." : "Save Avatar"}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1e1e2e',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    color: '#ffd700',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  scroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  preview: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  previewHint: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  section: {
+    marginBottom: 18,
+  },
+  sectionLabel: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#2a2a40',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipSelected: {
+    backgroundColor: '#ffd700',
+  },
+  optionText: {
+    color: '#ddd',
+    fontWeight: 'bold',
+  },
+  optionTextSelected: {
+    color: '#1e1e2e',
+  },
+  swatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: '#ffd700',
+  },
+  saveButton: {
+    backgroundColor: '#ffd700',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  saveButtonText: {
+    color: '#1e1e2e',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
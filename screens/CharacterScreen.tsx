@@ -10,11 +10,33 @@ import {
   ScrollView
 } from 'react-native';
 import { useAuth } from '../app/AuthProvider';
+import { useCharacterClasses } from '../app/ClassesProvider';
 import { supabase } from '../app/supabase';
 import { useNavigation } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { RootStackParamList } from '../types/navigation';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { StatType, WorkoutEntry } from '../types/workoutTypes';
+import { validateWorkoutEntry } from '../lib/workouts';
+import { formatClassBonus, formatLevelUps, formatNextLevel, formatStatChanges, getLevelProgress } from '../lib/progression';
+import { CLASS_RESPEC_COOLDOWN_DAYS } from '../constants/classes';
+import { getCharacterClass } from '../lib/classes';
+import { awardXp } from '../lib/xpAwards';
+import { formatBossStrike, strikeWorldBoss } from '../lib/worldBosses';
+import { fetchStreakSummary, StreakSummary } from '../lib/streaks';
+import { equipItem, fetchInventory, getEquippedModifiers, unequipItem, unlockEarnedGear } from '../lib/gear';
+import { describeMilestone } from '../lib/milestones';
+import { describeLegacyBonus, fetchLegacyTraits, getLegacyStatBonuses, getLegacyXpMultiplier, unlockLegacyTraits } from '../lib/legacy';
+import { LEGACY_TRAITS } from '../constants/legacyTraits';
+import { EarnedLegacyTrait, LegacyTrait } from '../types/legacyTypes';
+import { EQUIP_SLOTS, getItem, ITEMS, RARITY_COLORS } from '../constants/items';
+import { InventoryItem, Item } from '../types/gearTypes';
+import { describeTitleSource, fetchUnlockedTitles, getLockedTitles, getTitleIcon, setActiveTitle } from '../lib/titles';
+import { TITLES } from '../constants/titles';
+import { CharacterTitle } from '../types/titleTypes';
+import HistoryScreen from './HistoryScreen';
+import Avatar from '../components/Avatar';
+import { AvatarConfig } from '../types/avatarTypes';
 // import { LinearGradient } from 'expo-linear-gradient';
 
 // Define CharacterScreenNavigationProp here, removed duplicate import
@@ -31,25 +53,85 @@ interface Character {
   speed: number;
   magic: number;
   willpower: number;
+  body_weight_kg?: number | null;
+  avatar?: AvatarConfig | null;
+  class_changed_at?: string | null;
+  goals?: string | null;
+  active_title?: string | null;
 }
 
-const CHARACTER_CLASSES = [
-  { name: 'Warrior', icon: 'sword', color: '#e63946', statBonus: 'strength' },
-  { name: 'Rogue', icon: 'run-fast', color: '#f4a261', statBonus: 'speed' },
-  { name: 'Mage', icon: 'magic-staff', color: '#6a4c93', statBonus: 'magic' },
-  { name: 'Monk', icon: 'meditation', color: '#2a9d8f', statBonus: 'willpower' },
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+const WORKOUT_TYPES: Array<{ type: StatType; label: string; icon: IconName; color: string }> = [
+  { type: 'strength', label: 'Strength Training', icon: 'arm-flex', color: '#e63946' },
+  { type: 'speed', label: 'Cardio / HIIT', icon: 'run-fast', color: '#f4a261' },
+  { type: 'magic', label: 'Yoga / Flexibility', icon: 'magic-staff', color: '#6a4c93' },
+  { type: 'willpower', label: 'Streak / Consistency', icon: 'meditation', color: '#2a9d8f' },
+];
+
+const CHARACTER_TABS: Array<{ key: 'character' | 'history'; label: string; icon: IconName }> = [
+  { key: 'character', label: 'Character', icon: 'account' },
+  { key: 'history', label: 'History', icon: 'history' },
 ];
 
+const EFFORT_LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+interface WorkoutForm {
+  exercise: string;
+  sets: string;
+  reps: string;
+  weight: string;
+  duration: string;
+  distance: string;
+  elevation: string;
+  effort: number;
+}
+
+const EMPTY_WORKOUT_FORM: WorkoutForm = {
+  exercise: '',
+  sets: '',
+  reps: '',
+  weight: '',
+  duration: '',
+  distance: '',
+  elevation: '',
+  effort: 5,
+};
+
+// Mirrors the length check on characters.goals
+const MAX_GOALS_LENGTH = 200;
+
+const parseOptionalNumber = (value: string): number | null =>
+  value.trim() ? Number(value.replace(',', '.')) : null;
+
 export default function CharacterScreen() {
   const navigation = useNavigation<CharacterScreenNavigationProp>();
   const { user, loading: authLoading } = useAuth();
+  const { classes, loading: classesLoading } = useCharacterClasses();
   const [name, setName] = useState('');
   const [character, setCharacter] = useState<Character | null>(null);
   const [loading, setLoading] = useState(false);
   const [initialLoad, setInitialLoad] = useState(true);
-  const [selectedClass, setSelectedClass] = useState(0);
+  const [selectedClass, setSelectedClass] = useState('');
+  const [showRespec, setShowRespec] = useState(false);
   const [recentWorkout, setRecentWorkout] = useState<string | null>(null);
+  const [workoutType, setWorkoutType] = useState<StatType | null>(null);
+  const [workoutForm, setWorkoutForm] = useState<WorkoutForm>(EMPTY_WORKOUT_FORM);
+  const [activeTab, setActiveTab] = useState<'character' | 'history'>('character');
+  const [streaks, setStreaks] = useState<StreakSummary | null>(null);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [bodyWeight, setBodyWeight] = useState('');
+  const [goals, setGoals] = useState('');
+  const [legacyTraits, setLegacyTraits] = useState<EarnedLegacyTrait[]>([]);
+  const [titles, setTitles] = useState<CharacterTitle[]>([]);
   
+  // Creation starts on the first class once the list has loaded
+  useEffect(() => {
+    if (!selectedClass && classes.length > 0) {
+      setSelectedClass(classes[0].name);
+    }
+  }, [classes, selectedClass]);
+
   useEffect(() => {
     if (!authLoading && !user) {
       Alert.alert('Not Authenticated', 'Please sign in to continue');
@@ -75,13 +157,30 @@ export default function CharacterScreen() {
         if (data) {
           setCharacter(data as Character);
           console.log("Retrieved character:", data);
-          
-          // Find class based on highest stat
-          const stats = ['strength', 'speed', 'magic', 'willpower'];
-          const highestStat = stats.reduce((prev, curr) => 
-            (data[curr] > data[prev] ? curr : prev), stats[0]);
-          const classIndex = stats.findIndex(s => s === highestStat);
-          setSelectedClass(classIndex >= 0 ? classIndex : 0);
+          setStreaks(await fetchStreakSummary(user.id));
+          setBodyWeight(data.body_weight_kg ? String(data.body_weight_kg) : '');
+          setGoals(data.goals || '');
+
+          const { data: items, error: inventoryError } = await fetchInventory(user.id);
+          if (inventoryError) {
+            console.error("Error fetching inventory:", inventoryError);
+          } else {
+            setInventory(items || []);
+          }
+
+          const { data: traits, error: traitsError } = await fetchLegacyTraits(user.id);
+          if (traitsError) {
+            console.error("Error fetching legacy traits:", traitsError);
+          } else {
+            setLegacyTraits(traits || []);
+          }
+
+          const { data: unlockedTitles, error: titlesError } = await fetchUnlockedTitles(user.id);
+          if (titlesError) {
+            console.error("Error fetching titles:", titlesError);
+          } else {
+            setTitles(unlockedTitles || []);
+          }
         }
       } catch (error) {
         console.error("Error in fetchCharacter:", error);
@@ -95,6 +194,25 @@ export default function CharacterScreen() {
     }
   }, [user]);
 
+  // Pick up avatar changes made in the editor when returning to this tab
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('focus', async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from('characters')
+        .select('avatar')
+        .eq('user_id', user.id)
+        .single();
+
+      if (!error && data) {
+        setCharacter(prev => (prev ? { ...prev, avatar: data.avatar } : prev));
+      }
+    });
+
+    return unsubscribe;
+  }, [navigation, user]);
+
   const createCharacter = async () => {
     if (!name.trim()) {
       Alert.alert("Error", "Please enter a character name");
@@ -109,18 +227,19 @@ export default function CharacterScreen() {
     setLoading(true);
 
     try {
-      // Give a bonus to the selected class's primary stat
+      // Start with the selected class's stat bonuses
+      const startingStats = getCharacterClass(selectedClass)?.startingStats || {};
       const characterStats = {
-        strength: selectedClass === 0 ? 2 : 0,
-        speed: selectedClass === 1 ? 2 : 0,
-        magic: selectedClass === 2 ? 2 : 0,
-        willpower: selectedClass === 3 ? 2 : 0,
+        strength: startingStats.strength || 0,
+        speed: startingStats.speed || 0,
+        magic: startingStats.magic || 0,
+        willpower: startingStats.willpower || 0,
       };
       
       const characterData: Character = {
         user_id: user.id,
         name,
-        class: CHARACTER_CLASSES[selectedClass].name,
+        class: selectedClass,
         level: 1,
         xp: 0,
         ...characterStats
@@ -139,7 +258,7 @@ export default function CharacterScreen() {
 
       console.log("Character created successfully:", data);
       setCharacter(data[0]);
-      Alert.alert("Success", `${name} the ${CHARACTER_CLASSES[selectedClass].name} is ready for adventure!`);
+      Alert.alert("Success", `${name} the ${selectedClass} is ready for adventure!`);
     } catch (error) {
       console.error("Error in createCharacter:", error);
       Alert.alert("Error", "Something went wrong. Please try again.");
@@ -148,81 +267,268 @@ export default function CharacterScreen() {
     }
   };
 
-  const logWorkout = async (type: 'strength' | 'speed' | 'magic' | 'willpower') => {
-    if (!character || !user) return;
+  const respecClass = (className: string) => {
+    if (!character) return;
+
+    Alert.alert(
+      "Change Class?",
+      `Become a ${className}? Your stats stay the same, but you won't be able to change class again for ${CLASS_RESPEC_COOLDOWN_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Respec",
+          onPress: async () => {
+            const { data, error } = await supabase.rpc('respec_class', { p_class: className });
+
+            if (error || !data) {
+              console.error("Error changing class:", error);
+              Alert.alert("Error", "Could not change your class. Please try again.");
+              return;
+            }
+
+            setCharacter({ ...character, class: data.class, class_changed_at: data.class_changed_at });
+            setShowRespec(false);
+            Alert.alert("Class Changed", `${character.name} is now a ${className}!`);
+          },
+        },
+      ]
+    );
+  };
+
+  const useStreakFreeze = async () => {
+    if (!user || !streaks?.overall.freezeCandidate) return;
+
+    const { error } = await supabase.rpc('use_streak_freeze', { p_day: streaks.overall.freezeCandidate });
+
+    if (error) {
+      console.error("Error using streak freeze:", error);
+      Alert.alert("Error", "Could not freeze your streak. Please try again.");
+      return;
+    }
+
+    setStreaks(await fetchStreakSummary(user.id));
+    Alert.alert("Streak Frozen ❄️", "Yesterday is covered - your streak lives on!");
+  };
+
+  // Stores any gear and legacy traits the workout history now qualifies for
+  const checkMilestones = async (): Promise<{ items: Item[]; traits: LegacyTrait[] }> => {
+    if (!user) return { items: [], traits: [] };
+
+    const [gearResult, legacyResult] = await Promise.all([
+      unlockEarnedGear(),
+      unlockLegacyTraits(),
+    ]);
+
+    if (gearResult.error) console.error("Error unlocking gear:", gearResult.error);
+    if (legacyResult.error) console.error("Error awarding legacy traits:", legacyResult.error);
+
+    if (gearResult.data.length > 0) {
+      const { data: items } = await fetchInventory(user.id);
+      setInventory(items || []);
+    }
+    if (legacyResult.data.length > 0) {
+      const { data: traits } = await fetchLegacyTraits(user.id);
+      setLegacyTraits(traits || []);
+    }
+    return { items: gearResult.data, traits: legacyResult.data };
+  };
+
+  // Passing the worn title takes it off
+  const toggleTitle = async (title: string) => {
+    if (!user || !character) return;
+
+    const next = character.active_title === title ? null : title;
+    const { error } = await setActiveTitle(user.id, next);
+
+    if (error) {
+      console.error("Error setting title:", error);
+      Alert.alert("Error", "Could not change your title. Please try again.");
+      return;
+    }
+
+    setCharacter({ ...character, active_title: next });
+  };
+
+  const saveGoals = async () => {
+    if (!user || !character) return;
+
+    const trimmed = goals.trim();
+    if (trimmed.length > MAX_GOALS_LENGTH) {
+      Alert.alert("Too Long", `Please keep your goals under ${MAX_GOALS_LENGTH} characters.`);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('characters')
+      .update({ goals: trimmed || null })
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error("Error saving goals:", error);
+      Alert.alert("Error", "Could not save your goals. Please try again.");
+      return;
+    }
 
+    setCharacter({ ...character, goals: trimmed || null });
+    Alert.alert("Goals Saved", "The Dungeon Master will shape your next quests around them.");
+  };
+
+  const saveBodyWeight = async () => {
+    if (!user || !character) return;
+
+    const weight = parseOptionalNumber(bodyWeight);
+    if (weight !== null && (!Number.isFinite(weight) || weight < 20 || weight > 400)) {
+      Alert.alert("Invalid Weight", "Please enter a bodyweight between 20 and 400 kg.");
+      return;
+    }
+
+    const { error } = await supabase
+      .from('characters')
+      .update({ body_weight_kg: weight })
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error("Error saving body weight:", error);
+      Alert.alert("Error", "Could not save your bodyweight. Please try again.");
+      return;
+    }
+
+    setCharacter({ ...character, body_weight_kg: weight });
+
+    // Relative lift milestones may now be reachable from past workouts
+    const unlocked = await checkMilestones();
+    const unlockedText = formatMilestoneRewards(unlocked.items, unlocked.traits);
+    if (unlockedText) {
+      Alert.alert("New Rewards!", unlockedText);
+    }
+  };
+
+  const toggleEquipped = async (entry: InventoryItem) => {
+    if (!user) return;
+
+    const { error } = entry.equipped ? await unequipItem(entry) : await equipItem(user.id, entry);
+
+    if (error) {
+      console.error("Error updating equipment:", error);
+      Alert.alert("Error", "Could not change your equipment. Please try again.");
+      return;
+    }
+
+    setInventory(prev => prev.map(item => {
+      if (item.id === entry.id) return { ...item, equipped: !entry.equipped };
+      if (!entry.equipped && item.slot === entry.slot) return { ...item, equipped: false };
+      return item;
+    }));
+  };
+
+  const updateWorkoutForm = (field: keyof WorkoutForm, value: string | number) => {
+    setWorkoutForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const logWorkout = async () => {
+    if (!character || !user || !workoutType) return;
+
+    const entry: WorkoutEntry = {
+      exercise: workoutForm.exercise.trim(),
+      stat_type: workoutType,
+      sets: parseOptionalNumber(workoutForm.sets),
+      reps: parseOptionalNumber(workoutForm.reps),
+      weight_kg: parseOptionalNumber(workoutForm.weight),
+      duration_minutes: parseOptionalNumber(workoutForm.duration),
+      distance_km: parseOptionalNumber(workoutForm.distance),
+      elevation_ft: parseOptionalNumber(workoutForm.elevation),
+      perceived_effort: workoutForm.effort,
+    };
+
+    const validationError = validateWorkoutEntry(entry);
+    if (validationError) {
+      Alert.alert("Incomplete Workout", validationError);
+      return;
+    }
+
+    const type = workoutType;
     setLoading(true);
     setRecentWorkout(type);
 
     try {
-      // Calculate XP gain - bonus for matching class specialty
-      const characterClass = character.class || CHARACTER_CLASSES[selectedClass].name;
-      const isClassSpecialty = CHARACTER_CLASSES.find(c => c.name === characterClass)?.statBonus === type;
-      const xpGain = isClassSpecialty ? 120 : 100;
-      
-      const newXP = character.xp + xpGain;
-      const xpForNextLevel = character.level * 1000;
-      const currentLevel = character.level;
-      const newLevel = Math.floor(newXP / 1000) + 1;
-      const didLevelUp = newLevel > currentLevel;
-
-      // Create updates object
-      const updates: Partial<Character> = {
-        xp: newXP,
-        level: newLevel,
-      };
-      
-      // Update the specific stat
-      updates[type] = character[type] + 1;
-
-      console.log("Updating character with:", updates);
-      console.log("Character ID:", character.id);
-
-      // First, try to update using the character ID (preferred)
-      let updateResult;
-      if (character.id) {
-        updateResult = await supabase
-          .from('characters')
-          .update(updates)
-          .eq('id', character.id)
-          .select();
-      } else {
-        // Fallback to updating by user_id if no character id is available
-        updateResult = await supabase
-          .from('characters')
-          .update(updates)
-          .eq('user_id', user.id)
-          .select();
+      // Save the workout entry first so the XP is always backed by a log. The
+      // database works out what it is worth from the logged volume.
+      const { data: workout, error: workoutError } = await supabase
+        .from('workouts')
+        .insert([{
+          ...entry,
+          user_id: user.id,
+          character_id: character.id,
+        }])
+        .select()
+        .single();
+
+      if (workoutError || !workout) {
+        console.error("Error saving workout:", workoutError);
+        Alert.alert("Error", "Failed to log workout. Please try again.");
+        return;
       }
 
-      const { data, error } = updateResult;
+      const { data: award, error: awardError } = await awardXp(
+        character,
+        {
+          source: 'workout',
+          sourceId: workout.id,
+          statType: type,
+          baseXp: workout.xp_earned,
+          statGain: workout.stat_gain,
+          multiplier: streaks?.multiplier,
+          legacyMultiplier: getLegacyXpMultiplier(legacyTraits.map(trait => trait.trait_id), type),
+        }
+      );
 
-      if (error) {
-        console.error("Error updating character:", error);
-        Alert.alert("Error", "Failed to log workout. Please try again.");
+      if (awardError || !award) {
+        console.error("Error awarding workout XP:", awardError);
+        Alert.alert("Error", "Your workout was saved but XP could not be awarded. Please try again.");
         return;
       }
 
-      console.log("Character updated successfully:", data);
-      if (data && data.length > 0) {
-        setCharacter(data[0]);
-      } else {
-        // Fallback to manually updating the local state if no data returned
-        const updatedChar = { ...character, ...updates };
-        setCharacter(updatedChar);
+      console.log("Character updated successfully:", award.character);
+      setCharacter(award.character);
+      setStreaks(await fetchStreakSummary(user.id));
+      const progression = award.result;
+      const unlocked = await checkMilestones();
+
+      // Every workout also strikes the world boss; a miss is caught up on the next strike
+      const { data: strike, error: strikeError } = await strikeWorldBoss();
+      if (strikeError) {
+        console.error("Error striking world boss:", strikeError);
+      }
+      const bossText = formatBossStrike(strike);
+
+      setWorkoutForm(EMPTY_WORKOUT_FORM);
+      setWorkoutType(null);
+
+      const statText = formatStatChanges(progression.statChanges);
+      const streakText = progression.multiplier > 1 ? ` (🔥 x${progression.multiplier} streak bonus)` : '';
+      const unlockedText = formatMilestoneRewards(unlocked.items, unlocked.traits);
+      // Level titles are granted by the database as the level changes
+      const newTitles = TITLES.filter(title =>
+        title.level > progression.previousLevel && title.level <= progression.newLevel
+      );
+      if (newTitles.length > 0) {
+        const { data: unlockedTitles } = await fetchUnlockedTitles(user.id);
+        if (unlockedTitles) setTitles(unlockedTitles);
       }
+      const titleText = newTitles.map(title => `🏷️ New title: ${title.name}`).join('\n');
+      const unlockedRewardsText = `${unlockedText ? `\n\n${unlockedText}` : ''}${bossText ? `\n\n${bossText}` : ''}`;
+      const rewardText = `+${progression.xpDelta} XP${streakText}${statText ? ` and ${statText}` : ''}`;
 
-      if (didLevelUp) {
+      if (progression.levelUps.length > 0) {
         Alert.alert(
           "🎉 Level Up!", 
-          `${character.name} reached level ${newLevel}!\n\n+1 ${type.charAt(0).toUpperCase() + type.slice(1)}`,
+          `${character.name} reached level ${progression.newLevel}!\n\n${formatLevelUps(progression.levelUps)}\n\n${rewardText}${titleText ? `\n\n${titleText}` : ''}${unlockedRewardsText}`,
           [{ text: "Continue the adventure!", style: "default" }]
         );
       } else {
-        const remaining = xpForNextLevel - newXP;
         Alert.alert(
           "Workout Logged", 
-          `+${xpGain} XP and +1 ${type.charAt(0).toUpperCase() + type.slice(1)}!\n\n${remaining} XP until level ${currentLevel + 1}`,
+          `${entry.exercise}: ${rewardText}!\n\n${formatNextLevel(progression)}${unlockedRewardsText}`,
           [{ text: "Keep training!", style: "default" }]
         );
       }
@@ -238,7 +544,7 @@ export default function CharacterScreen() {
   };
 
   // Loading screen
-  if (authLoading || initialLoad) {
+  if (authLoading || initialLoad || (classesLoading && classes.length === 0)) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color="#ffd700" />
@@ -249,6 +555,15 @@ export default function CharacterScreen() {
 
   // Character creation screen
   if (!character) {
+    const creationClass = getCharacterClass(selectedClass) || classes[0];
+    if (!creationClass) {
+      return (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Couldn't load the classes. Check your connection and try again.</Text>
+        </View>
+      );
+    }
+
     return (
         <View style={styles.gradientBackground}>
           <ScrollView contentContainerStyle={styles.scroll}>
@@ -267,23 +582,23 @@ export default function CharacterScreen() {
               <Text style={styles.classTitle}>Choose Your Class</Text>
               
               <View style={styles.classContainer}>
-                {CHARACTER_CLASSES.map((charClass, index) => (
+                {classes.map(charClass => (
                   <TouchableOpacity
                     key={charClass.name}
                     style={[
                       styles.classOption,
-                      selectedClass === index && { borderColor: charClass.color }
+                      selectedClass === charClass.name && { borderColor: charClass.color }
                     ]}
-                    onPress={() => setSelectedClass(index)}
+                    onPress={() => setSelectedClass(charClass.name)}
                   >
                     <MaterialCommunityIcons 
-                      name={charClass.icon} 
+                      name={charClass.icon as IconName} 
                       size={32} 
-                      color={selectedClass === index ? charClass.color : '#aaa'} 
+                      color={selectedClass === charClass.name ? charClass.color : '#aaa'} 
                     />
                     <Text style={[
                       styles.className,
-                      selectedClass === index && { color: charClass.color }
+                      selectedClass === charClass.name && { color: charClass.color }
                     ]}>
                       {charClass.name}
                     </Text>
@@ -293,20 +608,23 @@ export default function CharacterScreen() {
               
               <View style={styles.classDescription}>
                 <Text style={styles.classDescTitle}>
-                  {CHARACTER_CLASSES[selectedClass].name}
+                  {creationClass.name}
                 </Text>
                 <Text style={styles.classDescText}>
-                  {getClassDescription(CHARACTER_CLASSES[selectedClass].name)}
+                  {creationClass.description}
                 </Text>
                 <Text style={styles.bonusText}>
-                  Starting Bonus: +2 {CHARACTER_CLASSES[selectedClass].statBonus}
+                  Starting Bonus: {formatStatChanges(creationClass.startingStats)}
+                </Text>
+                <Text style={styles.bonusText}>
+                  Class Bonus: {formatClassBonus(creationClass)}
                 </Text>
               </View>
               
               <TouchableOpacity
                 style={[
                   styles.createButton,
-                  { backgroundColor: CHARACTER_CLASSES[selectedClass].color },
+                  { backgroundColor: creationClass.color },
                   loading && styles.buttonDisabled
                 ]}
                 onPress={createCharacter}
@@ -323,30 +641,74 @@ export default function CharacterScreen() {
   }
 
   // Calculate XP percentage for the current level
-  const xpForCurrentLevel = (character.level - 1) * 1000;
-  const xpForNextLevel = character.level * 1000;
-  const xpInCurrentLevel = character.xp - xpForCurrentLevel;
-  const xpPercentage = (xpInCurrentLevel / 1000) * 100;
+  const levelProgress = getLevelProgress(character.xp);
+  const characterClass = getCharacterClass(character.class);
+  const respecAvailableAt = character.class_changed_at
+    ? new Date(new Date(character.class_changed_at).getTime() + CLASS_RESPEC_COOLDOWN_DAYS * 24 * 60 * 60 * 1000)
+    : null;
+  const respecDaysLeft = respecAvailableAt
+    ? Math.ceil((respecAvailableAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+    : 0;
+  const gearBonus = getEquippedModifiers(inventory);
+  const earnedTraitIds = legacyTraits.map(trait => trait.trait_id);
+  const legacyBonus = getLegacyStatBonuses(earnedTraitIds);
+  const ownedItemIds = inventory.map(entry => entry.item_id);
+  const lockedItems = ITEMS.filter(item => !ownedItemIds.includes(item.id));
+  const lockedTitles = getLockedTitles(titles);
   
   // Character detail screen
   return (
       <View style={styles.gradientBackground}>
+        <View style={styles.tabBar}>
+          {CHARACTER_TABS.map(tab => (
+            <TouchableOpacity
+              key={tab.key}
+              style={[styles.tab, activeTab === tab.key && styles.tabActive]}
+              onPress={() => setActiveTab(tab.key)}
+            >
+              <MaterialCommunityIcons
+                name={tab.icon}
+                size={18}
+                color={activeTab === tab.key ? '#1e1e2e' : '#ddd'}
+              />
+              <Text style={[styles.tabText, activeTab === tab.key && styles.tabTextActive]}>{tab.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {activeTab === 'history' ? (
+          <HistoryScreen />
+        ) : (
         <ScrollView contentContainerStyle={styles.scroll}>
           {/* Character Card */}
           <View style={styles.characterCard}>
             <View style={styles.characterHeader}>
-              <View>
+              <TouchableOpacity style={styles.avatarButton} onPress={() => navigation.navigate('AvatarEditor')}>
+                <Avatar
+                  avatar={character.avatar}
+                  characterClass={character.class}
+                  equippedItemIds={inventory.filter(entry => entry.equipped).map(entry => entry.item_id)}
+                  size={64}
+                />
+                <View style={styles.avatarEditBadge}>
+                  <MaterialCommunityIcons name="pencil" size={12} color="#1e1e2e" />
+                </View>
+              </TouchableOpacity>
+              <View style={styles.characterIdentity}>
                 <Text style={styles.characterName}>{character.name}</Text>
-                {character.class && (
+                {character.active_title && (
+                  <Text style={styles.activeTitle}>{character.active_title}</Text>
+                )}
+                {characterClass && (
                   <View style={styles.classBar}>
                     <MaterialCommunityIcons 
-                      name={CHARACTER_CLASSES[selectedClass].icon} 
+                      name={characterClass.icon as IconName} 
                       size={18} 
-                      color={CHARACTER_CLASSES[selectedClass].color} 
+                      color={characterClass.color} 
                     />
                     <Text style={[
                       styles.characterClass,
-                      { color: CHARACTER_CLASSES[selectedClass].color }
+                      { color: characterClass.color }
                     ]}>
                       {character.class}
                     </Text>
@@ -360,19 +722,62 @@ export default function CharacterScreen() {
             
             <View style={styles.xpContainer}>
               <Text style={styles.xpText}>
-                {xpInCurrentLevel} / 1000 XP • {xpForNextLevel - character.xp} until next level
+                {levelProgress.isMaxLevel
+                  ? `Max level reached • ${levelProgress.xpIntoLevel} bonus XP`
+                  : `${levelProgress.xpIntoLevel} / ${levelProgress.xpForLevel} XP • ${levelProgress.xpToNextLevel} until next level`}
               </Text>
               <View style={styles.barOuter}>
                 <View 
                   style={[
                     styles.barInner, 
-                    { width: `${xpPercentage}%` }
+                    { width: `${levelProgress.percent}%` }
                   ]} 
                 />
               </View>
             </View>
           </View>
           
+          {/* Streak Section */}
+          {streaks && (
+            <View style={styles.streakCard}>
+              <View style={styles.streakHeader}>
+                <MaterialCommunityIcons
+                  name="fire"
+                  size={28}
+                  color={streaks.overall.current > 0 ? '#ff7b00' : '#888'}
+                />
+                <View style={styles.streakInfo}>
+                  <Text style={styles.streakCount}>
+                    {streaks.overall.current} day streak
+                    {!streaks.overall.activeToday && streaks.overall.current > 0 ? ' (train today!)' : ''}
+                  </Text>
+                  <Text style={styles.streakMeta}>
+                    Longest: {streaks.overall.longest} days
+                    {streaks.multiplier > 1 ? ` • x${streaks.multiplier} XP` : ''}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.streakStats}>
+                {WORKOUT_TYPES.map(workout => (
+                  <View key={workout.type} style={styles.streakStat}>
+                    <MaterialCommunityIcons name={workout.icon} size={16} color={workout.color} />
+                    <Text style={styles.streakStatValue}>{streaks.byStat[workout.type].current}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={styles.freezeRow}>
+                <Text style={styles.streakMeta}>❄️ {streaks.freezesAvailable} streak freezes</Text>
+                {streaks.overall.freezeCandidate && streaks.freezesAvailable > 0 && (
+                  <TouchableOpacity style={styles.freezeButton} onPress={useStreakFreeze}>
+                    <Text style={styles.freezeButtonText}>Freeze yesterday</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          )}
+
           {/* Stats Section */}
           <View style={styles.sectionHeader}>
             <MaterialCommunityIcons name="chart-bar" size={22} color="#ffd700" />
@@ -388,7 +793,8 @@ export default function CharacterScreen() {
               character.strength, 
               '#e63946', 
               'Upper body & leg workouts',
-              recentWorkout === 'strength'
+              recentWorkout === 'strength',
+              gearBonus.strength + legacyBonus.strength
             )}
             
             {renderStat(
@@ -397,7 +803,8 @@ export default function CharacterScreen() {
               character.speed, 
               '#f4a261', 
               'Cardio, HIIT & agility training',
-              recentWorkout === 'speed'
+              recentWorkout === 'speed',
+              gearBonus.speed + legacyBonus.speed
             )}
             
             {renderStat(
@@ -406,7 +813,8 @@ export default function CharacterScreen() {
               character.magic, 
               '#6a4c93', 
               'Yoga, stretching & mobility',
-              recentWorkout === 'magic'
+              recentWorkout === 'magic',
+              gearBonus.magic + legacyBonus.magic
             )}
             
             {renderStat(
@@ -415,66 +823,340 @@ export default function CharacterScreen() {
               character.willpower, 
               '#2a9d8f', 
               'Consistency & mental toughness',
-              recentWorkout === 'willpower'
+              recentWorkout === 'willpower',
+              gearBonus.willpower + legacyBonus.willpower
             )}
           </View>
 
+          {/* Equipment Section */}
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="treasure-chest" size={22} color="#ffd700" />
+            <Text style={styles.sectionTitle}>Equipment</Text>
+          </View>
+
+          <View style={styles.statsCard}>
+            <View style={styles.slotRow}>
+              {EQUIP_SLOTS.map(slot => {
+                const equipped = inventory.find(entry => entry.slot === slot.slot && entry.equipped);
+                const item = equipped ? getItem(equipped.item_id) : undefined;
+                return (
+                  <View key={slot.slot} style={[styles.slotCard, item && { borderColor: RARITY_COLORS[item.rarity] }]}>
+                    <MaterialCommunityIcons
+                      name={(item?.icon || slot.icon) as IconName}
+                      size={26}
+                      color={item ? RARITY_COLORS[item.rarity] : '#555'}
+                    />
+                    <Text style={styles.slotLabel}>{slot.label}</Text>
+                    <Text style={styles.slotItemName} numberOfLines={2}>{item ? item.name : 'Empty'}</Text>
+                  </View>
+                );
+              })}
+            </View>
+
+            <View style={styles.bodyWeightRow}>
+              <TextInput
+                style={[styles.formInput, styles.bodyWeightInput]}
+                placeholder="Bodyweight (kg)"
+                placeholderTextColor="#aaa"
+                keyboardType="numeric"
+                value={bodyWeight}
+                onChangeText={setBodyWeight}
+              />
+              <TouchableOpacity style={styles.bodyWeightButton} onPress={saveBodyWeight}>
+                <Text style={styles.bodyWeightButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.statSubtitle}>Used for bodyweight-relative lift challenges</Text>
+
+            {inventory.map(entry => {
+              const item = getItem(entry.item_id);
+              if (!item) return null;
+              return (
+                <View key={entry.id} style={styles.gearItem}>
+                  <MaterialCommunityIcons name={item.icon as IconName} size={22} color={RARITY_COLORS[item.rarity]} />
+                  <View style={styles.gearInfo}>
+                    <Text style={styles.gearName}>{item.name}</Text>
+                    <Text style={styles.gearMeta}>{formatStatChanges(item.statModifiers)}</Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.equipButton, entry.equipped && styles.equipButtonActive]}
+                    onPress={() => toggleEquipped(entry)}
+                  >
+                    <Text style={[styles.equipButtonText, entry.equipped && styles.equipButtonTextActive]}>
+                      {entry.equipped ? 'Equipped' : 'Equip'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+
+            {lockedItems.map(item => (
+              <View key={item.id} style={[styles.gearItem, styles.gearItemLocked]}>
+                <MaterialCommunityIcons name="lock" size={22} color="#666" />
+                <View style={styles.gearInfo}>
+                  <Text style={styles.gearName}>{item.name}</Text>
+                  <Text style={styles.gearMeta}>
+                    {describeMilestone(item.unlock)} • {formatStatChanges(item.statModifiers)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Legacy Section */}
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="pillar" size={22} color="#ffd700" />
+            <Text style={styles.sectionTitle}>Legacy</Text>
+          </View>
+
+          <View style={styles.statsCard}>
+            <Text style={styles.statsSubtitle}>Permanent traits that carry over to every season</Text>
+            {LEGACY_TRAITS.map(trait => {
+              const earned = earnedTraitIds.includes(trait.id);
+              return (
+                <View key={trait.id} style={[styles.gearItem, !earned && styles.gearItemLocked]}>
+                  <MaterialCommunityIcons
+                    name={(earned ? trait.icon : 'lock') as IconName}
+                    size={22}
+                    color={earned ? '#ffd700' : '#666'}
+                  />
+                  <View style={styles.gearInfo}>
+                    <Text style={styles.gearName}>{trait.name}</Text>
+                    <Text style={styles.gearMeta}>
+                      {earned ? trait.description : describeMilestone(trait.milestone)}
+                    </Text>
+                    <Text style={styles.legacyBonus}>{describeLegacyBonus(trait)}</Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+
+          {/* Titles Section */}
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="tag-heart" size={22} color="#ffd700" />
+            <Text style={styles.sectionTitle}>Titles</Text>
+          </View>
+
+          <View style={styles.statsCard}>
+            <Text style={styles.statsSubtitle}>Wear a title beside your name in guilds and chat</Text>
+            {titles.map(title => {
+              const worn = character.active_title === title.title;
+              return (
+                <View key={title.id} style={styles.gearItem}>
+                  <MaterialCommunityIcons name={getTitleIcon(title) as IconName} size={22} color="#ffd700" />
+                  <View style={styles.gearInfo}>
+                    <Text style={styles.gearName}>{title.title}</Text>
+                    <Text style={styles.gearMeta}>{describeTitleSource(title)}</Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.equipButton, worn && styles.equipButtonActive]}
+                    onPress={() => toggleTitle(title.title)}
+                  >
+                    <Text style={[styles.equipButtonText, worn && styles.equipButtonTextActive]}>
+                      {worn ? 'Worn' : 'Wear'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+
+            {lockedTitles.map(title => (
+              <View key={title.name} style={[styles.gearItem, styles.gearItemLocked]}>
+                <MaterialCommunityIcons name="lock" size={22} color="#666" />
+                <View style={styles.gearInfo}>
+                  <Text style={styles.gearName}>{title.name}</Text>
+                  <Text style={styles.gearMeta}>Reach level {title.level}</Text>
+                </View>
+              </View>
+            ))}
+            <Text style={styles.statSubtitle}>Achievement rewards and guild events grant more titles</Text>
+          </View>
+
+          {/* Training Goals */}
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="flag-checkered" size={22} color="#ffd700" />
+            <Text style={styles.sectionTitle}>Training Goals</Text>
+          </View>
+
+          <View style={styles.statsCard}>
+            <Text style={styles.statsSubtitle}>Tell the Dungeon Master what you are training for</Text>
+            <TextInput
+              style={[styles.formInput, styles.goalsInput]}
+              placeholder="e.g. Run my first 10k, do 10 pull-ups"
+              placeholderTextColor="#aaa"
+              multiline
+              maxLength={MAX_GOALS_LENGTH}
+              value={goals}
+              onChangeText={setGoals}
+            />
+            <TouchableOpacity style={[styles.bodyWeightButton, styles.goalsButton]} onPress={saveGoals}>
+              <Text style={styles.bodyWeightButtonText}>Save Goals</Text>
+            </TouchableOpacity>
+          </View>
+
           {/* Workout Actions */}
           <View style={styles.sectionHeader}>
             <MaterialCommunityIcons name="dumbbell" size={22} color="#ffd700" />
             <Text style={styles.sectionTitle}>Log Workout</Text>
           </View>
           
-          <TouchableOpacity
-            style={[styles.workoutButton, { backgroundColor: '#e63946' }, loading && styles.buttonDisabled]}
-            onPress={() => logWorkout('strength')}
-            disabled={loading}
-          >
-            <MaterialCommunityIcons name="arm-flex" size={24} color="#fff" />
-            <Text style={styles.workoutText}>Strength Training</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.workoutButton, { backgroundColor: '#f4a261' }, loading && styles.buttonDisabled]}
-            onPress={() => logWorkout('speed')}
-            disabled={loading}
-          >
-            <MaterialCommunityIcons name="run-fast" size={24} color="#fff" />
-            <Text style={styles.workoutText}>Cardio / HIIT</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.workoutButton, { backgroundColor: '#6a4c93' }, loading && styles.buttonDisabled]}
-            onPress={() => logWorkout('magic')}
-            disabled={loading}
-          >
-            <MaterialCommunityIcons name="magic-staff" size={24} color="#fff" />
-            <Text style={styles.workoutText}>Yoga / Flexibility</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={[styles.workoutButton, { backgroundColor: '#2a9d8f' }, loading && styles.buttonDisabled]}
-            onPress={() => logWorkout('willpower')}
-            disabled={loading}
-          >
-            <MaterialCommunityIcons name="meditation" size={24} color="#fff" />
-            <Text style={styles.workoutText}>Streak / Consistency</Text>
-          </TouchableOpacity>
+          {WORKOUT_TYPES.map(workout => (
+            <TouchableOpacity
+              key={workout.type}
+              style={[
+                styles.workoutButton,
+                { backgroundColor: workout.color },
+                workoutType && workoutType !== workout.type && styles.workoutButtonInactive,
+                loading && styles.buttonDisabled
+              ]}
+              onPress={() => setWorkoutType(workoutType === workout.type ? null : workout.type)}
+              disabled={loading}
+            >
+              <MaterialCommunityIcons name={workout.icon} size={24} color="#fff" />
+              <Text style={styles.workoutText}>{workout.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {/* Workout Entry Form */}
+          {workoutType && (
+            <View style={styles.workoutForm}>
+              <TextInput
+                style={styles.formInput}
+                placeholder="Exercise (e.g. Back Squat, 5k Run)"
+                placeholderTextColor="#aaa"
+                value={workoutForm.exercise}
+                onChangeText={value => updateWorkoutForm('exercise', value)}
+              />
+
+              <View style={styles.formRow}>
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Sets"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.sets}
+                  onChangeText={value => updateWorkoutForm('sets', value)}
+                />
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Reps"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.reps}
+                  onChangeText={value => updateWorkoutForm('reps', value)}
+                />
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Weight (kg)"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.weight}
+                  onChangeText={value => updateWorkoutForm('weight', value)}
+                />
+              </View>
+
+              <View style={styles.formRow}>
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Duration (min)"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.duration}
+                  onChangeText={value => updateWorkoutForm('duration', value)}
+                />
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Distance (km)"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.distance}
+                  onChangeText={value => updateWorkoutForm('distance', value)}
+                />
+                <TextInput
+                  style={[styles.formInput, styles.formInputThird]}
+                  placeholder="Climb (ft)"
+                  placeholderTextColor="#aaa"
+                  keyboardType="numeric"
+                  value={workoutForm.elevation}
+                  onChangeText={value => updateWorkoutForm('elevation', value)}
+                />
+              </View>
+
+              <Text style={styles.formLabel}>Perceived Effort: {workoutForm.effort}/10</Text>
+              <View style={styles.effortRow}>
+                {EFFORT_LEVELS.map(level => (
+                  <TouchableOpacity
+                    key={level}
+                    style={[styles.effortOption, workoutForm.effort === level && styles.effortOptionSelected]}
+                    onPress={() => updateWorkoutForm('effort', level)}
+                  >
+                    <Text style={[styles.effortText, workoutForm.effort === level && styles.effortTextSelected]}>
+                      {level}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[
+                  styles.createButton,
+                  { backgroundColor: WORKOUT_TYPES.find(w => w.type === workoutType)?.color },
+                  loading && styles.buttonDisabled
+                ]}
+                onPress={logWorkout}
+                disabled={loading}
+              >
+                <Text style={styles.buttonText}>
+                  {loading ? "Logging..." : "Log Workout"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
           
           {/* Class Bonus Info */}
-          {character.class && (
-            <View style={[styles.classBonus, { borderColor: CHARACTER_CLASSES[selectedClass].color }]}>
+          {characterClass && (
+            <View style={[styles.classBonus, { borderColor: characterClass.color }]}>
               <MaterialCommunityIcons 
-                name={CHARACTER_CLASSES[selectedClass].icon} 
+                name={characterClass.icon as IconName} 
                 size={20} 
-                color={CHARACTER_CLASSES[selectedClass].color} 
+                color={characterClass.color} 
               />
               <Text style={styles.classBonusText}>
-                {character.class} Bonus: +20% XP for {CHARACTER_CLASSES[selectedClass].statBonus} workouts
+                {characterClass.name} Bonus: {formatClassBonus(characterClass)}
               </Text>
             </View>
           )}
+
+          {/* Class Respec */}
+          <TouchableOpacity
+            style={[styles.respecButton, respecDaysLeft > 0 && styles.buttonDisabled]}
+            onPress={() => setShowRespec(!showRespec)}
+            disabled={respecDaysLeft > 0}
+          >
+            <MaterialCommunityIcons name="swap-horizontal" size={18} color="#ffd700" />
+            <Text style={styles.respecButtonText}>
+              {respecDaysLeft > 0 ? `Change class in ${respecDaysLeft} day${respecDaysLeft === 1 ? '' : 's'}` : 'Change Class'}
+            </Text>
+          </TouchableOpacity>
+
+          {showRespec && respecDaysLeft <= 0 && classes
+            .filter(charClass => charClass.name !== character.class)
+            .map(charClass => (
+              <TouchableOpacity
+                key={charClass.name}
+                style={[styles.respecOption, { borderColor: charClass.color }]}
+                onPress={() => respecClass(charClass.name)}
+              >
+                <MaterialCommunityIcons name={charClass.icon as IconName} size={24} color={charClass.color} />
+                <View style={styles.gearInfo}>
+                  <Text style={[styles.gearName, { color: charClass.color }]}>{charClass.name}</Text>
+                  <Text style={styles.gearMeta}>{formatClassBonus(charClass)}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
         </ScrollView>
+        )}
       </View>
   );
 }
@@ -485,7 +1167,8 @@ function renderStat(
   value: number, 
   color: string, 
   subtitle: string,
-  isRecent: boolean = false
+  isRecent: boolean = false,
+  bonus: number = 0
 ) {
   return (
     <View style={[styles.statItem, isRecent && styles.recentStat]}>
@@ -494,32 +1177,28 @@ function renderStat(
           <MaterialCommunityIcons name={icon} size={20} color={color} />
           <Text style={styles.statLabel}>{label}</Text>
         </View>
-        <Text style={[styles.statValue, { color }]}>{value}</Text>
+        <Text style={[styles.statValue, { color }]}>
+          {value + bonus}
+          {bonus > 0 && <Text style={styles.statBonus}> (+{bonus})</Text>}
+        </Text>
       </View>
       <Text style={styles.statSubtitle}>{subtitle}</Text>
       <View style={styles.statBarOuter}>
         <View style={[
           styles.statBarInner, 
-          { width: `${Math.min(value * 3, 100)}%`, backgroundColor: color }
+          { width: `${Math.min((value + bonus) * 3, 100)}%`, backgroundColor: color }
         ]} />
       </View>
     </View>
   );
 }
 
-function getClassDescription(className: string): string {
-  switch(className) {
-    case 'Warrior':
-      return 'Masters of physical prowess who excel at strength training. Their discipline makes every rep count.';
-    case 'Rogue':
-      return 'Swift and agile adventurers who thrive on cardio and HIIT. They can dash through any workout with ease.';
-    case 'Mage':
-      return 'Scholars of body knowledge who focus on flexibility and form. Their yoga practice unlocks arcane physical potential.';
-    case 'Monk':
-      return 'Embodiments of mental discipline who build consistency. Their willpower transforms routine into power.';
-    default:
-      return 'A versatile adventurer balancing multiple training methods.';
-  }
+// e.g. "⚔️ Gear unlocked: Oakwood Longbow" for reward alerts; empty when nothing new
+function formatMilestoneRewards(items: Item[], traits: LegacyTrait[]): string {
+  return [
+    items.length > 0 ? `⚔️ Gear unlocked: ${items.map(item => item.name).join(', ')}` : '',
+    traits.length > 0 ? `🏛️ Legacy trait earned: ${traits.map(trait => trait.name).join(', ')}` : '',
+  ].filter(Boolean).join('\n');
 }
 
 const styles = StyleSheet.create({
@@ -547,6 +1226,35 @@ const styles = StyleSheet.create({
     fontSize: 16,
   },
   
+  // Character / History tabs
+  tabBar: {
+    flexDirection: 'row',
+    margin: 16,
+    marginBottom: 8,
+    backgroundColor: '#2a2a40',
+    borderRadius: 20,
+    padding: 4,
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  tabActive: {
+    backgroundColor: '#ffd700',
+  },
+  tabText: {
+    color: '#ddd',
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  tabTextActive: {
+    color: '#1e1e2e',
+  },
+  
   // Character Creation
   createContainer: {
     alignItems: 'center',
@@ -582,6 +1290,7 @@ const styles = StyleSheet.create({
   },
   classContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-between',
     width: '100%',
     marginBottom: 24,
@@ -591,7 +1300,7 @@ const styles = StyleSheet.create({
     padding: 12,
     borderRadius: 12,
     alignItems: 'center',
-    flex: 1,
+    width: '30%',
     margin: 4,
     borderWidth: 2,
     borderColor: 'transparent',
@@ -660,11 +1369,34 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
+  avatarButton: {
+    marginRight: 12,
+  },
+  avatarEditBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#ffd700',
+    borderRadius: 10,
+    width: 20,
+    height: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  characterIdentity: {
+    flex: 1,
+  },
   characterName: { 
     fontSize: 24, 
     fontWeight: 'bold', 
     color: '#fff', 
   },
+  activeTitle: {
+    color: '#ffd700',
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
   classBar: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -707,6 +1439,163 @@ const styles = StyleSheet.create({
     borderRadius: 6,
   },
   
+  // Streak Card
+  streakCard: {
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 8,
+    backgroundColor: '#2a2a40',
+  },
+  streakHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  streakInfo: {
+    marginLeft: 12,
+  },
+  streakCount: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  streakMeta: {
+    color: '#bbb',
+    fontSize: 13,
+    marginTop: 2,
+  },
+  streakStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  streakStat: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  streakStatValue: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  freezeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  freezeButton: {
+    backgroundColor: '#4e60d3',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  freezeButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  slotCard: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#1e1e2e',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#444',
+    padding: 10,
+    marginHorizontal: 4,
+  },
+  slotLabel: {
+    color: '#aaa',
+    fontSize: 11,
+    marginTop: 4,
+    textTransform: 'uppercase',
+  },
+  slotItemName: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 2,
+  },
+  bodyWeightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bodyWeightInput: {
+    flex: 1,
+    marginRight: 10,
+    marginBottom: 0,
+  },
+  bodyWeightButton: {
+    backgroundColor: '#ffd700',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  goalsInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  goalsButton: {
+    alignSelf: 'flex-end',
+  },
+  bodyWeightButtonText: {
+    color: '#1e1e2e',
+    fontWeight: 'bold',
+  },
+  gearItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#3a3a55',
+  },
+  gearItemLocked: {
+    opacity: 0.6,
+  },
+  gearInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  gearName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
+  gearMeta: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  equipButton: {
+    borderWidth: 1,
+    borderColor: '#ffd700',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  equipButtonActive: {
+    backgroundColor: '#ffd700',
+  },
+  equipButtonText: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  equipButtonTextActive: {
+    color: '#1e1e2e',
+  },
+  legacyBonus: {
+    color: '#ffd700',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  
   // Section Headers
   sectionHeader: {
     flexDirection: 'row',
@@ -765,6 +1654,10 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  statBonus: {
+    color: '#aaa',
+    fontSize: 13,
+  },
   statSubtitle: {
     color: '#aaa',
     fontSize: 12,
@@ -800,6 +1693,63 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginLeft: 12,
   },
+  workoutButtonInactive: {
+    opacity: 0.4,
+  },
+  
+  // Workout Form
+  workoutForm: {
+    backgroundColor: '#2a2a40',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  formRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  formInput: {
+    borderWidth: 1,
+    borderColor: '#4e4e6f',
+    backgroundColor: '#1e1e2e',
+    borderRadius: 10,
+    padding: 10,
+    color: '#fff',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  formInputThird: {
+    width: '32%',
+  },
+  formLabel: {
+    color: '#ddd',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  effortRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  effortOption: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#1e1e2e',
+  },
+  effortOptionSelected: {
+    backgroundColor: '#ffd700',
+  },
+  effortText: {
+    color: '#ddd',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  effortTextSelected: {
+    color: '#1e1e2e',
+  },
   
   // Class Bonus
   classBonus: {
@@ -816,7 +1766,32 @@ const styles = StyleSheet.create({
     color: '#ddd',
     marginLeft: 8,
     fontSize: 14,
-  }
+    flex: 1,
+  },
+  respecButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ffd700',
+  },
+  respecButtonText: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  respecOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a40',
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 8,
+    borderWidth: 1,
+  },
 });
 // import React, { useState, useEffect } from 'react';
 // import { 
@@ -20,6 +20,8 @@ import { RootStackParamList } from '../types/navigation';
 import { useAuth } from '../app/AuthProvider';
 import { supabase } from '../app/supabase';
 import { GuildEvent } from '../types/guildTypes';
+import { EVENT_TITLES } from '../constants/titles';
+import { EVENT_XP_RANGE } from '../constants/guildEvents';
 
 type CreateEventNavigationProp = NativeStackNavigationProp<RootStackParamList, 'CreateEvent'>;
 type CreateEventRouteProp = RouteProp<RootStackParamList, 'CreateEvent'>;
@@ -118,8 +120,8 @@ export default function CreateEventScreen() {
       newErrors.reward_description = "Reward description is required";
     }
     
-    if (formData.xp_reward <= 0) {
-      newErrors.xp_reward = "XP reward must be greater than 0";
+    if (formData.xp_reward < EVENT_XP_RANGE.min || formData.xp_reward > EVENT_XP_RANGE.max) {
+      newErrors.xp_reward = `XP reward must be between ${EVENT_XP_RANGE.min} and ${EVENT_XP_RANGE.max}`;
     }
 
     // Date validation
@@ -450,11 +452,14 @@ export default function CreateEventScreen() {
           <Text style={styles.inputLabel}>Reward Description</Text>
           <TextInput
             style={styles.textInput}
-            placeholder="e.g. 'Strength Badge + 200 XP'"
+            placeholder="e.g. 'Dawn Warrior title + 200 XP'"
             placeholderTextColor="#888"
             value={formData.reward_description}
             onChangeText={(text) => updateField('reward_description', text)}
           />
+          <Text style={styles.inputHint}>
+            Titles members can earn: {EVENT_TITLES.map(title => title.name).join(', ')}
+          </Text>
           {errors.reward_description && <Text style={styles.errorText}>{errors.reward_description}</Text>}
         </View>
         
@@ -541,6 +546,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  inputHint: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+  },
   optionsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
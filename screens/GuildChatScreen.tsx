@@ -8,6 +8,9 @@ import { BottomTabParamList, RootStackParamList } from '../types/navigation';
 import { useNavigation } from '@react-navigation/native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import { GuildMessage } from '../types/guildTypes';
+import { AvatarProfile } from '../types/avatarTypes';
+import { fetchAvatarProfiles } from '../lib/avatar';
+import Avatar from '../components/Avatar';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 
 type BottomTabNavigationPropType = BottomTabNavigationProp<BottomTabParamList, 'Guild'>;
@@ -28,6 +31,7 @@ export default function GuildChatScreen() {
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [currentCharacterName, setCurrentCharacterName] = useState('');
+  const [avatarProfiles, setAvatarProfiles] = useState<Record<string, AvatarProfile>>({});
   const flatListRef = useRef<FlatList>(null);
 
   // Set header title with guild name
@@ -148,6 +152,18 @@ export default function GuildChatScreen() {
     };
   }, [guildId]);
 
+  // Fetch avatars for anyone who has posted and isn't loaded yet
+  useEffect(() => {
+    const missingUserIds = messages
+      .map(message => message.user_id)
+      .filter(userId => !avatarProfiles[userId]);
+    if (missingUserIds.length === 0) return;
+
+    fetchAvatarProfiles(missingUserIds).then(profiles => {
+      setAvatarProfiles(prev => ({ ...prev, ...profiles }));
+    });
+  }, [messages]);
+
   const sendMessage = async () => {
     if (!newMessage.trim() || !user) return;
   
@@ -218,9 +234,22 @@ export default function GuildChatScreen() {
             onLayout={() => flatListRef.current?.scrollToEnd({ animated: false })}
             renderItem={({ item }) => (
               <View style={[styles.messageBubble, item.user_id === user?.id ? styles.mine : styles.theirs]}>
-                <Text style={styles.messageSender}>
-                  {item.user_id === user?.id ? currentCharacterName || 'Me' : item.character_name}
-                </Text>
+                <View style={styles.messageHeader}>
+                  {avatarProfiles[item.user_id] && (
+                    <Avatar
+                      avatar={avatarProfiles[item.user_id].avatar}
+                      characterClass={avatarProfiles[item.user_id].characterClass}
+                      equippedItemIds={avatarProfiles[item.user_id].equippedItemIds}
+                      size={24}
+                    />
+                  )}
+                  <Text style={styles.messageSender}>
+                    {item.user_id === user?.id ? currentCharacterName || 'Me' : item.character_name}
+                  </Text>
+                  {avatarProfiles[item.user_id]?.activeTitle && (
+                    <Text style={styles.messageTitle}>{avatarProfiles[item.user_id].activeTitle}</Text>
+                  )}
+                </View>
                 <Text style={styles.messageText}>{item.content}</Text>
                 <Text style={styles.messageTime}>{formatTimestamp(item.created_at)}</Text>
               </View>
@@ -278,12 +307,23 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     borderBottomLeftRadius: 4,
   },
+  messageHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
   messageSender: {
     color: '#ccc',
     fontSize: 12,
-    marginBottom: 4,
+    marginLeft: 6,
     fontWeight: 'bold',
   },
+  messageTitle: {
+    color: '#ffd700',
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginLeft: 6,
+  },
   messageText: {
     color: '#fff',
     fontSize: 14,
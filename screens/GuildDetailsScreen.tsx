@@ -11,6 +11,9 @@ import {
   Alert
 } from 'react-native';
 import { useAuth } from '../app/AuthProvider';
+import { fetchAvatarProfiles } from '../lib/avatar';
+import { AvatarProfile } from '../types/avatarTypes';
+import Avatar from '../components/Avatar';
 import { supabase } from '../app/supabase';
 import { useNavigation, useRoute } from '@react-navigation/native';
 // Removed LinearGradient import completely
@@ -24,6 +27,7 @@ export default function GuildDetailsScreen() {
   const [members, setMembers] = useState([]);
   const [userRole, setUserRole] = useState('member');
   const [refreshing, setRefreshing] = useState(false);
+  const [avatarProfiles, setAvatarProfiles] = useState<Record<string, AvatarProfile>>({});
   
   // Get the guildId from route params
   const guildId = route.params?.guildId;
@@ -147,6 +151,12 @@ export default function GuildDetailsScreen() {
     fetchGuildDetails();
   }, [guildId, user]);
 
+  // Load member avatars whenever the roster changes
+  useEffect(() => {
+    if (members.length === 0) return;
+    fetchAvatarProfiles(members.map((member: { user_id: string }) => member.user_id)).then(setAvatarProfiles);
+  }, [members]);
+
   const handleRefresh = () => {
     setRefreshing(true);
     fetchGuildDetails();
@@ -159,14 +169,29 @@ export default function GuildDetailsScreen() {
     const role = member?.role ? member.role.charAt(0).toUpperCase() + member.role.slice(1) : "Member";
     const level = member?.character_level || "?";
     const points = member?.contribution_points || 0;
+    const avatarProfile = avatarProfiles[member?.user_id];
     
     return (
       <View key={`member-${index}`} style={styles.memberRow}>
         <View style={styles.memberIcon}>
-          <Text style={styles.memberIconText}>{characterInitial}</Text>
+          {avatarProfile ? (
+            <Avatar
+              avatar={avatarProfile.avatar}
+              characterClass={avatarProfile.characterClass}
+              equippedItemIds={avatarProfile.equippedItemIds}
+              size={36}
+            />
+          ) : (
+            <Text style={styles.memberIconText}>{characterInitial}</Text>
+          )}
         </View>
         <View style={styles.memberInfo}>
-          <Text style={styles.memberName}>{characterName}</Text>
+          <Text style={styles.memberName}>
+            {characterName}
+            {avatarProfile?.activeTitle && (
+              <Text style={styles.memberTitle}>{`  ${avatarProfile.activeTitle}`}</Text>
+            )}
+          </Text>
           <Text style={styles.memberRole}>
             {role} • Level {level}
           </Text>
@@ -440,6 +465,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  memberTitle: {
+    color: '#ffd700',
+    fontSize: 12,
+    fontWeight: 'normal',
+    fontStyle: 'italic',
+  },
   memberRole: {
     color: '#bbb',
     fontSize: 12,
@@ -20,6 +20,13 @@ import { GuildEvent } from '../types/guildTypes';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { FitRealmColors, FitRealmStyles } from '../constants/styles';
 import { OPENAI_KEY } from '@env';
+import { getClassSpecialty, isStatType } from '../lib/progression';
+import { awardXp } from '../lib/xpAwards';
+import { fetchStreakSummary } from '../lib/streaks';
+import { fetchLegacyTraitIds, getLegacyXpMultiplier } from '../lib/legacy';
+import { parseEventTitle } from '../lib/titles';
+import { EVENT_TITLES } from '../constants/titles';
+import { EVENT_XP_RANGE } from '../constants/guildEvents';
 
 // Type declarations
 type GuildEventsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'GuildEvents'>;
@@ -322,6 +329,34 @@ const joinEvent = async (eventId: string) => {
         
       if (guildUpdateError) throw guildUpdateError;
       
+      // Award the completing member their share of the event XP
+      const { data: characterData, error: characterError } = await supabase
+        .from('characters')
+        .select('*')
+        .eq('user_id', user.id)
+        .single();
+
+      if (characterError) throw characterError;
+
+      const streaks = await fetchStreakSummary(user.id);
+      const legacyTraitIds = await fetchLegacyTraitIds(user.id);
+      // Events open to "any" workout count towards the member's specialty
+      const eventStatType = isStatType(eventToComplete.required_workout_type)
+        ? eventToComplete.required_workout_type
+        : getClassSpecialty(characterData.class) || 'willpower';
+      const { data: award, error: awardError } = await awardXp(characterData, {
+        source: 'event',
+        sourceId: eventId,
+        statType: eventStatType,
+        baseXp: xpGain,
+        multiplier: streaks?.multiplier,
+        legacyMultiplier: getLegacyXpMultiplier(legacyTraitIds, eventStatType),
+      });
+
+      if (awardError) {
+        console.error('Error awarding event XP:', awardError);
+      }
+      
       // Update local state
       setGuildData({...guildData, xp: newXp});
       
@@ -337,7 +372,7 @@ const joinEvent = async (eventId: string) => {
       
       Alert.alert(
         'Event Completed!', 
-        `Guild has earned ${xpGain} XP for completing this event.`,
+        `Guild has earned ${xpGain} XP for completing this event.${award ? ` You earned ${award.result.xpDelta} XP too!` : ''}`,
         [{ text: 'Awesome!', style: 'default' }]
       );
       
@@ -380,8 +415,8 @@ const joinEvent = async (eventId: string) => {
               3. A brief description (20-30 words)
               4. Required workout type (strength, speed, magic, willpower, or any)
               5. Difficulty level (beginner, intermediate, or advanced)
-              6. XP reward (between 50-300)
-              7. A reward description
+              6. XP reward (between ${EVENT_XP_RANGE.min}-${EVENT_XP_RANGE.max})
+              7. A reward description. It may grant one of these titles, written as "<title> title + <xp> XP": ${EVENT_TITLES.map(title => title.name).join(', ')}
               the description should be an actual workout too, such as upper body etc and then the workout itself like pushups
               
               Return JSON array only without explanations or markdown.
@@ -464,6 +499,7 @@ const joinEvent = async (eventId: string) => {
   const renderEventItem = ({ item }: { item: ExtendedGuildEvent }) => {
     const { label, color, icon } = getDifficultyInfo(item.difficulty);
     const workout = getWorkoutTypeInfo(item.required_workout_type);
+    const rewardTitle = parseEventTitle(item.reward_description);
     const dateLabel = item.status === 'active' ? 'Started' : item.status === 'completed' ? 'Ended' : 'Starts';
     const statusColor = item.status === 'completed' 
       ? FitRealmColors.textSecondary 
@@ -530,6 +566,13 @@ const joinEvent = async (eventId: string) => {
             <Icon name="gift" size={16} color={FitRealmColors.textSecondary} />
             <Text style={styles.eventInfo}>Reward: {item.reward_description}</Text>
           </View>
+
+          {rewardTitle && (
+            <View style={styles.eventInfoRow}>
+              <Icon name="ribbon" size={16} color={FitRealmColors.textSecondary} />
+              <Text style={styles.eventInfo}>Unlocks the "{rewardTitle}" title</Text>
+            </View>
+          )}
           
           <View style={styles.eventInfoRow}>
             <Icon name="people" size={16} color={FitRealmColors.textSecondary} />
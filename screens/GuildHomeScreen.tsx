@@ -17,6 +17,9 @@ import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { BottomTabParamList, RootStackParamList } from '../types/navigation';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Guild, GuildMember } from '../types/guildTypes';
+import { AvatarProfile } from '../types/avatarTypes';
+import { fetchAvatarProfiles } from '../lib/avatar';
+import Avatar from '../components/Avatar';
 
 type GuildScreenNavigationProp = BottomTabNavigationProp<BottomTabParamList, 'Guild'> & 
   NativeStackNavigationProp<RootStackParamList>;
@@ -30,6 +33,7 @@ export default function GuildHomeScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [guildLeader, setGuildLeader] = useState<GuildMember | null>(null);
+  const [avatarProfiles, setAvatarProfiles] = useState<Record<string, AvatarProfile>>({});
   
   // Animation values
   const fadeAnim = React.useRef(new Animated.Value(0)).current;
@@ -194,10 +198,17 @@ export default function GuildHomeScreen() {
     return Math.min((xpInCurrentLevel / 1000) * 100, 100);
   };
 
+  // Load member avatars whenever the roster changes
+  useEffect(() => {
+    if (guildMembers.length === 0) return;
+    fetchAvatarProfiles(guildMembers.map(member => member.user_id)).then(setAvatarProfiles);
+  }, [guildMembers]);
+
   // Render a member row with special styling for leaders
   const renderMemberRow = (member, index) => {
     const isLeader = member.role === 'leader';
     const isOfficer = member.role === 'officer';
+    const avatarProfile = avatarProfiles[member.user_id];
     
     return (
       <View 
@@ -212,9 +223,18 @@ export default function GuildHomeScreen() {
           isLeader && styles.leaderIcon,
           isOfficer && styles.officerIcon
         ]}>
-          <Text style={styles.memberIconText}>
-            {member?.character_name?.charAt(0)?.toUpperCase() ?? "?"}
-          </Text>
+          {avatarProfile ? (
+            <Avatar
+              avatar={avatarProfile.avatar}
+              characterClass={avatarProfile.characterClass}
+              equippedItemIds={avatarProfile.equippedItemIds}
+              size={36}
+            />
+          ) : (
+            <Text style={styles.memberIconText}>
+              {member?.character_name?.charAt(0)?.toUpperCase() ?? "?"}
+            </Text>
+          )}
           {isLeader && (
             <View style={styles.crownBadge}>
               <Text style={styles.crownIcon}>👑</Text>
@@ -229,6 +249,9 @@ export default function GuildHomeScreen() {
             {member.character_name}
             {isLeader && " (Leader)"}
             {isOfficer && " (Officer)"}
+            {avatarProfile?.activeTitle && (
+              <Text style={styles.memberTitle}>{`  ${avatarProfile.activeTitle}`}</Text>
+            )}
           </Text>
           <Text style={styles.memberRole}>
             Level {member.character_level ?? "?"}
@@ -711,6 +734,12 @@ const styles = StyleSheet.create({
   leaderName: {
     color: '#ffd700',
   },
+  memberTitle: {
+    color: '#ffd700',
+    fontSize: 12,
+    fontWeight: 'normal',
+    fontStyle: 'italic',
+  },
   memberRole: {
     color: '#bbb',
     fontSize: 12,
@@ -0,0 +1,317 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator
+} from 'react-native';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../app/AuthProvider';
+import { supabase } from '../app/supabase';
+import { StatType } from '../types/workoutTypes';
+import { XpLedgerEntry, XpSource } from '../types/historyTypes';
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+const STAT_FILTERS: Array<{ value: StatType | 'all'; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'strength', label: 'STR' },
+  { value: 'speed', label: 'SPD' },
+  { value: 'magic', label: 'MAG' },
+  { value: 'willpower', label: 'WILL' },
+];
+
+const DATE_RANGES: Array<{ days: number | null; label: string }> = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: null, label: 'All time' },
+];
+
+const SOURCE_INFO: Record<XpSource, { label: string; icon: IconName }> = {
+  workout: { label: 'Workout', icon: 'dumbbell' },
+  quest: { label: 'Quest', icon: 'sword' },
+  event: { label: 'Guild Event', icon: 'shield-account' },
+  reward: { label: 'Reward', icon: 'trophy' },
+  chain: { label: 'Storyline', icon: 'book-open-page-variant' },
+  abandon: { label: 'Abandoned Quest', icon: 'flag-remove' },
+};
+
+const STAT_COLORS: Record<StatType, string> = {
+  strength: '#e63946',
+  speed: '#f4a261',
+  magic: '#6a4c93',
+  willpower: '#2a9d8f',
+};
+
+const formatEntryDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  return `${date.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}, ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export default function HistoryScreen() {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<XpLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statFilter, setStatFilter] = useState<StatType | 'all'>('all');
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+
+      try {
+        let query = supabase
+          .from('xp_awards')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (statFilter !== 'all') {
+          query = query.eq('stat_type', statFilter);
+        }
+
+        if (rangeDays) {
+          const since = new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000);
+          query = query.gte('created_at', since.toISOString());
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          console.error("Error fetching XP history:", error);
+          return;
+        }
+
+        setEntries(data || []);
+      } catch (error) {
+        console.error("Error in fetchHistory:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [user, statFilter, rangeDays]);
+
+  const totalXp = entries.reduce((total, entry) => total + entry.xp, 0);
+
+  const renderEntry = ({ item }: { item: XpLedgerEntry }) => {
+    const source = SOURCE_INFO[item.source];
+    const statColor = STAT_COLORS[item.stat_type];
+
+    return (
+      <View style={[styles.entryCard, { borderLeftColor: statColor }]}>
+        <View style={styles.entryHeader}>
+          <View style={styles.entryTitleContainer}>
+            <MaterialCommunityIcons name={source.icon} size={18} color={statColor} />
+            <Text style={styles.entryTitle} numberOfLines={1}>
+              {item.description || source.label}
+            </Text>
+          </View>
+          <Text style={[styles.entryXp, item.xp < 0 && styles.entryXpPenalty]}>
+            {item.xp < 0 ? item.xp : `+${item.xp}`} XP
+          </Text>
+        </View>
+        <View style={styles.entryFooter}>
+          <Text style={styles.entryMeta}>
+            {source.label} • {formatEntryDate(item.created_at)}
+          </Text>
+          <View style={styles.entryDeltas}>
+            {item.stat_points > 0 && (
+              <Text style={[styles.entryStat, { color: statColor }]}>
+                +{item.stat_points} {item.stat_type}
+              </Text>
+            )}
+            {item.level_after > item.level_before && (
+              <Text style={styles.entryLevel}>LVL {item.level_after}</Text>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filterRow}>
+        {STAT_FILTERS.map(filter => (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.filterChip, statFilter === filter.value && styles.filterChipActive]}
+            onPress={() => setStatFilter(filter.value)}
+          >
+            <Text style={[styles.filterText, statFilter === filter.value && styles.filterTextActive]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.filterRow}>
+        {DATE_RANGES.map(range => (
+          <TouchableOpacity
+            key={range.label}
+            style={[styles.filterChip, rangeDays === range.days && styles.filterChipActive]}
+            onPress={() => setRangeDays(range.days)}
+          >
+            <Text style={[styles.filterText, rangeDays === range.days && styles.filterTextActive]}>
+              {range.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#ffd700" />
+        </View>
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={item => item.id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.list}
+          ListHeaderComponent={
+            entries.length > 0 ? (
+              <Text style={styles.summaryText}>
+                {entries.length} actions • {totalXp} XP earned
+              </Text>
+            ) : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialCommunityIcons name="history" size={50} color="#aaa" />
+              <Text style={styles.emptyText}>No XP earned in this period yet</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#2a2a40',
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  filterChipActive: {
+    backgroundColor: '#ffd700',
+  },
+  filterText: {
+    color: '#ddd',
+    fontSize: 13,
+    fontWeight: 'bold',
+  },
+  filterTextActive: {
+    color: '#1e1e2e',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  summaryText: {
+    color: '#bbb',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  entryCard: {
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryTitleContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    marginRight: 8,
+  },
+  entryTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+    flexShrink: 1,
+  },
+  entryXp: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  entryXpPenalty: {
+    color: '#e63946',
+  },
+  entryFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  entryMeta: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+  entryDeltas: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryStat: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  entryLevel: {
+    color: '#1e1e2e',
+    backgroundColor: '#ffd700',
+    fontSize: 11,
+    fontWeight: 'bold',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    marginLeft: 6,
+    overflow: 'hidden',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    marginTop: 40,
+  },
+  emptyText: {
+    color: '#aaa',
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
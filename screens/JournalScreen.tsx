@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Share
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../app/AuthProvider';
+import { supabase } from '../app/supabase';
+import { RootStackParamList } from '../types/navigation';
+import { JournalChapter, JournalWeek } from '../types/journalTypes';
+import { QuestType } from '../types/questTypes';
+import {
+  createChapterWriter,
+  fetchJournal,
+  formatChapterForSharing,
+  formatWeekRange,
+  getWeekXp,
+  groupJournalWeeks,
+  isWeekFinished,
+  writeMissingChapters
+} from '../lib/journal';
+
+type JournalNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Journal'>;
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+const QUEST_TYPE_ICONS: Record<QuestType, IconName> = {
+  strength: 'arm-flex',
+  speed: 'run-fast',
+  magic: 'magic-staff',
+  willpower: 'meditation',
+};
+
+const STAT_COLORS: Record<QuestType, string> = {
+  strength: '#e63946',
+  speed: '#f4a261',
+  magic: '#6a4c93',
+  willpower: '#2a9d8f',
+};
+
+const formatEntryDate = (dateString: string): string =>
+  new Date(dateString).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+export default function JournalScreen() {
+  const navigation = useNavigation<JournalNavigationProp>();
+  const { user } = useAuth();
+  const [heroName, setHeroName] = useState('Our hero');
+  const [weeks, setWeeks] = useState<JournalWeek[]>([]);
+  const [chapters, setChapters] = useState<JournalChapter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [writing, setWriting] = useState(false);
+
+  useEffect(() => {
+    const loadJournal = async () => {
+      if (!user) return;
+
+      try {
+        const [{ data: character }, { data: journal, error }] = await Promise.all([
+          supabase.from('characters').select('name').eq('user_id', user.id).single(),
+          fetchJournal(user.id),
+        ]);
+
+        if (error || !journal) {
+          console.error("Error fetching journal:", error);
+          Alert.alert("Error", "Your journal could not be opened. Please try again.");
+          return;
+        }
+
+        const name = character?.name || 'Our hero';
+        const journalWeeks = groupJournalWeeks(journal.entries);
+        setHeroName(name);
+        setWeeks(journalWeeks);
+        setChapters(journal.chapters);
+        setLoading(false);
+
+        // Finished weeks without a recap get one written now
+        setWriting(true);
+        const { data: written, error: writeError } = await writeMissingChapters(
+          user.id, name, journalWeeks, journal.chapters, createChapterWriter()
+        );
+        if (writeError) {
+          console.error("Error saving journal chapters:", writeError);
+        }
+        if (written && written.length > 0) {
+          setChapters(prev => [...prev, ...written]);
+        }
+      } catch (error) {
+        console.error("Error in loadJournal:", error);
+      } finally {
+        setLoading(false);
+        setWriting(false);
+      }
+    };
+
+    loadJournal();
+  }, [user]);
+
+  const shareChapter = async (week: JournalWeek, chapter: JournalChapter | null) => {
+    try {
+      await Share.share({ message: formatChapterForSharing(week, chapter, heroName) });
+    } catch (error) {
+      console.error("Error sharing chapter:", error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ffd700" />
+        <Text style={styles.loadingText}>Opening the journal...</Text>
+      </View>
+    );
+  }
+
+  const now = new Date();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Adventure Journal</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        {weeks.length === 0 && (
+          <Text style={styles.emptyText}>
+            The pages are blank. Complete a quest and your story begins here.
+          </Text>
+        )}
+
+        {[...weeks].reverse().map(week => {
+          const chapter = chapters.find(c => c.week_key === week.weekKey) || null;
+          const finished = isWeekFinished(week, now);
+          return (
+            <View key={week.weekKey} style={styles.chapterCard}>
+              <View style={styles.chapterHeader}>
+                <View style={styles.chapterHeading}>
+                  <Text style={styles.chapterNumber}>Chapter {week.chapterNumber}</Text>
+                  <Text style={styles.chapterTitle}>
+                    {chapter ? chapter.title : finished ? 'Untold' : 'Still being written'}
+                  </Text>
+                  <Text style={styles.chapterMeta}>
+                    {formatWeekRange(week)} • {week.entries.length} {week.entries.length === 1 ? 'quest' : 'quests'} • {getWeekXp(week).toLocaleString()} XP
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.shareButton} onPress={() => shareChapter(week, chapter)}>
+                  <Ionicons name="share-outline" size={20} color="#ffd700" />
+                </TouchableOpacity>
+              </View>
+
+              {chapter && <Text style={styles.recap}>{chapter.recap}</Text>}
+              {!chapter && finished && writing && (
+                <View style={styles.writingRow}>
+                  <ActivityIndicator size="small" color="#ffd700" />
+                  <Text style={styles.writingText}>The chronicler is writing...</Text>
+                </View>
+              )}
+              {!finished && (
+                <Text style={styles.inProgressText}>The recap is written when the week ends.</Text>
+              )}
+
+              {week.entries.map(entry => (
+                <View key={entry.id} style={styles.entry}>
+                  <MaterialCommunityIcons
+                    name={QUEST_TYPE_ICONS[entry.type]}
+                    size={20}
+                    color={STAT_COLORS[entry.type]}
+                    style={styles.entryIcon}
+                  />
+                  <View style={styles.entryBody}>
+                    <View style={styles.entryTitleRow}>
+                      <Text style={styles.entryTitle}>{entry.title}</Text>
+                      <Text style={styles.entryXp}>+{entry.xpReward} XP</Text>
+                    </View>
+                    <Text style={styles.entryDate}>
+                      {formatEntryDate(entry.completed_at)}{entry.chain_id ? ' • Storyline' : ''}
+                    </Text>
+                    <Text style={styles.entryDescription}>{entry.description}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1e1e2e',
+  },
+  loadingText: {
+    color: '#fff',
+    marginTop: 12,
+    fontSize: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    color: '#ffd700',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  scroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 24,
+    fontStyle: 'italic',
+  },
+  chapterCard: {
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ffd700',
+  },
+  chapterHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  chapterHeading: {
+    flex: 1,
+  },
+  chapterNumber: {
+    color: '#ffd700',
+    fontSize: 12,
+    fontWeight: 'bold',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  chapterTitle: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  chapterMeta: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  shareButton: {
+    padding: 6,
+  },
+  recap: {
+    color: '#ddd',
+    fontStyle: 'italic',
+    lineHeight: 21,
+    marginTop: 12,
+  },
+  writingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  writingText: {
+    color: '#aaa',
+    marginLeft: 8,
+  },
+  inProgressText: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    marginTop: 14,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  entryIcon: {
+    marginTop: 2,
+    marginRight: 10,
+  },
+  entryBody: {
+    flex: 1,
+  },
+  entryTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  entryTitle: {
+    color: '#fff',
+    fontWeight: 'bold',
+    flex: 1,
+    marginRight: 8,
+  },
+  entryXp: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  entryDate: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  entryDescription: {
+    color: '#bbb',
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+});
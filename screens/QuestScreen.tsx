@@ -5,18 +5,73 @@ import {
 } from 'react-native';
 import { supabase } from '../app/supabase';
 import { useNavigation } from '@react-navigation/native';
-import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
-import { BottomTabParamList } from '../types/navigation';
-import { useAuth } from '../app/AuthProvider';
+import { QuestScreenNavigationProp } from '../types/navigation';
+import { useClaimableRewards } from '../app/RewardsProvider';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { OPENAI_KEY } from '@env';
-import { v4 as uuidv4 } from 'uuid';
-import 'react-native-get-random-values';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
-
-type QuestType = 'strength' | 'speed' | 'magic' | 'willpower';
-type QuestDifficulty = 'easy' | 'medium' | 'hard';
+import {
+  applyClassBonus,
+  formatLevelUps,
+  formatNextLevel,
+  formatClassBonus,
+  formatStatChanges,
+  getClassXpMultiplier,
+  getLevelProgress
+} from '../lib/progression';
+import { getCharacterClass } from '../lib/classes';
+import { awardXp } from '../lib/xpAwards';
+import { fetchStreakSummary } from '../lib/streaks';
+import { fetchLegacyTraitIds, getLegacyXpMultiplier } from '../lib/legacy';
+import { createQuestGenerator } from '../lib/questGenerators';
+import { fetchQuestContext } from '../lib/questContext';
+import {
+  ensureQuestBoards,
+  getBoardQuests,
+  getPeriodEnd,
+  getPeriodKey,
+  QUEST_BOARD_ORDER
+} from '../lib/questBoards';
+import {
+  EARLY_FINISH_BONUS,
+  expireOverdueQuests,
+  formatCountdown,
+  getEarlyFinishCutoff,
+  getQuestBaseXp,
+  getTimeRemaining,
+  isQuestExpired,
+  qualifiesForEarlyBonus
+} from '../lib/questDeadlines';
+import {
+  describeObjective,
+  fetchQuestProgress,
+  formatObjectiveProgress,
+  ObjectiveProgress
+} from '../lib/questObjectives';
+import {
+  fetchChainProgress,
+  getChainRewardXp,
+  issueCurrentChainSteps,
+  startQuestChain
+} from '../lib/questChains';
+import {
+  abandonQuest,
+  canDropQuest,
+  canRerollQuest,
+  countRerollsToday,
+  DAILY_REROLL_LIMIT,
+  getAbandonPenalty,
+  isQuestOpen,
+  rerollQuest
+} from '../lib/questActions';
+import { fetchActiveWorldBoss, getBossHpPercent } from '../lib/worldBosses';
+import { QUEST_BOARDS, QUEST_TYPES } from '../constants/quests';
+import { QUEST_CHAINS } from '../constants/questChains';
+import { getWorldBoss } from '../constants/worldBosses';
+import QuestChainCard from '../components/QuestChainCard';
+import { QuestChain, QuestChainProgress } from '../types/questChainTypes';
+import { Quest, QuestType } from '../types/questTypes';
+import { WorldBoss } from '../types/worldBossTypes';
 
 interface Character {
   id: string;
@@ -31,32 +86,21 @@ interface Character {
   willpower: number;
 }
 
-interface Quest {
-  id: string;
-  title: string;
-  description: string;
-  type: QuestType;
-  difficulty: QuestDifficulty;
-  xpReward: number;
-  completed: boolean;
-  accepted: boolean;
-  user_id?: string;
-  created_at?: string;
-}
-
 // Database Tables:
 // 1. characters - Stores user character data
 // 2. quests - Stores all quests (active and completed)
 // 3. users - Auth users table from Supabase
 
-const QUEST_TYPES: QuestType[] = ['strength', 'speed', 'magic', 'willpower'];
-const QUEST_DIFFICULTIES = [
-  { name: 'easy', xpRange: [50, 150] },
-  { name: 'medium', xpRange: [150, 250] },
-  { name: 'hard', xpRange: [250, 400] },
-];
+// Provider is chosen by QUEST_GENERATOR in .env
+const questGenerator = createQuestGenerator();
 
-const QUEST_TYPE_ICONS = {
+// Every completed quest trains its stat a little, on top of any level-up points.
+// award_xp allows no more than this.
+const QUEST_STAT_GAIN = 1;
+
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+const QUEST_TYPE_ICONS: Record<QuestType, IconName> = {
   strength: 'arm-flex',
   speed: 'run-fast',
   magic: 'magic-staff',
@@ -70,19 +114,31 @@ const QUEST_DIFFICULTY_COLORS = {
 };
 
 export default function QuestScreen() {
-  const navigation = useNavigation<BottomTabNavigationProp<BottomTabParamList, 'Quests'>>();
+  const navigation = useNavigation<QuestScreenNavigationProp>();
   const [character, setCharacter] = useState<Character | null>(null);
   const [quests, setQuests] = useState<Quest[]>([]);
   const [completedQuests, setCompletedQuests] = useState<Quest[]>([]);
+  const [expiredQuests, setExpiredQuests] = useState<Quest[]>([]);
+  const [now, setNow] = useState(new Date());
+  // Daily period the boards were last loaded for
+  const [boardPeriodKey, setBoardPeriodKey] = useState<string | null>(null);
   const [completionStats, setCompletionStats] = useState<Record<QuestType, number>>({
     strength: 0,
     speed: 0,
     magic: 0,
     willpower: 0
   });
-  const { rewards, setRewards } = useAuth();
+  const claimableRewards = useClaimableRewards();
   const [loading, setLoading] = useState(true);
   const [generatingQuest, setGeneratingQuest] = useState(false);
+  const [questProgress, setQuestProgress] = useState<Record<string, ObjectiveProgress>>({});
+  const [chainProgress, setChainProgress] = useState<QuestChainProgress[]>([]);
+  const [chainBusy, setChainBusy] = useState(false);
+  const [rerollsUsed, setRerollsUsed] = useState(0);
+  // Quest whose reroll type picker is open
+  const [rerollPickerFor, setRerollPickerFor] = useState<string | null>(null);
+  const [questActionBusy, setQuestActionBusy] = useState(false);
+  const [worldBoss, setWorldBoss] = useState<WorldBoss | null>(null);
   const [xpAnimation] = useState(new Animated.Value(0));
   
   useEffect(() => {
@@ -90,12 +146,43 @@ export default function QuestScreen() {
   }, []);
   
   useEffect(() => {
-    // Auto-generate new quests if we have fewer than 3
-    if (!loading && quests.length < 3) {
-      generateNewQuests(3 - quests.length);
+    // Rotate the boards when local midnight passes with the screen open
+    if (!loading && character && boardPeriodKey && getPeriodKey('daily', now) !== boardPeriodKey) {
+      loadQuests(character.user_id);
     }
-  }, [quests, loading]);
-  
+  }, [now, loading, character?.user_id, boardPeriodKey]);
+
+  useEffect(() => {
+    // Tick the countdowns
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    // Quests that run out of time while the screen is open expire on the spot
+    const overdue = quests.filter(q => isQuestExpired(q, now));
+    if (overdue.length === 0) return;
+
+    setQuests(quests.filter(q => !overdue.includes(q)));
+    setExpiredQuests(prev => [...prev, ...overdue.map(q => ({ ...q, status: 'expired' as const }))]);
+    expireOverdueQuests().then(({ error }) => {
+      if (error) console.error("Error expiring quests:", error);
+    });
+  }, [now, quests]);
+
+  useEffect(() => {
+    loadQuestProgress();
+  }, [quests, character?.user_id]);
+
+  useEffect(() => {
+    // Workouts are logged on the Character tab, so recheck objectives on return
+    const unsubscribe = navigation.addListener('focus', () => {
+      loadQuestProgress();
+      loadWorldBoss();
+    });
+    return unsubscribe;
+  }, [navigation, quests, character?.user_id]);
+
   useEffect(() => {
     // Update completion stats whenever completedQuests changes
     if (completedQuests.length > 0) {
@@ -129,142 +216,167 @@ export default function QuestScreen() {
         setCharacter(characterData);
       }
 
+      await Promise.all([loadQuests(user.id), loadWorldBoss()]);
+    } catch (error) {
+      console.error('Error fetching data:', error);
+      Alert.alert('Error', 'Failed to load your quest data. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadQuestProgress = async () => {
+    if (!character) return;
+
+    const { data, error } = await fetchQuestProgress(character.user_id, quests);
+    if (error) {
+      console.error("Error fetching quest progress:", error);
+      return;
+    }
+    setQuestProgress(data || {});
+  };
+
+  const loadWorldBoss = async () => {
+    const { data, error } = await fetchActiveWorldBoss();
+    if (error) {
+      console.error("Error fetching world boss:", error);
+      return;
+    }
+    setWorldBoss(data);
+  };
+
+  // Level, stats, gear, history, streak and goals for the Dungeon Master.
+  // Takes the user id rather than reading `character`, which may not be set
+  // yet when loadQuests runs straight after the character is fetched.
+  const loadQuestContext = async (userId: string) => {
+    const { data, error } = await fetchQuestContext(userId);
+    if (error) {
+      console.error("Error loading quest context:", error);
+    }
+    return data;
+  };
+
+  // Expires overdue quests, fills any empty board slots, then loads everything
+  const loadQuests = async (userId: string) => {
+    setGeneratingQuest(true);
+    try {
+      const { error: expireError } = await expireOverdueQuests();
+      if (expireError) {
+        console.error("Error expiring quests:", expireError);
+      }
+
+      console.log(`Checking quest boards with the ${questGenerator.name} generator...`);
+      const { error: boardError } = await ensureQuestBoards(userId, questGenerator, undefined, () => loadQuestContext(userId));
+      if (boardError) {
+        console.error("Error generating quest boards:", boardError);
+      }
+
       console.log("Fetching quests data...");
-      const { data: questsData, error: questsError } = await supabase
-        .from('quests')
-        .select('*')
-        .eq('user_id', user.id);
+      const [{ data: questsData, error: questsError }, { data: progressData, error: progressError }] = await Promise.all([
+        supabase.from('quests').select('*').eq('user_id', userId),
+        fetchChainProgress(userId),
+      ]);
 
       if (questsError) {
         console.error("Error fetching quests:", questsError);
+        Alert.alert('Error', 'Failed to load your quests. Please try again.');
+        return;
       }
 
-      if (!questsData || questsData.length === 0) {
-        console.log("No quests found, generating initial quests...");
-        const initialQuests = await Promise.all([generateQuest(), generateQuest(), generateQuest()]);
-        const questsWithUserId = initialQuests.map(q => ({ ...q, user_id: user.id }));
-        
-        const { error: insertError } = await supabase
-          .from('quests')
-          .insert(questsWithUserId);
-          
-        if (insertError) {
-          console.error("Error inserting initial quests:", insertError);
-        } else {
-          console.log("Initial quests created successfully!");
-        }
-        
-        setQuests(questsWithUserId);
-      } else {
-        console.log(`Found ${questsData.length} quests, filtering active and completed...`);
-        const active = questsData.filter(q => !q.completed);
-        const done = questsData.filter(q => q.completed);
-        setQuests(active);
-        setCompletedQuests(done);
+      if (progressError) {
+        console.error("Error fetching quest chain progress:", progressError);
       }
+
+      const allQuests = (questsData || []) as Quest[];
+      const progressRows = (progressData || []) as QuestChainProgress[];
+      setChainProgress(progressRows);
+
+      // Post the next storyline step for any chain that just moved on
+      const { data: issued, error: issueError } = await issueCurrentChainSteps(userId, QUEST_CHAINS, progressRows, allQuests);
+      if (issueError) {
+        console.error("Error posting quest chain steps:", issueError);
+      } else if (issued) {
+        allQuests.push(...issued);
+      }
+
+      console.log(`Found ${allQuests.length} quests, filtering active and completed...`);
+      setQuests(allQuests.filter(isQuestOpen));
+      setRerollsUsed(countRerollsToday(allQuests));
+      setCompletedQuests(allQuests.filter(q => q.completed));
+      setExpiredQuests(allQuests.filter(q => !q.completed && q.status === 'expired'));
+      setBoardPeriodKey(getPeriodKey('daily', new Date()));
     } catch (error) {
-      console.error('Error fetching data:', error);
-      Alert.alert('Error', 'Failed to load your quest data. Please try again.');
+      console.error('Error loading quests:', error);
+      Alert.alert('Error', 'Failed to load your quests. Please try again.');
     } finally {
-      setLoading(false);
+      setGeneratingQuest(false);
     }
   };
 
-  const generateNewQuests = async (count: number) => {
-    if (generatingQuest) return;
-    setGeneratingQuest(true);
-    
+  const confirmAbandonQuest = (quest: Quest) => {
+    if (!character) return;
+    const penalty = getAbandonPenalty(quest, character);
+
+    Alert.alert(
+      'Abandon Quest?',
+      `"${quest.title}" will be dropped and a new quest will take its place on the board.${penalty > 0 ? `\n\nYou will lose ${penalty} XP.` : ''}`,
+      [
+        { text: 'Keep Quest', style: 'cancel' },
+        { text: 'Abandon', style: 'destructive', onPress: () => handleAbandonQuest(quest) }
+      ]
+    );
+  };
+
+  const handleAbandonQuest = async (quest: Quest) => {
+    if (!character) return;
+    setQuestActionBusy(true);
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-      
-      console.log(`Generating ${count} new quests...`);
-      const newQuests = [];
-      for (let i = 0; i < count; i++) {
-        const quest = await generateQuest();
-        newQuests.push({ ...quest, user_id: user.id });
-      }
-      
-      const { error: insertError } = await supabase
-        .from('quests')
-        .insert(newQuests);
-        
-      if (insertError) {
-        console.error("Error inserting new quests:", insertError);
-      } else {
-        console.log("New quests created successfully!");
-        setQuests(prev => [...prev, ...newQuests]);
+      const { data: penalty, error } = await abandonQuest(quest.id);
+      if (error) {
+        console.error("Error abandoning quest:", error);
+        Alert.alert('Error', 'Failed to abandon quest. Please try again.');
+        return;
       }
+
+      setCharacter({ ...character, xp: character.xp - (penalty || 0) });
+      await loadQuests(character.user_id);
     } catch (error) {
-      console.error('Error generating quests:', error);
-      Alert.alert('Error', 'Failed to generate new quests. Please try again.');
+      console.error("Error in handleAbandonQuest:", error);
+      Alert.alert('Error', 'Failed to abandon quest. Please try again.');
     } finally {
-      setGeneratingQuest(false);
+      setQuestActionBusy(false);
     }
   };
 
-  const generateQuest = async (): Promise<Quest> => {
-    const type = QUEST_TYPES[Math.floor(Math.random() * QUEST_TYPES.length)];
-    const difficulty = QUEST_DIFFICULTIES[Math.floor(Math.random() * QUEST_DIFFICULTIES.length)];
-    const prompt = `Create a 5-word fantasy fitness quest title and 20-word description. Type: ${type}, Difficulty: ${difficulty.name}. Return as JSON with title and description properties.`;
+  const handleRerollQuest = async (quest: Quest, type: QuestType) => {
+    if (!character) return;
+    setRerollPickerFor(null);
+    setQuestActionBusy(true);
 
     try {
-      console.log("Generating quest with OpenAI...");
-      const res = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENAI_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-3.5-turbo',
-          messages: [
-            { role: 'system', content: 'You are a quest generator for a fantasy-themed fitness RPG.' },
-            { role: 'user', content: prompt },
-          ],
-        }),
-      });
+      const context = await loadQuestContext(character.user_id);
+      const { error } = await rerollQuest(character.user_id, quest, type, questGenerator, context || undefined);
+      if (error) {
+        console.error("Error rerolling quest:", error);
+        Alert.alert('Reroll Failed', error.message || 'Failed to reroll quest. Please try again.');
+        return;
+      }
 
-      const data = await res.json();
-      const raw = data.choices[0].message.content;
-      const match = raw.match(/\{[\s\S]*\}/);
-      const parsed = match ? JSON.parse(match[0]) : {
-        title: `Epic ${type} Challenge`,
-        description: `Complete a ${difficulty.name} ${type} workout.`
-      };
-
-      console.log("Generated quest:", parsed);
-      return {
-        id: uuidv4(),
-        title: parsed.title,
-        description: parsed.description,
-        type,
-        difficulty: difficulty.name,
-        xpReward: Math.floor(Math.random() * (difficulty.xpRange[1] - difficulty.xpRange[0])) + difficulty.xpRange[0],
-        accepted: false,
-        completed: false,
-        created_at: new Date().toISOString(),
-      };
-    } catch (err) {
-      console.error('OpenAI error:', err);
-      return {
-        id: uuidv4(),
-        title: `Fallback ${type} Quest`,
-        description: `Complete a ${difficulty.name} ${type} workout.`,
-        type,
-        difficulty: difficulty.name,
-        xpReward: 100,
-        accepted: false,
-        completed: false,
-        created_at: new Date().toISOString(),
-      };
+      await loadQuests(character.user_id);
+    } catch (error) {
+      console.error("Error in handleRerollQuest:", error);
+      Alert.alert('Error', 'Failed to reroll quest. Please try again.');
+    } finally {
+      setQuestActionBusy(false);
     }
   };
 
   const acceptQuest = async (questId: string) => {
     try {
       console.log(`Accepting quest ${questId}...`);
-      const updated = quests.map(q => q.id === questId ? { ...q, accepted: true } : q);
+      // The server stamps the real accepted_at; this keeps progress right until the next load
+      const updated = quests.map(q => q.id === questId ? { ...q, accepted: true, accepted_at: new Date().toISOString() } : q);
       setQuests(updated);
       
       const quest = updated.find(q => q.id === questId);
@@ -294,34 +406,49 @@ export default function QuestScreen() {
       console.log(`Completing quest ${questId}...`);
       const quest = quests.find(q => q.id === questId);
       if (!quest) return;
+
+      if (isQuestExpired(quest)) {
+        Alert.alert('Quest Expired', 'This quest ran out of time. No XP is awarded for expired quests.');
+        setNow(new Date());
+        return;
+      }
+
+      const progress = questProgress[quest.id];
+      if (quest.objective && !progress?.complete) {
+        Alert.alert(
+          'Objective Not Met',
+          `Log workouts to finish this quest: ${describeObjective(quest.objective)}.${progress ? `\n\nProgress: ${formatObjectiveProgress(quest.objective, progress)}` : ''}`
+        );
+        return;
+      }
       
-      // Calculate XP based on character class bonus (same as CharacterScreen)
-      const isClassSpecialty = quest.type === getClassSpecialty(character.class);
-      const xpGain = isClassSpecialty ? Math.floor(quest.xpReward * 1.2) : quest.xpReward;
-      
-      console.log(`XP Gain: ${xpGain} (${isClassSpecialty ? '20% class bonus applied' : 'no bonus'})`);
-      const newXP = character.xp + xpGain;
-      
-      // Calculate level using same formula as CharacterScreen
-      const xpForNextLevel = character.level * 1000;
-      const currentLevel = character.level;
-      const newLevel = Math.floor(newXP / 1000) + 1;
-      const didLevelUp = newLevel > currentLevel;
-      
-      // Create updates object for character
-      const characterUpdates: Partial<Character> = {
-        xp: newXP,
-        level: newLevel,
-      };
-      
-      // If level up, increase the stat based on quest type
-      if (didLevelUp) {
-        characterUpdates[quest.type] = character[quest.type] + 1;
+      // The award_xp RPC marks the quest completed and pays out in one transaction
+      console.log("Awarding quest XP...");
+      const streaks = await fetchStreakSummary(character.user_id);
+      const legacyTraitIds = await fetchLegacyTraitIds(character.user_id);
+      const beatTheClock = qualifiesForEarlyBonus(quest);
+      const { data: award, error: awardError } = await awardXp(character, {
+        source: 'quest',
+        sourceId: quest.id,
+        statType: quest.type,
+        baseXp: getQuestBaseXp(quest),
+        statGain: QUEST_STAT_GAIN,
+        multiplier: streaks?.multiplier,
+        legacyMultiplier: getLegacyXpMultiplier(legacyTraitIds, quest.type),
+      });
+        
+      if (awardError || !award) {
+        console.error("Error completing quest:", awardError);
+        Alert.alert('Error', 'Failed to complete quest. Please try again.');
+        return;
       }
       
+      const progression = award.result;
+      console.log(`XP Gain: ${progression.xpDelta} (${progression.classBonusApplied ? 'class bonus applied' : 'no bonus'})`);
+      
       // Animate XP gain
       Animated.timing(xpAnimation, {
-        toValue: Math.min(1, newXP / xpForNextLevel),
+        toValue: getLevelProgress(progression.newXp).percent / 100,
         duration: 1000,
         useNativeDriver: false,
       }).start();
@@ -330,56 +457,25 @@ export default function QuestScreen() {
       const updatedQuests = quests.filter(q => q.id !== questId);
       setQuests(updatedQuests);
       setCompletedQuests([...completedQuests, { ...quest, completed: true }]);
-      
-      // Update database: mark quest as completed
-      console.log("Updating quest in database...");
-      const { error: questError } = await supabase
-        .from('quests')
-        .update({ completed: true })
-        .eq('id', questId);
-        
-      if (questError) {
-        console.error("Error updating quest:", questError);
-        Alert.alert('Error', 'Failed to complete quest. Please try again.');
-        return;
-      }
-      
-      // Update database: update character
-      console.log("Updating character in database...");
-      const { data: updatedCharacter, error: characterError } = await supabase
-        .from('characters')
-        .update(characterUpdates)
-        .eq('user_id', character.user_id)
-        .select();
-        
-      if (characterError) {
-        console.error("Error updating character:", characterError);
-        Alert.alert('Error', 'Failed to update character. Please try again.');
-        return;
-      }
-      
-      // Update local character state with returned data
-      if (updatedCharacter && updatedCharacter.length > 0) {
-        console.log("Character updated successfully:", updatedCharacter[0]);
-        setCharacter(updatedCharacter[0]);
-      } else {
-        // Fallback to local update if no data returned
-        const localCharacterUpdate = { ...character, ...characterUpdates };
-        setCharacter(localCharacterUpdate);
+      setCharacter({ ...character, ...award.character });
+
+      // Completing a storyline step unlocks the next one
+      if (quest.chain_id) {
+        loadQuests(character.user_id);
       }
       
       // Show level up notification
-      if (didLevelUp) {
+      const statText = formatStatChanges(progression.statChanges);
+      if (progression.levelUps.length > 0) {
         Alert.alert(
           'Level Up!', 
-          `Congratulations! You are now level ${newLevel}! Your ${quest.type} increased by 1.`,
+          `Congratulations! You are now level ${progression.newLevel}!\n\n${formatLevelUps(progression.levelUps)}${statText ? `\n\n${statText}` : ''}`,
           [{ text: 'Awesome!', style: 'default' }]
         );
       } else {
-        const remaining = xpForNextLevel - newXP;
         Alert.alert(
           'Quest Completed!', 
-          `+${xpGain} XP ${isClassSpecialty ? '(includes class bonus)' : ''}\n\n${remaining} XP until level ${currentLevel + 1}`,
+          `+${progression.xpDelta} XP ${progression.classBonusApplied ? '(includes class bonus)' : ''}${progression.multiplier > 1 ? ` 🔥 x${progression.multiplier} streak` : ''}${beatTheClock ? ` ⏱ beat the clock x${EARLY_FINISH_BONUS}` : ''}${statText ? `\n${statText}` : ''}\n\n${formatNextLevel(progression)}`,
           [{ text: 'Continue!', style: 'default' }]
         );
       }
@@ -389,33 +485,190 @@ export default function QuestScreen() {
     }
   };
 
-  // Helper function to get class specialty stat
-  const getClassSpecialty = (className: string): QuestType => {
-    switch (className) {
-      case 'Warrior': return 'strength';
-      case 'Rogue': return 'speed';
-      case 'Mage': return 'magic';
-      case 'Monk': return 'willpower';
-      default: return 'strength';
+  const startChain = async (chain: QuestChain) => {
+    if (!character) return;
+    setChainBusy(true);
+
+    try {
+      const { error } = await startQuestChain(character.user_id, chain);
+      if (error) {
+        console.error("Error starting quest chain:", error);
+        Alert.alert('Error', 'Failed to begin this storyline. Please try again.');
+        return;
+      }
+      await loadQuests(character.user_id);
+    } catch (error) {
+      console.error("Error in startChain:", error);
+      Alert.alert('Error', 'Failed to begin this storyline. Please try again.');
+    } finally {
+      setChainBusy(false);
     }
   };
 
-  const xpToNextLevel = (level: number) => level * 1000;
-  
+  const claimChainReward = async (chain: QuestChain, progress: QuestChainProgress) => {
+    if (!character) return;
+    setChainBusy(true);
+
+    try {
+      const finalStep = chain.steps[chain.steps.length - 1];
+      const { data: award, error } = await awardXp(character, {
+        source: 'chain',
+        sourceId: progress.id,
+        statType: finalStep.type,
+        baseXp: getChainRewardXp(completedQuests.filter(q => q.chain_id === chain.id)),
+      });
+
+      if (error || !award) {
+        console.error("Error claiming quest chain reward:", error);
+        Alert.alert('Error', 'Failed to claim the storyline reward. Please try again.');
+        return;
+      }
+
+      setCharacter({ ...character, ...award.character });
+      setChainProgress(prev => prev.map(p => p.id === progress.id ? { ...p, reward_claimed_at: new Date().toISOString() } : p));
+
+      const progression = award.result;
+      Alert.alert(
+        'Storyline Complete!',
+        `${chain.epilogue}\n\n+${progression.xpDelta} XP${progression.levelUps.length > 0 ? `\n\n${formatLevelUps(progression.levelUps)}` : ''}`
+      );
+    } catch (error) {
+      console.error("Error in claimChainReward:", error);
+      Alert.alert('Error', 'Failed to claim the storyline reward. Please try again.');
+    } finally {
+      setChainBusy(false);
+    }
+  };
+
+  const renderQuestCard = (quest: Quest) => (
+    <LinearGradient 
+      key={quest.id} 
+      colors={QUEST_DIFFICULTY_COLORS[quest.difficulty]} 
+      start={{x: 0, y: 0}} 
+      end={{x: 1, y: 0}}
+      style={styles.questBorder}
+    >
+      <View style={styles.questCard}>
+        <View style={styles.questHeader}>
+          <View style={styles.questTitleContainer}>
+            <MaterialCommunityIcons 
+              name={getQuestIconName(quest.type)} 
+              size={20} 
+              color={QUEST_DIFFICULTY_COLORS[quest.difficulty][0]} 
+            />
+            <Text style={styles.questTitle}>{quest.title}</Text>
+          </View>
+          <View style={styles.xpBadge}>
+            <Text style={styles.xpBadgeText}>
+              +{applyClassBonus(character.class, quest.type, quest.xpReward)} XP
+              {getClassXpMultiplier(character.class, quest.type) > 1 && 
+                <Text style={styles.bonusIndicator}> ★</Text>}
+            </Text>
+          </View>
+        </View>
+        
+        <Text style={styles.questText}>{quest.description}</Text>
+
+        {getTimeRemaining(quest, now) !== null && (
+          <View style={styles.timerRow}>
+            <MaterialCommunityIcons name="timer-sand" size={14} color="#aaa" />
+            <Text style={styles.timerText}>{formatCountdown(getTimeRemaining(quest, now) || 0)} left</Text>
+            {qualifiesForEarlyBonus(quest, now) && (
+              <Text style={styles.earlyBonusText}>
+                {' '}• x{EARLY_FINISH_BONUS} XP for {formatCountdown(getEarlyFinishCutoff(quest)!.getTime() - now.getTime())}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {quest.objective && (
+          <View style={styles.objectiveContainer}>
+            <View style={styles.objectiveHeader}>
+              <MaterialCommunityIcons name="target" size={16} color="#ffd700" />
+              <Text style={styles.objectiveText}>{describeObjective(quest.objective)}</Text>
+            </View>
+            {quest.accepted && (
+              <>
+                <View style={styles.objectiveBarOuter}>
+                  <View style={[styles.objectiveBarInner, { width: `${questProgress[quest.id]?.percent || 0}%` }]} />
+                </View>
+                <Text style={styles.objectiveProgressText}>
+                  {questProgress[quest.id]
+                    ? formatObjectiveProgress(quest.objective, questProgress[quest.id])
+                    : 'Checking your logged workouts...'}
+                </Text>
+              </>
+            )}
+          </View>
+        )}
+        
+        <View style={styles.questFooter}>
+          <View style={styles.questMetaContainer}>
+            <View style={[styles.difficultyBadge, { backgroundColor: QUEST_DIFFICULTY_COLORS[quest.difficulty][0] }]}>
+              <Text style={styles.difficultyText}>{quest.difficulty}</Text>
+            </View>
+            <Text style={styles.questType}>{quest.type}</Text>
+          </View>
+          
+          <TouchableOpacity
+            style={[
+              styles.button,
+              quest.accepted ? styles.complete : styles.accept,
+              quest.accepted && quest.objective && !questProgress[quest.id]?.complete && styles.buttonLocked
+            ]}
+            onPress={() => quest.accepted ? completeQuest(quest.id) : acceptQuest(quest.id)}
+          >
+            <Text style={styles.buttonText}>
+              {quest.accepted ? 'Complete' : 'Accept'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {canDropQuest(quest) && (
+          <View style={styles.questActions}>
+            {canRerollQuest(quest) && (
+              <TouchableOpacity
+                style={styles.questAction}
+                onPress={() => setRerollPickerFor(rerollPickerFor === quest.id ? null : quest.id)}
+                disabled={questActionBusy || rerollsUsed >= DAILY_REROLL_LIMIT}
+              >
+                <MaterialCommunityIcons name="dice-5" size={16} color={rerollsUsed >= DAILY_REROLL_LIMIT ? '#666' : '#aaa'} />
+                <Text style={[styles.questActionText, rerollsUsed >= DAILY_REROLL_LIMIT && styles.questActionDisabled]}>Reroll</Text>
+              </TouchableOpacity>
+            )}
+            {quest.accepted && (
+              <TouchableOpacity style={styles.questAction} onPress={() => confirmAbandonQuest(quest)} disabled={questActionBusy}>
+                <MaterialCommunityIcons name="flag-remove" size={16} color="#aaa" />
+                <Text style={styles.questActionText}>Abandon</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {rerollPickerFor === quest.id && canRerollQuest(quest) && (
+          <View style={styles.rerollPicker}>
+            <Text style={styles.rerollPickerLabel}>Swap for a {quest.difficulty} quest of type:</Text>
+            <View style={styles.rerollTypes}>
+              {QUEST_TYPES.map(type => (
+                <TouchableOpacity key={type} style={styles.rerollType} onPress={() => handleRerollQuest(quest, type)}>
+                  <MaterialCommunityIcons name={getQuestIconName(type)} size={18} color="#ffd700" />
+                  <Text style={styles.rerollTypeText}>{type}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+      </View>
+    </LinearGradient>
+  );
+
   const getQuestIconName = (type: QuestType) => {
     return QUEST_TYPE_ICONS[type] || 'help-circle';
   };
   
   const getCompletionPercentage = () => {
     if (!character) return 0;
-    
-    // Calculate percentage using the same formula as CharacterScreen
-    const xpForCurrentLevel = (character.level - 1) * 1000;
-    const xpForNextLevel = character.level * 1000;
-    const xpInCurrentLevel = character.xp - xpForCurrentLevel;
-    const xpPercentage = (xpInCurrentLevel / 1000) * 100;
-    
-    return xpPercentage;
+    return getLevelProgress(character.xp).percent;
   };
 
   if (loading) {
@@ -431,10 +684,8 @@ export default function QuestScreen() {
   }
 
   // Calculate XP info for display (matching CharacterScreen)
-  const xpForCurrentLevel = (character.level - 1) * 1000;
-  const xpForNextLevel = character.level * 1000;
-  const xpInCurrentLevel = character.xp - xpForCurrentLevel;
-  const remaining = xpForNextLevel - character.xp;
+  const levelProgress = getLevelProgress(character.xp);
+  const characterClass = getCharacterClass(character.class);
 
   return (
       <LinearGradient 
@@ -459,7 +710,9 @@ export default function QuestScreen() {
             
             <View style={styles.xpContainer}>
               <Text style={styles.xpText}>
-                {xpInCurrentLevel} / 1000 XP • {remaining} until next level
+                {levelProgress.isMaxLevel
+                  ? `Max level reached • ${levelProgress.xpIntoLevel} bonus XP`
+                  : `${levelProgress.xpIntoLevel} / ${levelProgress.xpForLevel} XP • ${levelProgress.xpToNextLevel} until next level`}
               </Text>
               <View style={styles.barOuter}>
                 <Animated.View 
@@ -498,76 +751,113 @@ export default function QuestScreen() {
           {/* Quests Section */}
           <View style={styles.sectionHeader}>
             <MaterialCommunityIcons name="sword" size={22} color="#ffd700" />
-            <Text style={styles.sectionTitle}>Active Quests</Text>
+            <Text style={styles.sectionTitle}>Quest Boards</Text>
           </View>
+          <Text style={styles.rerollsLeft}>
+            Rerolls left today: {Math.max(0, DAILY_REROLL_LIMIT - rerollsUsed)}/{DAILY_REROLL_LIMIT}
+          </Text>
           
           {generatingQuest && (
             <View style={styles.generatingIndicator}>
               <ActivityIndicator size="small" color="#ffd700" />
-              <Text style={styles.generatingText}>Summoning new quest...</Text>
+              <Text style={styles.generatingText}>Posting new quests to the board...</Text>
             </View>
           )}
           
-          {quests.map(quest => (
-            <LinearGradient 
-              key={quest.id} 
-              colors={QUEST_DIFFICULTY_COLORS[quest.difficulty]} 
-              start={{x: 0, y: 0}} 
-              end={{x: 1, y: 0}}
-              style={styles.questBorder}
-            >
-              <View style={styles.questCard}>
-                <View style={styles.questHeader}>
-                  <View style={styles.questTitleContainer}>
-                    <MaterialCommunityIcons 
-                      name={getQuestIconName(quest.type)} 
-                      size={20} 
-                      color={QUEST_DIFFICULTY_COLORS[quest.difficulty][0]} 
-                    />
-                    <Text style={styles.questTitle}>{quest.title}</Text>
-                  </View>
-                  <View style={styles.xpBadge}>
-                    <Text style={styles.xpBadgeText}>
-                      +{quest.type === getClassSpecialty(character.class) ? 
-                        Math.floor(quest.xpReward * 1.2) : 
-                        quest.xpReward} XP
-                      {quest.type === getClassSpecialty(character.class) && 
-                        <Text style={styles.bonusIndicator}> ★</Text>}
-                    </Text>
-                  </View>
-                </View>
-                
-                <Text style={styles.questText}>{quest.description}</Text>
-                
-                <View style={styles.questFooter}>
-                  <View style={styles.questMetaContainer}>
-                    <View style={[styles.difficultyBadge, { backgroundColor: QUEST_DIFFICULTY_COLORS[quest.difficulty][0] }]}>
-                      <Text style={styles.difficultyText}>{quest.difficulty}</Text>
-                    </View>
-                    <Text style={styles.questType}>{quest.type}</Text>
-                  </View>
-                  
-                  <TouchableOpacity
-                    style={[styles.button, quest.accepted ? styles.complete : styles.accept]}
-                    onPress={() => quest.accepted ? completeQuest(quest.id) : acceptQuest(quest.id)}
-                  >
-                    <Text style={styles.buttonText}>
-                      {quest.accepted ? 'Complete' : 'Accept'}
-                    </Text>
-                  </TouchableOpacity>
+          {QUEST_BOARD_ORDER.map(board => {
+            const boardQuests = getBoardQuests(quests, board, now);
+            return (
+              <View key={board}>
+                <View style={styles.boardHeader}>
+                  <Text style={styles.boardTitle}>{QUEST_BOARDS[board].label}</Text>
+                  <Text style={styles.boardReset}>
+                    Resets in {formatCountdown(getPeriodEnd(board, now).getTime() - now.getTime())}
+                  </Text>
                 </View>
+                {boardQuests.map(renderQuestCard)}
+                {boardQuests.length === 0 && !generatingQuest && (
+                  <Text style={styles.boardEmpty}>Board cleared! New quests arrive when it resets.</Text>
+                )}
               </View>
-            </LinearGradient>
-          ))}
+            );
+          })}
+
+          {/* Quests from before boards existed */}
+          {quests.some(q => !q.board && !q.chain_id) && (
+            <View>
+              <View style={styles.boardHeader}>
+                <Text style={styles.boardTitle}>Other Quests</Text>
+              </View>
+              {quests.filter(q => !q.board && !q.chain_id).map(renderQuestCard)}
+            </View>
+          )}
 
-          <TouchableOpacity 
-            style={styles.generateButton} 
-            onPress={() => generateNewQuests(1)}
-            disabled={generatingQuest}
-          >
-            <MaterialCommunityIcons name="plus" size={20} color="#fff" />
-            <Text style={styles.buttonText}>Generate New Quest</Text>
-          </TouchableOpacity>
+          {/* Storylines Section */}
+          <View style={styles.sectionHeader}>
+            <MaterialCommunityIcons name="book-open-page-variant" size={22} color="#ffd700" />
+            <Text style={styles.sectionTitle}>Storylines</Text>
+          </View>
+
+          {QUEST_CHAINS.map(chain => {
+            const progress = chainProgress.find(p => p.chain_id === chain.id);
+            const stepQuest = progress
+              ? quests.find(q => q.chain_id === chain.id && q.chain_step === progress.current_step)
+              : undefined;
+            return (
+              <QuestChainCard
+                key={chain.id}
+                chain={chain}
+                progress={progress}
+                rewardXp={getChainRewardXp(completedQuests.filter(q => q.chain_id === chain.id))}
+                busy={chainBusy}
+                onStart={() => startChain(chain)}
+                onClaim={() => progress && claimChainReward(chain, progress)}
+              >
+                {stepQuest && renderQuestCard(stepQuest)}
+              </QuestChainCard>
+            );
+          })}
+
+          {/* Rewards waiting in the Rewards tab */}
+          {claimableRewards.length > 0 && (
+            <TouchableOpacity style={styles.claimBanner} onPress={() => navigation.navigate('Rewards')}>
+              <MaterialCommunityIcons name="gift" size={22} color="#1e1e2e" />
+              <Text style={styles.claimBannerText}>
+                {claimableRewards.length === 1
+                  ? '1 reward is ready to claim'
+                  : `${claimableRewards.length} rewards are ready to claim`}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#1e1e2e" />
+            </TouchableOpacity>
+          )}
+
+          {/* World Boss Section */}
+          {worldBoss && (
+            <>
+              <View style={styles.sectionHeader}>
+                <MaterialCommunityIcons name="skull-crossbones" size={22} color="#ffd700" />
+                <Text style={styles.sectionTitle}>World Boss</Text>
+              </View>
+
+              <TouchableOpacity style={styles.worldBossCard} onPress={() => navigation.navigate('WorldBoss')}>
+                <MaterialCommunityIcons
+                  name={(getWorldBoss(worldBoss.boss_key)?.icon || 'skull') as IconName}
+                  size={36}
+                  color={getWorldBoss(worldBoss.boss_key)?.color || '#ff6b6b'}
+                />
+                <View style={styles.worldBossInfo}>
+                  <Text style={styles.worldBossName}>{worldBoss.name}</Text>
+                  <View style={styles.worldBossBarOuter}>
+                    <View style={[styles.worldBossBarInner, { width: `${getBossHpPercent(worldBoss)}%` }]} />
+                  </View>
+                  <Text style={styles.worldBossHint}>
+                    {worldBoss.hp.toLocaleString()} HP left • Every workout strikes it
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#aaa" />
+              </TouchableOpacity>
+            </>
+          )}
 
           {/* Completion Stats Section */}
           <View style={styles.sectionHeader}>
@@ -598,15 +888,15 @@ export default function QuestScreen() {
             </View>
           </View>
           
-          {character.class && (
+          {characterClass && (
             <View style={styles.classBonus}>
               <MaterialCommunityIcons 
-                name={QUEST_TYPE_ICONS[getClassSpecialty(character.class)]} 
+                name={QUEST_TYPE_ICONS[characterClass.specialty]} 
                 size={20} 
                 color="#ffd700" 
               />
               <Text style={styles.classBonusText}>
-                {character.class} Bonus: +20% XP for {getClassSpecialty(character.class)} quests
+                {characterClass.name} Bonus: {formatClassBonus(characterClass)} on quests
               </Text>
             </View>
           )}
@@ -614,6 +904,16 @@ export default function QuestScreen() {
           <Text style={styles.totalCompletions}>
             Total Quests Completed: {completedQuests.length}
           </Text>
+          {expiredQuests.length > 0 && (
+            <Text style={styles.totalCompletions}>
+              Quests Expired: {expiredQuests.length}
+            </Text>
+          )}
+
+          <TouchableOpacity style={styles.journalButton} onPress={() => navigation.navigate('Journal')}>
+            <MaterialCommunityIcons name="book-open-variant" size={20} color="#1e1e2e" />
+            <Text style={styles.journalButtonText}>Read Your Adventure Journal</Text>
+          </TouchableOpacity>
         </ScrollView>
       </LinearGradient>
   );
@@ -721,6 +1021,42 @@ const styles = StyleSheet.create({
     fontSize: 12,
   },
   
+  // World Boss
+  worldBossCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 107, 107, 0.4)',
+  },
+  worldBossInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  worldBossName: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  worldBossBarOuter: {
+    height: 8,
+    backgroundColor: '#444',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  worldBossBarInner: {
+    height: '100%',
+    backgroundColor: '#ff6b6b',
+  },
+  worldBossHint: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 6,
+  },
+
   // Section Headers
   sectionHeader: {
     flexDirection: 'row',
@@ -783,6 +1119,20 @@ const styles = StyleSheet.create({
     marginVertical: 8,
     lineHeight: 20,
   },
+  timerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  timerText: {
+    color: '#aaa',
+    fontSize: 12,
+    marginLeft: 4,
+  },
+  earlyBonusText: {
+    color: '#ffd700',
+    fontSize: 12,
+  },
   questFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -830,22 +1180,117 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
-  
-  // Generate Button
-  generateButton: { 
-    backgroundColor: '#6a4c93', 
+  buttonLocked: {
+    opacity: 0.5,
+  },
+
+  // Quest Objective
+  objectiveContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 4,
+  },
+  objectiveHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  objectiveText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
+  objectiveBarOuter: {
+    height: 8,
+    backgroundColor: '#444',
+    borderRadius: 4,
     marginTop: 8,
-    marginBottom: 24,
-    padding: 16, 
-    borderRadius: 24, 
+    overflow: 'hidden',
+  },
+  objectiveBarInner: {
+    height: '100%',
+    backgroundColor: '#2a9d8f',
+    borderRadius: 4,
+  },
+  objectiveProgressText: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  
+  // Abandon and Reroll
+  questActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 10,
+  },
+  questAction: {
+    flexDirection: 'row',
     alignItems: 'center',
+    marginLeft: 16,
+  },
+  questActionText: {
+    color: '#aaa',
+    fontSize: 13,
+    marginLeft: 4,
+  },
+  questActionDisabled: {
+    color: '#666',
+  },
+  rerollPicker: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  rerollPickerLabel: {
+    color: '#ddd',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  rerollTypes: {
     flexDirection: 'row',
-    justifyContent: 'center',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.3,
-    shadowRadius: 4,
-    elevation: 3,
+    justifyContent: 'space-between',
+  },
+  rerollType: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  rerollTypeText: {
+    color: '#ddd',
+    fontSize: 12,
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  rerollsLeft: {
+    color: '#aaa',
+    fontSize: 12,
+    marginTop: -8,
+    marginBottom: 12,
+  },
+
+  // Quest Boards
+  boardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  boardTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  boardReset: {
+    color: '#aaa',
+    fontSize: 12,
+  },
+  boardEmpty: {
+    color: '#aaa',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginBottom: 16,
   },
   
   // Generating Indicator
@@ -886,6 +1331,34 @@ const styles = StyleSheet.create({
     marginTop: 8,
     fontSize: 14,
   },
+  claimBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffd700',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 16,
+  },
+  claimBannerText: {
+    flex: 1,
+    color: '#1e1e2e',
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+  journalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ffd700',
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginTop: 16,
+  },
+  journalButtonText: {
+    color: '#1e1e2e',
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   
   // Class Bonus
   classBonus: {
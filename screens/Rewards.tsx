@@ -5,35 +5,36 @@ import {
   StyleSheet, 
   ScrollView, 
   TouchableOpacity, 
-  ActivityIndicator 
+  ActivityIndicator,
+  Alert
 } from 'react-native';
-import { useAuth } from '../app/AuthProvider';
+import { useRewards } from '../app/RewardsProvider';
 import { OPENAI_KEY } from '@env';
 import { supabase } from '../app/supabase';
 import { LinearGradient } from 'expo-linear-gradient';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
-
-// Types
-type QuestType = 'strength' | 'speed' | 'magic' | 'willpower';
-
-interface Reward {
-  id?: string;
-  title: string;
-  description: string;
-  type: QuestType;
-  requirement: number;
-  difficulty: 'bronze' | 'silver' | 'gold';
-  earned?: boolean;
-  user_id?: string;
-  date_earned?: string | null;
-}
-
-interface CompletedQuest {
-  id: string;
-  type: QuestType;
-  completed: boolean;
-  user_id: string;
-}
+import {
+  describeCondition,
+  fetchAchievementStats,
+  formatConditionProgress,
+  getConditionProgress,
+  getRewardCondition,
+  parseCondition
+} from '../lib/achievements';
+import {
+  claimReward,
+  describeRewardPayload,
+  fetchActiveBoosts,
+  formatBoost,
+  formatClaimResult,
+  getRewardPayload,
+  hasClaimsLeftToday,
+  isRewardClaimable,
+  REWARD_CLAIMS_PER_DAY
+} from '../lib/rewards';
+import { isStatType } from '../lib/progression';
+import { AchievementStats } from '../types/achievementTypes';
+import { CharacterBoost, NewReward, Reward } from '../types/rewardTypes';
 
 const TYPE_COLORS = {
   strength: ['#FF5252', '#D32F2F'],
@@ -56,11 +57,13 @@ const TYPE_ICONS = {
 };
 
 export default function RewardsScreen() {
-  const { rewards, setRewards } = useAuth();
-  const [availableRewards, setAvailableRewards] = useState<Reward[]>([]);
-  const [completedQuests, setCompletedQuests] = useState<CompletedQuest[]>([]);
+  // Shared with the rest of the app through the rewards store
+  const { rewards: availableRewards, setRewards: setAvailableRewards, refreshRewards, checkRewards } = useRewards();
+  const [stats, setStats] = useState<AchievementStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [boosts, setBoosts] = useState<CharacterBoost[]>([]);
   const [questCounts, setQuestCounts] = useState({
     strength: 0,
     speed: 0,
@@ -84,40 +87,29 @@ export default function RewardsScreen() {
         return;
       }
 
-      // Fetch completed quests
-      console.log("Fetching completed quests...");
-      const { data: questsData, error: questsError } = await supabase
-        .from('quests')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('completed', true);
+      // Quest counts, XP, level, streaks, recent workouts and guild events
+      console.log("Fetching achievement stats...");
+      const { data: statsData, error: statsError } = await fetchAchievementStats(user.id);
 
-      if (questsError) {
-        console.error("Error fetching quests:", questsError);
+      if (statsError) {
+        console.error("Error fetching achievement stats:", statsError);
       }
 
-      if (questsData) {
-        console.log(`Found ${questsData.length} completed quests`);
-        setCompletedQuests(questsData);
-        
-        // Count completed quests by type
-        const counts = questsData.reduce((acc, quest) => {
-          if (quest.type) {
-            acc[quest.type] = (acc[quest.type] || 0) + 1;
-          }
-          return acc;
-        }, { strength: 0, speed: 0, magic: 0, willpower: 0 } as Record<QuestType, number>);
-        
-        console.log("Quest counts by type:", counts);
-        setQuestCounts(counts);
+      if (statsData) {
+        console.log("Quest counts by type:", statsData.questCounts);
+        setStats(statsData);
+        setQuestCounts(statsData.questCounts);
+      }
+
+      const { data: boostsData, error: boostsError } = await fetchActiveBoosts(user.id);
+      if (boostsError) {
+        console.error("Error fetching boosts:", boostsError);
       }
+      setBoosts(boostsData || []);
 
       // Fetch rewards
       console.log("Fetching rewards...");
-      const { data: rewardsData, error: rewardsError } = await supabase
-        .from('rewards')
-        .select('*')
-        .eq('user_id', user.id);
+      const { data: rewardsData, error: rewardsError } = await refreshRewards();
 
       if (rewardsError) {
         console.error("Error fetching rewards:", rewardsError);
@@ -153,16 +145,10 @@ export default function RewardsScreen() {
           setAvailableRewards(insertedRewards);
         } else {
           // Fallback if no data returned
-          setAvailableRewards(initialRewards);
+          await refreshRewards();
         }
       } else {
         console.log(`Found ${rewardsData.length} existing rewards`);
-        setAvailableRewards(rewardsData);
-        
-        // Set rewards in auth context
-        const earnedRewards = rewardsData.filter(r => r.earned || r.date_earned);
-        console.log(`Found ${earnedRewards.length} earned rewards`);
-        setRewards(earnedRewards);
       }
 
       // Check if we need to generate more rewards
@@ -181,128 +167,57 @@ export default function RewardsScreen() {
     }
   };
 
-  // Check if rewards should be earned
+  // Newly met conditions are marked by the rewards store, which queues the
+  // celebration; the same check runs after XP is earned anywhere in the app
   useEffect(() => {
-    if (completedQuests.length > 0 && availableRewards.length > 0) {
-      checkForNewRewards();
+    if (stats) {
+      checkRewards();
     }
-  }, [completedQuests, availableRewards]);
-
-  const checkForNewRewards = async () => {
-    try {
-      console.log("Checking for new rewards based on quest completion...");
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        console.error("No authenticated user found");
-        return;
-      }
-
-      const updatedRewards = [...availableRewards];
-      let newEarned = false;
-
-      // For each reward, check if requirements are met
-      for (let i = 0; i < updatedRewards.length; i++) {
-        const reward = updatedRewards[i];
-        if (reward.date_earned) continue; // Skip already earned rewards
-        
-        // Check if the quest count for this type meets or exceeds the requirement
-        if (questCounts[reward.type] >= reward.requirement) {
-          console.log(`Requirements met for reward: ${reward.title}`);
-          
-          // Update the reward in the database
-          const { data: updatedReward, error: updateError } = await supabase
-            .from('rewards')
-            .update({ 
-              earned: true, 
-              date_earned: new Date().toISOString() 
-            })
-            .eq('id', reward.id)
-            .select();
-            
-          if (updateError) {
-            console.error("Error updating reward:", updateError);
-            continue;
-          }
-          
-          if (updatedReward && updatedReward.length > 0) {
-            console.log("Reward updated successfully:", updatedReward[0]);
-            updatedRewards[i] = updatedReward[0];
-          } else {
-            // Fallback to local update if no data returned
-            updatedRewards[i] = {
-              ...reward,
-              earned: true,
-              date_earned: new Date().toISOString()
-            };
-          }
-          
-          newEarned = true;
-            
-          // Show celebration alert
-          // Alert.alert(
-          //   '🎉 Reward Earned!',
-          //   `Congratulations! You've earned "${reward.title}"`,
-          //   [{ text: 'Awesome!', style: 'default' }]
-          // );
-        }
-      }
-
-      if (newEarned) {
-        console.log("Updating rewards state with newly earned rewards");
-        setAvailableRewards(updatedRewards);
-        
-        // Update the rewards in context
-        const earnedRewards = updatedRewards.filter(r => r.earned || r.date_earned);
-        console.log(`Setting ${earnedRewards.length} earned rewards in context`);
-        setRewards(earnedRewards);
-      }
-    } catch (error) {
-      console.error('Error checking rewards:', error);
-    }
-  };
+  }, [stats]);
 
   // Generate initial rewards
-  const generateInitialRewards = (userId: string): Reward[] => {
+  const generateInitialRewards = (userId: string): NewReward[] => {
     console.log("Generating initial rewards...");
     return [
       {
         title: 'Strength Novice',
         description: 'Complete 3 strength quests to prove your physical prowess.',
         type: 'strength',
-        requirement: 3,
-        difficulty: 'bronze',
-        earned: false,
-        date_earned: null,
+        condition: { type: 'quest_count', questType: 'strength', count: 3 },
         user_id: userId
       },
       {
         title: 'Speed Seeker',
         description: 'Finish 3 speed quests and demonstrate your agility.',
         type: 'speed',
-        requirement: 3,
-        difficulty: 'bronze',
-        earned: false,
-        date_earned: null,
+        condition: { type: 'quest_count', questType: 'speed', count: 3 },
         user_id: userId
       },
       {
         title: 'Magic Apprentice',
         description: 'Master 3 magic quests to harness your inner power.',
         type: 'magic',
-        requirement: 3,
-        difficulty: 'bronze',
-        earned: false,
-        date_earned: null,
+        condition: { type: 'quest_count', questType: 'magic', count: 3 },
         user_id: userId
       },
       {
         title: 'Willpower Initiate',
         description: 'Complete 3 willpower quests to strengthen your mental fortitude.',
         type: 'willpower',
-        requirement: 3,
-        difficulty: 'bronze',
-        earned: false,
-        date_earned: null,
+        condition: { type: 'quest_count', questType: 'willpower', count: 3 },
+        user_id: userId
+      },
+      {
+        title: 'Steadfast Wanderer',
+        description: 'Reach level 5 while keeping a 3-day training streak alive.',
+        type: 'willpower',
+        condition: {
+          type: 'all',
+          conditions: [
+            { type: 'level', level: 5 },
+            { type: 'streak', days: 3 }
+          ]
+        },
         user_id: userId
       }
     ];
@@ -328,19 +243,30 @@ export default function RewardsScreen() {
               content: `Generate 3 fitness achievement rewards for a fantasy RPG fitness app. Each reward should include:
               - A fantasy-themed title (e.g. "Dragon's Might", "Elven Agility")
               - A brief description (20-30 words) of how to earn it
-              - A "type" field that must be one of: strength, speed, magic, willpower
-              - A "requirement" field with a number from 5-15 representing how many quests of that type to complete
-              - A "difficulty" field that must be one of: bronze, silver, gold (higher requirements should have higher difficulties)
+              - A "type" field that must be one of: strength, speed, magic, willpower (the reward's theme)
+              - A "condition" object saying how it is earned, built from these rules:
+                {"type": "quest_count", "count": number, "questType"?: "strength" | "speed" | "magic" | "willpower"}
+                {"type": "total_xp", "xp": number}
+                {"type": "level", "level": number (max 50)}
+                {"type": "streak", "days": number, "longest"?: true}
+                {"type": "workouts_in_window", "count": number, "days": number (max 90), "statType"?: "strength" | "speed" | "magic" | "willpower"}
+                {"type": "guild_events", "count": number}
+                {"type": "all" | "any", "conditions": [up to 5 conditions]}
               
               Return ONLY a raw JSON array without code blocks, explanation or commentary.
               Example format:
               [
                 {
                   "title": "Mountain Titan",
-                  "description": "Complete 7 strength quests to harness the power of ancient titans.",
+                  "description": "Complete 7 strength quests and reach level 8 to harness the power of ancient titans.",
                   "type": "strength",
-                  "requirement": 7,
-                  "difficulty": "silver"
+                  "condition": {
+                    "type": "all",
+                    "conditions": [
+                      {"type": "quest_count", "questType": "strength", "count": 7},
+                      {"type": "level", "level": 8}
+                    ]
+                  }
                 }
               ]`
             }
@@ -361,13 +287,19 @@ export default function RewardsScreen() {
       let newRewards = JSON.parse(jsonString);
       console.log(`Parsed ${newRewards.length} rewards from OpenAI`);
       
-      // Add user_id and earned status
-      newRewards = newRewards.map((reward: any) => ({
-        ...reward,
-        earned: false,
-        date_earned: null,
-        user_id: userId
-      }));
+      // Keep only rewards whose condition tree checks out, then add user_id; the
+      // server rates the difficulty, sets the loot and starts every reward unearned
+      newRewards = newRewards
+        .map((reward: any) => ({
+          title: reward.title,
+          description: reward.description,
+          type: reward.type,
+          condition: parseCondition(reward.condition),
+          user_id: userId
+        }))
+        .filter((reward: NewReward) =>
+          reward.condition && reward.title && reward.description && reward.type in TYPE_COLORS
+        );
       
       // Insert rewards one by one to avoid primary key conflicts
       let insertedRewards = [];
@@ -395,14 +327,10 @@ export default function RewardsScreen() {
         setAvailableRewards(prev => [...prev, ...insertedRewards]);
       } else {
         // Fallback if no data returned
-        const { data: freshRewards } = await supabase
-          .from('rewards')
-          .select('*')
-          .eq('user_id', userId);
+        const { data: freshRewards } = await refreshRewards();
           
         if (freshRewards) {
           console.log("Fetched fresh rewards data after insertion");
-          setAvailableRewards(freshRewards);
         }
       }
     } catch (err) {
@@ -413,11 +341,55 @@ export default function RewardsScreen() {
     }
   };
 
+  const handleClaim = async (reward: Reward) => {
+    if (!reward.id || claimingId) return;
+    if (!hasClaimsLeftToday(availableRewards)) {
+      Alert.alert(
+        'Daily Limit Reached',
+        `You can claim up to ${REWARD_CLAIMS_PER_DAY} rewards a day. This one will still be here tomorrow.`
+      );
+      return;
+    }
+    setClaimingId(reward.id);
+
+    try {
+      const { data: result, error } = await claimReward(reward.id);
+
+      if (error || !result) {
+        console.error("Error claiming reward:", error);
+        Alert.alert("Error", "The reward could not be claimed. Please try again.");
+        return;
+      }
+
+      const claimedAt = result.claimed_at;
+      setAvailableRewards(prev => prev.map(r => r.id === reward.id ? { ...r, claimed_at: claimedAt } : r));
+
+      if (result.boosts && result.boosts.length > 0 && reward.user_id) {
+        const { data: boostsData } = await fetchActiveBoosts(reward.user_id);
+        if (boostsData) setBoosts(boostsData);
+      }
+
+      Alert.alert(
+        result.already_claimed ? 'Already Claimed' : `🎁 ${reward.title} Claimed!`,
+        formatClaimResult(result)
+      );
+
+      // The claim's XP can unlock XP and level rewards
+      if (result.xp) {
+        checkRewards();
+      }
+    } catch (error) {
+      console.error("Error in handleClaim:", error);
+      Alert.alert("Error", "Something went wrong while claiming your reward.");
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
   // Debug function to log rewards data
   const logRewardsData = () => {
     console.log("Available rewards:", availableRewards);
     console.log("Earned rewards count:", availableRewards.filter(r => r.earned || r.date_earned).length);
-    console.log("Auth context rewards:", rewards);
   };
 
   // Sort rewards by earned status and difficulty
@@ -450,7 +422,7 @@ export default function RewardsScreen() {
             <Text style={styles.title}>Rewards</Text>
           </View>
           
-          <Text style={styles.subtitle}>Complete quests to earn these achievements!</Text>
+          <Text style={styles.subtitle}>Complete quests, level up and keep your streak to earn these achievements!</Text>
           
           {/* Summary Stats */}
           <View style={styles.statsContainer}>
@@ -476,6 +448,16 @@ export default function RewardsScreen() {
             </View>
           </View>
           
+          {/* Active boosts from claimed rewards */}
+          {boosts.map(boost => (
+            <View key={boost.id} style={styles.boostBanner}>
+              <MaterialCommunityIcons name="lightning-bolt" size={18} color="#ffd700" />
+              <Text style={styles.boostText}>
+                {formatBoost({ multiplier: Number(boost.multiplier), statType: isStatType(boost.stat_type) ? boost.stat_type : undefined })} active until {new Date(boost.expires_at).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })}
+              </Text>
+            </View>
+          ))}
+
           {/* Reload button */}
           <TouchableOpacity 
             style={styles.reloadButton} 
@@ -516,6 +498,9 @@ export default function RewardsScreen() {
               ) : (
                 sortedRewards.filter(r => !r.earned && !r.date_earned).map((reward, index) => {
                   const uniqueKey = `reward-in-progress-${reward.id || index}`;
+                  const condition = getRewardCondition(reward);
+                  const progress = condition && stats ? getConditionProgress(condition, stats) : null;
+                  const loot = describeRewardPayload(getRewardPayload(reward));
                   return (
                     <View 
                       key={uniqueKey}
@@ -540,17 +525,21 @@ export default function RewardsScreen() {
                         </View>
                         
                         <Text style={styles.rewardDescription}>{reward.description}</Text>
+                        <Text style={styles.lootText}>🎁 {loot.join(' • ')}</Text>
                         
                         <View style={styles.rewardFooter}>
                           <View style={styles.progressContainer}>
+                            {condition && (
+                              <Text style={styles.conditionText}>{describeCondition(condition)}</Text>
+                            )}
                             <Text style={styles.progressText}>
-                              {`${questCounts[reward.type]}/${reward.requirement} ${reward.type} quests`}
+                              {condition && progress ? formatConditionProgress(condition, progress) : 'Progress unknown'}
                             </Text>
                             <View style={styles.progressBarOuter}>
                               <View style={[
                                 styles.progressBarInner, 
                                 {
-                                  width: `${Math.min(100, (questCounts[reward.type] / reward.requirement) * 100)}%`,
+                                  width: `${Math.round((progress?.fraction || 0) * 100)}%`,
                                   backgroundColor: TYPE_COLORS[reward.type][0]
                                 }
                               ]} />
@@ -579,6 +568,8 @@ export default function RewardsScreen() {
               ) : (
                 sortedRewards.filter(r => r.earned || r.date_earned).map((reward, index) => {
                   const uniqueKey = `reward-earned-${reward.id || index}`;
+                  const loot = describeRewardPayload(getRewardPayload(reward));
+                  const claimable = isRewardClaimable(reward);
                   return (
                     <View 
                       key={uniqueKey}
@@ -603,6 +594,7 @@ export default function RewardsScreen() {
                         </View>
                         
                         <Text style={styles.rewardDescription}>{reward.description}</Text>
+                        <Text style={styles.lootText}>🎁 {loot.join(' • ')}</Text>
                         
                         <View style={styles.rewardFooter}>
                           <View style={styles.progressContainer}>
@@ -618,14 +610,31 @@ export default function RewardsScreen() {
                             </View>
                           </View>
                           
-                          <View style={styles.completedBadge}>
-                            <MaterialCommunityIcons 
-                              name="check-circle"
-                              size={18} 
-                              color="#2a9d8f"
-                            />
-                            <Text style={styles.completedText}>Earned</Text>
-                          </View>
+                          {claimable ? (
+                            <TouchableOpacity
+                              style={styles.claimButton}
+                              onPress={() => handleClaim(reward)}
+                              disabled={claimingId !== null}
+                            >
+                              {claimingId === reward.id ? (
+                                <ActivityIndicator size="small" color="#1e1e2e" />
+                              ) : (
+                                <>
+                                  <MaterialCommunityIcons name="gift" size={18} color="#1e1e2e" />
+                                  <Text style={styles.claimButtonText}>Claim</Text>
+                                </>
+                              )}
+                            </TouchableOpacity>
+                          ) : (
+                            <View style={styles.completedBadge}>
+                              <MaterialCommunityIcons 
+                                name="check-circle"
+                                size={18} 
+                                color="#2a9d8f"
+                              />
+                              <Text style={styles.completedText}>{reward.claimed_at ? 'Claimed' : 'Earned'}</Text>
+                            </View>
+                          )}
                         </View>
                       </View>
                     </View>
@@ -680,6 +689,21 @@ const styles = StyleSheet.create({
     paddingBottom: 32,
   },
   
+  // Active boosts
+  boostBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 215, 0, 0.12)',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  boostText: {
+    color: '#ffd700',
+    marginLeft: 8,
+    fontSize: 13,
+  },
+  
   // Reload button
   reloadButton: {
     backgroundColor: '#2a9d8f',
@@ -823,6 +847,11 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     lineHeight: 20,
   },
+  lootText: {
+    color: '#ffd700',
+    fontSize: 12,
+    marginBottom: 10,
+  },
   rewardFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -832,6 +861,11 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 16,
   },
+  conditionText: {
+    color: '#ddd',
+    fontSize: 12,
+    marginBottom: 4,
+  },
   progressText: {
     color: '#bbb',
     fontSize: 14,
@@ -859,6 +893,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginLeft: 4,
   },
+  claimButton: {
+    backgroundColor: '#ffd700',
+    padding: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 80,
+    justifyContent: 'center',
+  },
+  claimButtonText: {
+    color: '#1e1e2e',
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
   notEarnedBadge: {
     backgroundColor: 'rgba(230, 57, 70, 0.2)',
     padding: 8,
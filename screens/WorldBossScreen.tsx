@@ -0,0 +1,361 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
+import { useAuth } from '../app/AuthProvider';
+import { RootStackParamList } from '../types/navigation';
+import { BossContribution, BossContributor, WorldBoss } from '../types/worldBossTypes';
+import { getItem, RARITY_COLORS } from '../constants/items';
+import { getWorldBoss } from '../constants/worldBosses';
+import { formatCountdown } from '../lib/questDeadlines';
+import {
+  fetchActiveWorldBoss,
+  fetchMyContribution,
+  fetchTopContributors,
+  getBossHpPercent,
+  getBossTimeRemaining,
+  strikeWorldBoss,
+  subscribeToWorldBoss
+} from '../lib/worldBosses';
+
+type WorldBossNavigationProp = NativeStackNavigationProp<RootStackParamList, 'WorldBoss'>;
+type IconName = React.ComponentProps<typeof MaterialCommunityIcons>['name'];
+
+export default function WorldBossScreen() {
+  const navigation = useNavigation<WorldBossNavigationProp>();
+  const { user } = useAuth();
+  const [boss, setBoss] = useState<WorldBoss | null>(null);
+  const [contributors, setContributors] = useState<BossContributor[]>([]);
+  const [myContribution, setMyContribution] = useState<BossContribution | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadContributors = useCallback(async (bossId: string) => {
+    const { data, error } = await fetchTopContributors(bossId);
+    if (error) {
+      console.error("Error fetching boss contributors:", error);
+      return;
+    }
+    setContributors(data || []);
+  }, []);
+
+  useEffect(() => {
+    const loadBoss = async () => {
+      if (!user) return;
+
+      try {
+        // Workouts logged since the boss appeared count even if their strike was missed
+        const { error: strikeError } = await strikeWorldBoss();
+        if (strikeError) {
+          console.error("Error striking world boss:", strikeError);
+        }
+
+        const { data, error } = await fetchActiveWorldBoss();
+        if (error || !data) {
+          console.error("Error fetching world boss:", error);
+          Alert.alert("Error", "The world boss could not be found. Please try again.");
+          return;
+        }
+
+        setBoss(data);
+        const [{ data: mine }] = await Promise.all([
+          fetchMyContribution(data.id, user.id),
+          loadContributors(data.id),
+        ]);
+        setMyContribution(mine || null);
+      } catch (error) {
+        console.error("Error in loadBoss:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBoss();
+  }, [user, loadContributors]);
+
+  // Live HP and contributor board
+  useEffect(() => {
+    if (!boss?.id) return;
+
+    return subscribeToWorldBoss(
+      boss.id,
+      updated => setBoss(updated),
+      contribution => {
+        if (contribution.user_id === user?.id) {
+          setMyContribution(contribution);
+        }
+        loadContributors(contribution.boss_id);
+      }
+    );
+  }, [boss?.id, user?.id, loadContributors]);
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ffd700" />
+        <Text style={styles.loadingText}>Tracking the beast...</Text>
+      </View>
+    );
+  }
+
+  const info = boss ? getWorldBoss(boss.boss_key) : undefined;
+  const loot = boss ? getItem(boss.loot_item_id) : undefined;
+  const hpPercent = boss ? getBossHpPercent(boss) : 0;
+  const bossColor = info?.color || '#ff6b6b';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>World Boss</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!boss ? (
+        <Text style={styles.emptyText}>No boss roams the realm right now. Check back soon.</Text>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scroll}>
+          <View style={[styles.bossCard, { borderColor: bossColor }]}>
+            <MaterialCommunityIcons name={(info?.icon || 'skull') as IconName} size={64} color={bossColor} />
+            <Text style={styles.bossName}>{boss.name}</Text>
+            <Text style={styles.bossLore}>
+              {boss.status === 'defeated' ? info?.defeatText : info?.lore}
+            </Text>
+
+            <View style={styles.hpBarOuter}>
+              <View style={[styles.hpBarInner, { width: `${hpPercent}%`, backgroundColor: bossColor }]} />
+            </View>
+            <Text style={styles.hpText}>
+              {boss.hp.toLocaleString()} / {boss.max_hp.toLocaleString()} HP
+            </Text>
+
+            {boss.status === 'active' && (
+              <Text style={styles.timeText}>
+                Escapes in {formatCountdown(getBossTimeRemaining(boss, now))}
+              </Text>
+            )}
+            {boss.status === 'defeated' && (
+              <Text style={[styles.statusText, styles.defeatedText]}>Defeated! Loot has been shared out.</Text>
+            )}
+            {boss.status === 'escaped' && (
+              <Text style={[styles.statusText, styles.escapedText]}>It escaped before the realm could bring it down.</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Your Damage</Text>
+            <Text style={styles.myDamage}>{(myContribution?.damage || 0).toLocaleString()}</Text>
+            <Text style={styles.cardHint}>
+              {myContribution
+                ? `${myContribution.hits} ${myContribution.hits === 1 ? 'workout' : 'workouts'} landed`
+                : 'Log a workout to strike. Every point of workout XP is a point of damage.'}
+            </Text>
+          </View>
+
+          {loot && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Loot</Text>
+              <View style={styles.lootRow}>
+                <MaterialCommunityIcons name={loot.icon as IconName} size={32} color={RARITY_COLORS[loot.rarity]} />
+                <View style={styles.lootInfo}>
+                  <Text style={[styles.lootName, { color: RARITY_COLORS[loot.rarity] }]}>{loot.name}</Text>
+                  <Text style={styles.cardHint}>{loot.description}</Text>
+                </View>
+              </View>
+              <Text style={styles.cardHint}>Every hero who deals damage receives it when the boss falls.</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Top Contributors</Text>
+            {contributors.length === 0 ? (
+              <Text style={styles.cardHint}>No one has struck yet. Be the first!</Text>
+            ) : (
+              contributors.map((contributor, index) => (
+                <View
+                  key={contributor.user_id}
+                  style={[styles.contributorRow, contributor.user_id === user?.id && styles.contributorRowMine]}
+                >
+                  <Text style={styles.contributorRank}>#{index + 1}</Text>
+                  <Text style={styles.contributorName} numberOfLines={1}>{contributor.name}</Text>
+                  <Text style={styles.contributorDamage}>{contributor.damage.toLocaleString()}</Text>
+                </View>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1e1e2e',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#1e1e2e',
+  },
+  loadingText: {
+    color: '#fff',
+    marginTop: 12,
+    fontSize: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 50,
+    paddingBottom: 12,
+  },
+  headerTitle: {
+    color: '#ffd700',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  scroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    color: '#aaa',
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 24,
+  },
+  bossCard: {
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    borderWidth: 2,
+    padding: 20,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  bossName: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  bossLore: {
+    color: '#bbb',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginVertical: 12,
+  },
+  hpBarOuter: {
+    height: 16,
+    alignSelf: 'stretch',
+    backgroundColor: '#444',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  hpBarInner: {
+    height: '100%',
+  },
+  hpText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    marginTop: 6,
+  },
+  timeText: {
+    color: '#aaa',
+    marginTop: 4,
+  },
+  statusText: {
+    fontWeight: 'bold',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  defeatedText: {
+    color: '#2a9d8f',
+  },
+  escapedText: {
+    color: '#ff6b6b',
+  },
+  card: {
+    backgroundColor: '#2a2a40',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    color: '#ffd700',
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  cardHint: {
+    color: '#aaa',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  myDamage: {
+    color: '#fff',
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  lootRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  lootInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  lootName: {
+    fontWeight: 'bold',
+    fontSize: 15,
+    marginBottom: 2,
+  },
+  contributorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  contributorRowMine: {
+    backgroundColor: 'rgba(255, 215, 0, 0.15)',
+  },
+  contributorRank: {
+    color: '#ffd700',
+    fontWeight: 'bold',
+    width: 36,
+  },
+  contributorName: {
+    color: '#fff',
+    flex: 1,
+  },
+  contributorDamage: {
+    color: '#ddd',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,31 @@
+-- Structured workout log. XP and stat gains are calculated client-side
+-- from the logged volume (see lib/workouts.ts) and stored with the entry.
+create table if not exists public.workouts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  character_id uuid references public.characters (id) on delete set null,
+  exercise text not null,
+  stat_type text not null check (stat_type in ('strength', 'speed', 'magic', 'willpower')),
+  sets integer check (sets >= 0),
+  reps integer check (reps >= 0),
+  weight_kg numeric check (weight_kg >= 0),
+  duration_minutes numeric check (duration_minutes >= 0),
+  distance_km numeric check (distance_km >= 0),
+  perceived_effort smallint not null check (perceived_effort between 1 and 10),
+  xp_earned integer not null default 0,
+  stat_gain integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists workouts_user_id_created_at_idx
+  on public.workouts (user_id, created_at desc);
+
+alter table public.workouts enable row level security;
+
+create policy "Users can read their own workouts"
+  on public.workouts for select
+  using (auth.uid() = user_id);
+
+create policy "Users can log their own workouts"
+  on public.workouts for insert
+  with check (auth.uid() = user_id);
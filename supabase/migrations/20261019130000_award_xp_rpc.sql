@@ -0,0 +1,185 @@
+-- Atomic XP awards. Screens no longer write characters.xp directly: they call
+-- award_xp() which validates the source, increments XP/stats in place and
+-- records an audit row, so concurrent awards can't overwrite each other.
+
+-- Workout XP is computed on the client, so bound it to what lib/workouts.ts can produce
+alter table public.workouts
+  add constraint workouts_xp_earned_range check (xp_earned between 0 and 1000),
+  add constraint workouts_stat_gain_range check (stat_gain between 0 and 3);
+
+create table if not exists public.xp_awards (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  character_id uuid not null references public.characters (id) on delete cascade,
+  source text not null check (source in ('workout', 'quest', 'event')),
+  source_id uuid not null,
+  stat_type text not null check (stat_type in ('strength', 'speed', 'magic', 'willpower')),
+  xp integer not null check (xp >= 0),
+  stat_points integer not null default 0,
+  level_before integer not null,
+  level_after integer not null,
+  created_at timestamptz not null default now(),
+  -- Each workout, quest or event can only pay out once per user
+  unique (user_id, source, source_id)
+);
+
+create index if not exists xp_awards_user_id_created_at_idx
+  on public.xp_awards (user_id, created_at desc);
+
+alter table public.xp_awards enable row level security;
+
+create policy "Users can read their own XP awards"
+  on public.xp_awards for select
+  using (auth.uid() = user_id);
+
+-- Mirrors LEVEL_CURVE_CONFIG in constants/levelCurve.ts; keep the two in sync.
+create or replace function public.level_for_xp(p_xp bigint)
+returns integer
+language plpgsql
+immutable
+as $$
+declare
+  v_level integer := 1;
+  v_threshold numeric := 0;
+begin
+  while v_level < 50 loop
+    v_threshold := v_threshold + round(1000 * power(1.15::numeric, v_level - 1) / 10) * 10;
+    exit when p_xp < v_threshold;
+    v_level := v_level + 1;
+  end loop;
+  return v_level;
+end;
+$$;
+
+-- Mirrors STAT_POINT_TIERS in constants/levelCurve.ts.
+create or replace function public.stat_points_for_level(p_level integer)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when p_level >= 25 then 3
+    when p_level >= 10 then 2
+    when p_level >= 2 then 1
+    else 0
+  end;
+$$;
+
+create or replace function public.award_xp(
+  p_source text,
+  p_source_id uuid,
+  p_stat_type text,
+  p_xp integer,
+  p_stat_gain integer default 0
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_updated public.characters%rowtype;
+  v_base_xp integer;
+  v_new_xp bigint;
+  v_new_level integer;
+  v_stat_points integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_stat_type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid stat type %', p_stat_type;
+  end if;
+
+  if p_xp < 0 or p_stat_gain < 0 or p_stat_gain > 3 then
+    raise exception 'Invalid award amount';
+  end if;
+
+  -- Lock the character so concurrent awards queue up instead of racing
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if p_source = 'workout' then
+    select xp_earned into v_base_xp
+    from public.workouts
+    where id = p_source_id and user_id = v_user_id and stat_type = p_stat_type;
+
+    if not found then
+      raise exception 'Workout not found';
+    end if;
+  elsif p_source = 'quest' then
+    -- Completing the quest here keeps completion and payout in one transaction
+    update public.quests
+    set completed = true
+    where id = p_source_id
+      and user_id = v_user_id
+      and type = p_stat_type
+      and accepted
+      and not completed
+    returning "xpReward" into v_base_xp;
+
+    if not found then
+      raise exception 'Quest is not an accepted, unfinished quest';
+    end if;
+  elsif p_source = 'event' then
+    select coalesce(e.xp_reward, 100) into v_base_xp
+    from public.guild_events e
+    join public.guild_members m on m.guild_id = e.guild_id and m.user_id = v_user_id
+    where e.id = p_source_id
+      and e.status = 'completed'
+      and coalesce(e.required_workout_type, 'any') in ('any', p_stat_type);
+
+    if not found then
+      raise exception 'Event not found or not completed';
+    end if;
+  else
+    raise exception 'Unknown XP source %', p_source;
+  end if;
+
+  -- Leave room for class bonuses, but never more than double the base XP
+  if p_xp > v_base_xp * 2 then
+    raise exception 'XP award exceeds what this % allows', p_source;
+  end if;
+
+  v_new_xp := v_character.xp + p_xp;
+  v_new_level := greatest(v_character.level, public.level_for_xp(v_new_xp));
+
+  select coalesce(sum(public.stat_points_for_level(l)), 0) + p_stat_gain
+  into v_stat_points
+  from generate_series(v_character.level + 1, v_new_level) as l;
+
+  insert into public.xp_awards (
+    user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after
+  ) values (
+    v_user_id, v_character.id, p_source, p_source_id, p_stat_type, p_xp, v_stat_points,
+    v_character.level, v_new_level
+  );
+
+  update public.characters
+  set xp = v_new_xp,
+      level = v_new_level,
+      strength = strength + case when p_stat_type = 'strength' then v_stat_points else 0 end,
+      speed = speed + case when p_stat_type = 'speed' then v_stat_points else 0 end,
+      magic = magic + case when p_stat_type = 'magic' then v_stat_points else 0 end,
+      willpower = willpower + case when p_stat_type = 'willpower' then v_stat_points else 0 end
+  where id = v_character.id
+  returning * into v_updated;
+
+  return jsonb_build_object('previous', to_jsonb(v_character), 'character', to_jsonb(v_updated));
+end;
+$$;
+
+grant execute on function public.award_xp(text, uuid, text, integer, integer) to authenticated;
+
+-- Progression columns can only change through award_xp()
+revoke update on public.characters from authenticated;
+grant update (name, class) on public.characters to authenticated;
@@ -0,0 +1,58 @@
+-- Training streaks are computed client-side from the xp_awards ledger using
+-- the user's local day boundaries (see lib/streaks.ts). The database only
+-- tracks freeze tokens and the days they were spent on.
+
+alter table public.characters
+  add column if not exists streak_freezes integer not null default 2 check (streak_freezes >= 0);
+
+create table if not exists public.streak_freezes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Local calendar day the freeze covers
+  day date not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, day)
+);
+
+alter table public.streak_freezes enable row level security;
+
+create policy "Users can read their own streak freezes"
+  on public.streak_freezes for select
+  using (auth.uid() = user_id);
+
+-- Spends one token to cover a missed day. Only recent past days can be frozen.
+create or replace function public.use_streak_freeze(p_day date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_remaining integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- p_day is a local date, so allow a day of slack either side of UTC
+  if p_day > current_date or p_day < current_date - 3 then
+    raise exception 'Only a recently missed day can be frozen';
+  end if;
+
+  update public.characters
+  set streak_freezes = streak_freezes - 1
+  where user_id = v_user_id and streak_freezes > 0
+  returning streak_freezes into v_remaining;
+
+  if not found then
+    raise exception 'No streak freezes left';
+  end if;
+
+  insert into public.streak_freezes (user_id, day) values (v_user_id, p_day);
+
+  return v_remaining;
+end;
+$$;
+
+grant execute on function public.use_streak_freeze(date) to authenticated;
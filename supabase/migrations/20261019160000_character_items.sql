@@ -0,0 +1,38 @@
+-- Gear inventory. The item catalogue and unlock rules live in constants/items.ts;
+-- this table only records which items a user has earned and which are equipped.
+
+alter table public.characters
+  add column if not exists body_weight_kg numeric(5, 1) check (body_weight_kg is null or body_weight_kg between 20 and 400);
+
+-- Bodyweight is needed for relative lift unlocks, so players can set it themselves
+grant update (body_weight_kg) on public.characters to authenticated;
+
+create table if not exists public.character_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  item_id text not null,
+  slot text not null check (slot in ('weapon', 'armor', 'trinket')),
+  equipped boolean not null default false,
+  unlocked_at timestamptz not null default now(),
+  unique (user_id, item_id)
+);
+
+-- At most one equipped item per slot
+create unique index if not exists character_items_equipped_slot_idx
+  on public.character_items (user_id, slot)
+  where equipped;
+
+alter table public.character_items enable row level security;
+
+create policy "Users can read their own items"
+  on public.character_items for select
+  using (auth.uid() = user_id);
+
+create policy "Users can unlock their own items"
+  on public.character_items for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can equip their own items"
+  on public.character_items for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
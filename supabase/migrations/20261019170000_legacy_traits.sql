@@ -0,0 +1,22 @@
+-- Legacy traits are permanent. They hang off the auth user rather than the
+-- character, so deleting or resetting a character (or a new season) keeps
+-- them. Trait definitions and bonuses live in constants/legacyTraits.ts.
+
+create table if not exists public.legacy_traits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  trait_id text not null,
+  earned_at timestamptz not null default now(),
+  unique (user_id, trait_id)
+);
+
+alter table public.legacy_traits enable row level security;
+
+create policy "Users can read their own legacy traits"
+  on public.legacy_traits for select
+  using (auth.uid() = user_id);
+
+-- No update or delete policy: once earned, a trait is never taken away
+create policy "Users can earn their own legacy traits"
+  on public.legacy_traits for insert
+  with check (auth.uid() = user_id);
@@ -0,0 +1,11 @@
+-- Avatar appearance as JSON (see types/avatarTypes.ts). Null means the
+-- default look from constants/avatar.ts.
+alter table public.characters
+  add column if not exists avatar jsonb;
+
+grant update (avatar) on public.characters to authenticated;
+
+-- Equipped gear is drawn on avatars in guild lists and chat, so it is public
+create policy "Anyone can see equipped items"
+  on public.character_items for select
+  using (equipped);
@@ -0,0 +1,56 @@
+-- Class changes go through respec_class() so the cooldown can't be bypassed.
+-- Class definitions live in constants/classes.ts; the database only stores the name.
+
+alter table public.characters
+  add column if not exists class_changed_at timestamptz;
+
+revoke update (class) on public.characters from authenticated;
+
+-- Mirrors CLASS_RESPEC_COOLDOWN_DAYS in constants/classes.ts.
+create or replace function public.respec_class(p_class text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_class is null or length(trim(p_class)) = 0 or length(p_class) > 40 then
+    raise exception 'Invalid class';
+  end if;
+
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if v_character.class = p_class then
+    raise exception 'Already a %', p_class;
+  end if;
+
+  if v_character.class_changed_at is not null
+     and v_character.class_changed_at > now() - interval '7 days' then
+    raise exception 'Class can be changed again after %', v_character.class_changed_at + interval '7 days';
+  end if;
+
+  update public.characters
+  set class = p_class,
+      class_changed_at = now()
+  where id = v_character.id
+  returning * into v_character;
+
+  return to_jsonb(v_character);
+end;
+$$;
+
+grant execute on function public.respec_class(text) to authenticated;
@@ -0,0 +1,191 @@
+-- Quests carry a measurable objective (distance, elevation, time or reps)
+-- that is met by workouts logged after the quest was accepted. award_xp now
+-- refuses to complete a quest until its objective is met.
+
+alter table public.workouts
+  add column if not exists elevation_ft numeric check (elevation_ft >= 0);
+
+alter table public.quests
+  add column if not exists objective jsonb,
+  add column if not exists accepted_at timestamptz;
+
+-- The server stamps accepted_at and keeps objectives fixed, so progress can't
+-- be back-dated or a target lowered from the client
+create or replace function public.protect_quest_objective()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.objective := old.objective;
+  if new.accepted and not old.accepted then
+    new.accepted_at := now();
+  else
+    new.accepted_at := old.accepted_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists quests_protect_objective on public.quests;
+create trigger quests_protect_objective
+  before update on public.quests
+  for each row execute function public.protect_quest_objective();
+
+-- Same rules as getWorkoutContribution in lib/questObjectives.ts
+create or replace function public.quest_objective_progress(
+  p_objective jsonb,
+  p_user_id uuid,
+  p_since timestamptz
+)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(
+    case p_objective->>'metric'
+      when 'distance_km' then coalesce(w.distance_km, 0)
+      when 'elevation_ft' then coalesce(w.elevation_ft, 0)
+      when 'duration_minutes' then coalesce(w.duration_minutes, 0)
+      when 'reps' then coalesce(w.sets, 1) * coalesce(w.reps, 0)
+      else 0
+    end
+  ), 0)
+  from public.workouts w
+  where w.user_id = p_user_id
+    and (p_since is null or w.created_at >= p_since)
+    and (p_objective->>'statType' is null or w.stat_type = p_objective->>'statType')
+    -- "Push-Ups" matches a "push up" objective, like matchesExercise
+    and (
+      p_objective->>'exercise' is null
+      or regexp_replace(lower(w.exercise), '[^a-z]', '', 'g')
+        like '%' || regexp_replace(lower(p_objective->>'exercise'), '[^a-z]', '', 'g') || '%'
+    );
+$$;
+
+create or replace function public.award_xp(
+  p_source text,
+  p_source_id uuid,
+  p_stat_type text,
+  p_xp integer,
+  p_stat_gain integer default 0
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_updated public.characters%rowtype;
+  v_base_xp integer;
+  v_new_xp bigint;
+  v_new_level integer;
+  v_stat_points integer;
+  v_description text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_stat_type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid stat type %', p_stat_type;
+  end if;
+
+  if p_xp < 0 or p_stat_gain < 0 or p_stat_gain > 3 then
+    raise exception 'Invalid award amount';
+  end if;
+
+  -- Lock the character so concurrent awards queue up instead of racing
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if p_source = 'workout' then
+    select xp_earned, exercise into v_base_xp, v_description
+    from public.workouts
+    where id = p_source_id and user_id = v_user_id and stat_type = p_stat_type;
+
+    if not found then
+      raise exception 'Workout not found';
+    end if;
+  elsif p_source = 'quest' then
+    select * into v_quest
+    from public.quests
+    where id = p_source_id
+      and user_id = v_user_id
+      and type = p_stat_type
+      and accepted
+      and not completed
+    for update;
+
+    if not found then
+      raise exception 'Quest is not an accepted, unfinished quest';
+    end if;
+
+    -- Quests from before objectives existed can still be completed by hand
+    if v_quest.objective is not null
+      and public.quest_objective_progress(v_quest.objective, v_user_id, coalesce(v_quest.accepted_at, v_quest.created_at))
+        < (v_quest.objective->>'target')::numeric then
+      raise exception 'Quest objective has not been met yet';
+    end if;
+
+    -- Completing the quest here keeps completion and payout in one transaction
+    update public.quests
+    set completed = true
+    where id = v_quest.id
+    returning "xpReward", title into v_base_xp, v_description;
+  elsif p_source = 'event' then
+    select coalesce(e.xp_reward, 100), e.title into v_base_xp, v_description
+    from public.guild_events e
+    join public.guild_members m on m.guild_id = e.guild_id and m.user_id = v_user_id
+    where e.id = p_source_id
+      and e.status = 'completed'
+      and coalesce(e.required_workout_type, 'any') in ('any', p_stat_type);
+
+    if not found then
+      raise exception 'Event not found or not completed';
+    end if;
+  else
+    raise exception 'Unknown XP source %', p_source;
+  end if;
+
+  -- Leave room for class bonuses, but never more than double the base XP
+  if p_xp > v_base_xp * 2 then
+    raise exception 'XP award exceeds what this % allows', p_source;
+  end if;
+
+  v_new_xp := v_character.xp + p_xp;
+  v_new_level := greatest(v_character.level, public.level_for_xp(v_new_xp));
+
+  select coalesce(sum(public.stat_points_for_level(l)), 0) + p_stat_gain
+  into v_stat_points
+  from generate_series(v_character.level + 1, v_new_level) as l;
+
+  insert into public.xp_awards (
+    user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description
+  ) values (
+    v_user_id, v_character.id, p_source, p_source_id, p_stat_type, p_xp, v_stat_points,
+    v_character.level, v_new_level, v_description
+  );
+
+  update public.characters
+  set xp = v_new_xp,
+      level = v_new_level,
+      strength = strength + case when p_stat_type = 'strength' then v_stat_points else 0 end,
+      speed = speed + case when p_stat_type = 'speed' then v_stat_points else 0 end,
+      magic = magic + case when p_stat_type = 'magic' then v_stat_points else 0 end,
+      willpower = willpower + case when p_stat_type = 'willpower' then v_stat_points else 0 end
+  where id = v_character.id
+  returning * into v_updated;
+
+  return jsonb_build_object('previous', to_jsonb(v_character), 'character', to_jsonb(v_updated));
+end;
+$$;
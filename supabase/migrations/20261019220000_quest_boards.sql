@@ -0,0 +1,12 @@
+-- Daily and weekly quest boards. Each board is generated once per period
+-- (see lib/questBoards.ts); period_key is the local date the period started.
+
+alter table public.quests
+  add column if not exists board text check (board in ('daily', 'weekly')),
+  add column if not exists period_key text,
+  add column if not exists board_slot smallint check (board_slot >= 0);
+
+-- One quest per board slot per period. Quests from before boards have nulls,
+-- which never conflict.
+create unique index if not exists quests_user_id_board_period_slot_key
+  on public.quests (user_id, board, period_key, board_slot);
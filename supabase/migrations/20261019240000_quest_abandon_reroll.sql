@@ -0,0 +1,141 @@
+-- Players can abandon an accepted quest (losing a share of its XP) or reroll
+-- a quest into a new one of their chosen type, a few times a day. Both hand
+-- the board slot back by clearing board_slot. Limits mirror DAILY_REROLL_LIMIT
+-- and ABANDON_PENALTY_SHARE in lib/questActions.ts.
+
+alter table public.quests
+  add column if not exists rerolled_from uuid references public.quests (id) on delete set null,
+  add column if not exists rerolled_at timestamptz,
+  add column if not exists abandoned_at timestamptz,
+  add column if not exists abandon_penalty integer check (abandon_penalty >= 0);
+
+alter table public.quests
+  drop constraint if exists quests_status_check;
+
+alter table public.quests
+  add constraint quests_status_check check (status in ('active', 'completed', 'expired', 'abandoned', 'rerolled'));
+
+create index if not exists quests_user_id_rerolled_at_idx
+  on public.quests (user_id, rerolled_at)
+  where status = 'rerolled';
+
+-- Total XP needed to reach a level; the inverse of level_for_xp
+create or replace function public.xp_for_level(p_level integer)
+returns bigint
+language plpgsql
+immutable
+as $$
+declare
+  v_total numeric := 0;
+begin
+  for l in 1..(least(p_level, 50) - 1) loop
+    v_total := v_total + round(1000 * power(1.15::numeric, l - 1) / 10) * 10;
+  end loop;
+  return v_total;
+end;
+$$;
+
+create or replace function public.abandon_quest(p_quest_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_penalty integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  select * into v_quest
+  from public.quests
+  where id = p_quest_id
+    and user_id = v_user_id
+    and status = 'active'
+    and accepted
+    and chain_id is null
+  for update;
+
+  if not found then
+    raise exception 'Only accepted, unfinished quests outside a storyline can be abandoned';
+  end if;
+
+  -- Never costs a level: the penalty stops at the start of the current one
+  v_penalty := greatest(0, least(
+    round(v_quest."xpReward" * 0.1)::integer,
+    v_character.xp - public.xp_for_level(v_character.level)
+  ));
+
+  update public.quests
+  set status = 'abandoned',
+      abandoned_at = now(),
+      abandon_penalty = v_penalty,
+      board_slot = null
+  where id = v_quest.id;
+
+  update public.characters
+  set xp = xp - v_penalty
+  where id = v_character.id;
+
+  return v_penalty;
+end;
+$$;
+
+-- Returns how many rerolls are left today, in the player's own timezone
+create or replace function public.reroll_quest(p_quest_id uuid, p_time_zone text default 'UTC')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_used integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    raise exception 'Unknown time zone %', p_time_zone;
+  end if;
+
+  select count(*) into v_used
+  from public.quests
+  where user_id = v_user_id
+    and status = 'rerolled'
+    and (rerolled_at at time zone p_time_zone)::date = (now() at time zone p_time_zone)::date;
+
+  if v_used >= 3 then
+    raise exception 'No rerolls left today';
+  end if;
+
+  update public.quests
+  set status = 'rerolled',
+      rerolled_at = now(),
+      board_slot = null
+  where id = p_quest_id
+    and user_id = v_user_id
+    and status = 'active'
+    and chain_id is null;
+
+  if not found then
+    raise exception 'Only unfinished quests outside a storyline can be rerolled';
+  end if;
+
+  return 3 - v_used - 1;
+end;
+$$;
@@ -0,0 +1,7 @@
+-- Free-text training goals the quest generator tailors quests to
+-- (see lib/questContext.ts). Players edit them from the Character screen.
+
+alter table public.characters
+  add column if not exists goals text check (goals is null or length(goals) <= 200);
+
+grant update (goals) on public.characters to authenticated;
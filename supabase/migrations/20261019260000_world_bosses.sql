@@ -0,0 +1,228 @@
+-- World bosses: community events where every player's logged workouts drain
+-- one shared HP pool. One boss is active at a time; when it falls, everyone
+-- who dealt damage gets its loot. Names, lore and icons live in
+-- constants/worldBosses.ts; the rotation below holds the numbers.
+
+create table if not exists public.world_bosses (
+  id uuid primary key default gen_random_uuid(),
+  boss_key text not null,
+  name text not null,
+  max_hp bigint not null check (max_hp > 0),
+  hp bigint not null check (hp >= 0),
+  status text not null default 'active' check (status in ('active', 'defeated', 'escaped')),
+  loot_item_id text not null,
+  loot_slot text not null check (loot_slot in ('weapon', 'armor', 'trinket')),
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  defeated_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Only one boss roams at a time
+create unique index if not exists world_bosses_one_active_idx
+  on public.world_bosses ((true))
+  where status = 'active';
+
+create table if not exists public.boss_contributions (
+  boss_id uuid not null references public.world_bosses (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  damage bigint not null default 0 check (damage >= 0),
+  hits integer not null default 0 check (hits >= 0),
+  last_hit_at timestamptz not null default now(),
+  primary key (boss_id, user_id)
+);
+
+create index if not exists boss_contributions_boss_id_damage_idx
+  on public.boss_contributions (boss_id, damage desc);
+
+-- Each workout strikes at most once
+create table if not exists public.boss_hits (
+  workout_id uuid primary key references public.workouts (id) on delete cascade,
+  boss_id uuid not null references public.world_bosses (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  damage integer not null check (damage >= 0),
+  created_at timestamptz not null default now()
+);
+
+alter table public.world_bosses enable row level security;
+alter table public.boss_contributions enable row level security;
+alter table public.boss_hits enable row level security;
+
+-- Boss HP and the contributor board are public; all writes go through the RPCs below
+create policy "Anyone signed in can see world bosses"
+  on public.world_bosses for select
+  to authenticated
+  using (true);
+
+create policy "Anyone signed in can see boss contributions"
+  on public.boss_contributions for select
+  to authenticated
+  using (true);
+
+create policy "Users can read their own boss hits"
+  on public.boss_hits for select
+  using (auth.uid() = user_id);
+
+-- Live HP bars and contributor boards
+alter publication supabase_realtime add table public.world_bosses, public.boss_contributions;
+
+-- Mirrors WORLD_BOSSES in constants/worldBosses.ts; bosses appear in this order
+create or replace function public.world_boss_rotation()
+returns table (sort_order integer, boss_key text, name text, max_hp bigint, duration interval, loot_item_id text, loot_slot text)
+language sql
+immutable
+as $$
+  values
+    (0, 'the-colossus', 'The Colossus', 250000::bigint, interval '14 days', 'colossus-heartstone', 'trinket'),
+    (1, 'frost-wyrm', 'Vaelkyr the Frost Wyrm', 180000::bigint, interval '10 days', 'wyrmscale-mail', 'armor'),
+    (2, 'hollow-king', 'The Hollow King', 120000::bigint, interval '7 days', 'hollow-crown-blade', 'weapon')
+$$;
+
+-- Returns the boss currently roaming, spawning the next one in the rotation
+-- when the last was defeated or escaped
+create or replace function public.ensure_world_boss()
+returns public.world_bosses
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_boss public.world_bosses%rowtype;
+  v_last_key text;
+  v_next record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Bosses nobody brought down in time get away, and drop nothing
+  update public.world_bosses
+  set status = 'escaped'
+  where status = 'active'
+    and ends_at <= now();
+
+  select * into v_boss
+  from public.world_bosses
+  where status = 'active';
+
+  if found then
+    return v_boss;
+  end if;
+
+  select boss_key into v_last_key
+  from public.world_bosses
+  order by created_at desc
+  limit 1;
+
+  select r.* into v_next
+  from public.world_boss_rotation() r
+  order by r.sort_order <= coalesce(
+    (select l.sort_order from public.world_boss_rotation() l where l.boss_key = v_last_key), -1
+  ), r.sort_order
+  limit 1;
+
+  begin
+    insert into public.world_bosses (boss_key, name, max_hp, hp, loot_item_id, loot_slot, ends_at)
+    values (v_next.boss_key, v_next.name, v_next.max_hp, v_next.max_hp, v_next.loot_item_id, v_next.loot_slot, now() + v_next.duration);
+  exception when unique_violation then
+    -- Another player spawned it first
+    null;
+  end;
+
+  select * into v_boss
+  from public.world_bosses
+  where status = 'active';
+
+  return v_boss;
+end;
+$$;
+
+grant execute on function public.ensure_world_boss() to authenticated;
+
+-- Every workout the caller logged since the active boss appeared, and that
+-- hasn't struck yet, deals its base XP as damage. Safe to call repeatedly.
+-- The killing blow hands the boss's loot to every contributor.
+create or replace function public.strike_world_boss()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_boss public.world_bosses%rowtype;
+  v_workout record;
+  v_hit integer;
+  v_damage bigint := 0;
+  v_hits integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Lock the boss so simultaneous strikes queue up
+  select * into v_boss
+  from public.world_bosses
+  where status = 'active'
+    and ends_at > now()
+  for update;
+
+  if not found then
+    return jsonb_build_object('damage', 0, 'hits', 0, 'defeated', false, 'boss', null);
+  end if;
+
+  for v_workout in
+    select w.id, w.xp_earned
+    from public.workouts w
+    where w.user_id = v_user_id
+      and w.created_at >= v_boss.starts_at
+      and not exists (select 1 from public.boss_hits h where h.workout_id = w.id)
+    order by w.created_at
+  loop
+    exit when v_boss.hp - v_damage <= 0;
+    v_hit := least(v_workout.xp_earned, v_boss.hp - v_damage);
+
+    insert into public.boss_hits (workout_id, boss_id, user_id, damage)
+    values (v_workout.id, v_boss.id, v_user_id, v_hit);
+
+    v_damage := v_damage + v_hit;
+    v_hits := v_hits + 1;
+  end loop;
+
+  if v_hits = 0 then
+    return jsonb_build_object('damage', 0, 'hits', 0, 'defeated', false, 'boss', to_jsonb(v_boss));
+  end if;
+
+  insert into public.boss_contributions (boss_id, user_id, damage, hits)
+  values (v_boss.id, v_user_id, v_damage, v_hits)
+  on conflict (boss_id, user_id) do update
+  set damage = boss_contributions.damage + excluded.damage,
+      hits = boss_contributions.hits + excluded.hits,
+      last_hit_at = now();
+
+  update public.world_bosses
+  set hp = hp - v_damage,
+      status = case when hp - v_damage <= 0 then 'defeated' else status end,
+      defeated_at = case when hp - v_damage <= 0 then now() end
+  where id = v_boss.id
+  returning * into v_boss;
+
+  if v_boss.status = 'defeated' then
+    insert into public.character_items (user_id, item_id, slot)
+    select c.user_id, v_boss.loot_item_id, v_boss.loot_slot
+    from public.boss_contributions c
+    where c.boss_id = v_boss.id
+      and c.damage > 0
+    on conflict (user_id, item_id) do nothing;
+  end if;
+
+  return jsonb_build_object(
+    'damage', v_damage,
+    'hits', v_hits,
+    'defeated', v_boss.status = 'defeated',
+    'boss', to_jsonb(v_boss)
+  );
+end;
+$$;
+
+grant execute on function public.strike_world_boss() to authenticated;
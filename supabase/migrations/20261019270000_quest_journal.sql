@@ -0,0 +1,65 @@
+-- Quest journal: completed quests become a chronological adventure log,
+-- grouped into weekly chapters with a written recap. Recaps are written once,
+-- after the week is over, and kept so the story doesn't change on re-read.
+
+alter table public.quests
+  add column if not exists completed_at timestamptz;
+
+-- Stamped by the server whenever a quest is completed (award_xp), so the
+-- journal order can't be rewritten from the client
+create or replace function public.stamp_quest_completion()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.completed and not old.completed then
+    new.completed_at := now();
+  else
+    new.completed_at := old.completed_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists quests_stamp_completion on public.quests;
+create trigger quests_stamp_completion
+  before update on public.quests
+  for each row execute function public.stamp_quest_completion();
+
+-- Older completions take the time their XP was paid, or failing that when
+-- the quest was posted
+update public.quests q
+set completed_at = coalesce(
+  (select a.created_at from public.xp_awards a where a.source = 'quest' and a.source_id = q.id),
+  q.created_at
+)
+where q.completed
+  and q.completed_at is null;
+
+create index if not exists quests_user_id_completed_at_idx
+  on public.quests (user_id, completed_at)
+  where completed;
+
+create table if not exists public.journal_chapters (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Local date of the Monday the week started, as in quests.period_key
+  week_key text not null,
+  chapter_number integer not null check (chapter_number > 0),
+  title text not null check (char_length(title) between 1 and 120),
+  recap text not null check (char_length(recap) between 1 and 2000),
+  -- Which writer produced the recap, e.g. "openai" or "template"
+  generator text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, week_key)
+);
+
+alter table public.journal_chapters enable row level security;
+
+create policy "Users can read their own journal"
+  on public.journal_chapters for select
+  using (auth.uid() = user_id);
+
+create policy "Users can write their own journal chapters"
+  on public.journal_chapters for insert
+  with check (auth.uid() = user_id);
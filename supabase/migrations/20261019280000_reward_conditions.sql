@@ -0,0 +1,16 @@
+-- Reward conditions: each reward carries a rule tree (see AchievementCondition
+-- in types/achievementTypes.ts) instead of only a quest type and a count.
+-- type stays as the reward's theme; requirement is kept for older clients.
+
+alter table public.rewards
+  add column if not exists condition jsonb check (condition is null or jsonb_typeof(condition) = 'object');
+
+alter table public.rewards
+  alter column requirement drop not null;
+
+-- The same mapping as getRewardCondition in lib/achievements.ts
+update public.rewards
+set condition = jsonb_build_object('type', 'quest_count', 'questType', type, 'count', requirement)
+where condition is null
+  and type is not null
+  and requirement is not null;
@@ -0,0 +1,383 @@
+-- Reward claiming: an earned reward can be claimed once for the loot in its
+-- payload (XP, items, titles, XP boosts). claim_reward does it all in one
+-- transaction and is safe to call again; a second call reports the claim
+-- instead of paying twice.
+--
+-- Rewards are written and marked earned by the client, so the server caps
+-- what any one claim can pay by the reward's difficulty. Items and titles
+-- are cosmetic and players can already unlock items themselves.
+
+alter table public.rewards
+  add column if not exists payload jsonb check (payload is null or jsonb_typeof(payload) = 'object'),
+  add column if not exists claimed_at timestamptz;
+
+create table if not exists public.character_titles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 40),
+  -- The reward that granted it, if any
+  reward_id uuid references public.rewards (id) on delete set null,
+  unlocked_at timestamptz not null default now(),
+  unique (user_id, title)
+);
+
+alter table public.character_titles enable row level security;
+
+create policy "Users can read their own titles"
+  on public.character_titles for select
+  using (auth.uid() = user_id);
+
+create table if not exists public.character_boosts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  reward_id uuid references public.rewards (id) on delete set null,
+  multiplier numeric(3, 2) not null check (multiplier > 1 and multiplier <= 1.5),
+  -- Null boosts every stat
+  stat_type text check (stat_type in ('strength', 'speed', 'magic', 'willpower')),
+  starts_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists character_boosts_user_id_expires_at_idx
+  on public.character_boosts (user_id, expires_at);
+
+alter table public.character_boosts enable row level security;
+
+create policy "Users can read their own boosts"
+  on public.character_boosts for select
+  using (auth.uid() = user_id);
+
+-- Mirrors REWARD_XP in lib/rewards.ts: the default payout when a reward has
+-- no payload, and the most its payload may ask for
+create or replace function public.reward_claim_xp(p_reward public.rewards)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when p_reward.payload ? 'xp' then least(
+      greatest(coalesce((p_reward.payload->>'xp')::integer, 0), 0),
+      case p_reward.difficulty when 'gold' then 600 when 'silver' then 300 else 150 end
+    )
+    else case p_reward.difficulty when 'gold' then 400 when 'silver' then 200 else 100 end
+  end;
+$$;
+
+create or replace function public.award_xp(
+  p_source text,
+  p_source_id uuid,
+  p_stat_type text,
+  p_xp integer,
+  p_stat_gain integer default 0
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_chain_id text;
+  v_reward public.rewards%rowtype;
+  v_xp integer := p_xp;
+  v_boost numeric;
+  v_updated public.characters%rowtype;
+  v_base_xp integer;
+  v_new_xp bigint;
+  v_new_level integer;
+  v_stat_points integer;
+  v_description text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_stat_type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid stat type %', p_stat_type;
+  end if;
+
+  if p_xp < 0 or p_stat_gain < 0 or p_stat_gain > 3 then
+    raise exception 'Invalid award amount';
+  end if;
+
+  -- Lock the character so concurrent awards queue up instead of racing
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if p_source = 'workout' then
+    select xp_earned, exercise into v_base_xp, v_description
+    from public.workouts
+    where id = p_source_id and user_id = v_user_id and stat_type = p_stat_type;
+
+    if not found then
+      raise exception 'Workout not found';
+    end if;
+  elsif p_source = 'quest' then
+    select * into v_quest
+    from public.quests
+    where id = p_source_id
+      and user_id = v_user_id
+      and type = p_stat_type
+      and accepted
+      and not completed
+      and status = 'active'
+    for update;
+
+    if not found then
+      raise exception 'Quest is not an accepted, unfinished quest';
+    end if;
+
+    -- The exception rolls back any write here; expire_quests() records the expiry
+    if v_quest.deadline is not null and v_quest.deadline < now() then
+      raise exception 'Quest has expired';
+    end if;
+
+    -- Quests from before objectives existed can still be completed by hand
+    if v_quest.objective is not null
+      and public.quest_objective_progress(v_quest.objective, v_user_id, coalesce(v_quest.accepted_at, v_quest.created_at))
+        < (v_quest.objective->>'target')::numeric then
+      raise exception 'Quest objective has not been met yet';
+    end if;
+
+    -- Completing the quest here keeps completion and payout in one transaction
+    update public.quests
+    set completed = true,
+        status = 'completed'
+    where id = v_quest.id
+    returning "xpReward", title into v_base_xp, v_description;
+
+    -- Beating the clock: finished with at least half of the quest's time left
+    if v_quest.deadline is not null
+      and now() <= v_quest.deadline - (v_quest.deadline - v_quest.created_at) * 0.5 then
+      v_base_xp := round(v_base_xp * 1.25);
+    end if;
+
+    -- Finishing a storyline step unlocks the next one
+    if v_quest.chain_id is not null then
+      update public.quest_chain_progress
+      set current_step = current_step + 1,
+          completed_at = case when current_step + 1 >= step_count then now() end
+      where user_id = v_user_id
+        and chain_id = v_quest.chain_id
+        and current_step = v_quest.chain_step
+        and completed_at is null;
+    end if;
+  elsif p_source = 'chain' then
+    -- Claiming is one-off: the progress row records it
+    update public.quest_chain_progress
+    set reward_claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and completed_at is not null
+      and reward_claimed_at is null
+    returning chain_id into v_chain_id;
+
+    if not found then
+      raise exception 'Quest chain is not finished or its reward was already claimed';
+    end if;
+
+    -- Mirrors CHAIN_REWARD_XP_SHARE in lib/questChains.ts
+    select round(coalesce(sum("xpReward"), 0) * 0.5) into v_base_xp
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed;
+
+    -- Named after the final step, e.g. "Storyline complete: Climb Mount Dreadstone"
+    select 'Storyline complete: ' || title into v_description
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed
+    order by chain_step desc
+    limit 1;
+  elsif p_source = 'reward' then
+    -- Paid from claim_reward, which locks the reward and grants the rest of
+    -- its payload; claiming is one-off, so claimed_at records it
+    update public.rewards
+    set claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and earned
+      and claimed_at is null
+    returning * into v_reward;
+
+    if not found then
+      raise exception 'Reward is not earned or was already claimed';
+    end if;
+
+    v_base_xp := public.reward_claim_xp(v_reward);
+    v_description := 'Reward: ' || v_reward.title;
+  elsif p_source = 'event' then
+    select coalesce(e.xp_reward, 100), e.title into v_base_xp, v_description
+    from public.guild_events e
+    join public.guild_members m on m.guild_id = e.guild_id and m.user_id = v_user_id
+    where e.id = p_source_id
+      and e.status = 'completed'
+      and coalesce(e.required_workout_type, 'any') in ('any', p_stat_type);
+
+    if not found then
+      raise exception 'Event not found or not completed';
+    end if;
+  else
+    raise exception 'Unknown XP source %', p_source;
+  end if;
+
+  -- Leave room for class bonuses, but never more than double the base XP
+  if p_xp > v_base_xp * 2 then
+    raise exception 'XP award exceeds what this % allows', p_source;
+  end if;
+
+  -- Boosts from claimed rewards multiply what training pays, never other rewards
+  if p_source in ('workout', 'quest') then
+    select max(b.multiplier) into v_boost
+    from public.character_boosts b
+    where b.user_id = v_user_id
+      and b.expires_at > now()
+      and (b.stat_type is null or b.stat_type = p_stat_type);
+
+    v_xp := round(p_xp * coalesce(v_boost, 1));
+  end if;
+
+  v_new_xp := v_character.xp + v_xp;
+  v_new_level := greatest(v_character.level, public.level_for_xp(v_new_xp));
+
+  select coalesce(sum(public.stat_points_for_level(l)), 0) + p_stat_gain
+  into v_stat_points
+  from generate_series(v_character.level + 1, v_new_level) as l;
+
+  insert into public.xp_awards (
+    user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description
+  ) values (
+    v_user_id, v_character.id, p_source, p_source_id, p_stat_type, v_xp, v_stat_points,
+    v_character.level, v_new_level, v_description
+  );
+
+  update public.characters
+  set xp = v_new_xp,
+      level = v_new_level,
+      strength = strength + case when p_stat_type = 'strength' then v_stat_points else 0 end,
+      speed = speed + case when p_stat_type = 'speed' then v_stat_points else 0 end,
+      magic = magic + case when p_stat_type = 'magic' then v_stat_points else 0 end,
+      willpower = willpower + case when p_stat_type = 'willpower' then v_stat_points else 0 end
+  where id = v_character.id
+  returning * into v_updated;
+
+  return jsonb_build_object('previous', to_jsonb(v_character), 'character', to_jsonb(v_updated));
+end;
+$$;
+
+grant execute on function public.award_xp(text, uuid, text, integer, integer) to authenticated;
+
+create or replace function public.claim_reward(p_reward_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_reward public.rewards%rowtype;
+  v_payload jsonb;
+  v_xp integer;
+  v_award jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_titles jsonb := '[]'::jsonb;
+  v_boosts jsonb := '[]'::jsonb;
+  v_item jsonb;
+  v_title text;
+  v_boost jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Lock the reward so a double tap queues behind the first claim
+  select * into v_reward
+  from public.rewards
+  where id = p_reward_id and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Reward not found';
+  end if;
+
+  if v_reward.claimed_at is not null then
+    return jsonb_build_object('already_claimed', true, 'claimed_at', v_reward.claimed_at);
+  end if;
+
+  if not coalesce(v_reward.earned, false) then
+    raise exception 'Reward has not been earned yet';
+  end if;
+
+  v_payload := coalesce(v_reward.payload, '{}'::jsonb);
+
+  -- At most two of each, as in REWARD_PAYLOAD_LIMITS
+  for v_item in
+    select value from jsonb_array_elements(coalesce(v_payload->'items', '[]'::jsonb)) limit 2
+  loop
+    if v_item->>'slot' in ('weapon', 'armor', 'trinket') and coalesce(v_item->>'itemId', '') <> '' then
+      insert into public.character_items (user_id, item_id, slot)
+      values (v_user_id, v_item->>'itemId', v_item->>'slot')
+      on conflict (user_id, item_id) do nothing;
+      v_items := v_items || jsonb_build_array(v_item->>'itemId');
+    end if;
+  end loop;
+
+  for v_title in
+    select value from jsonb_array_elements_text(coalesce(v_payload->'titles', '[]'::jsonb)) limit 2
+  loop
+    v_title := btrim(v_title);
+    if char_length(v_title) between 1 and 40 then
+      insert into public.character_titles (user_id, title, reward_id)
+      values (v_user_id, v_title, v_reward.id)
+      on conflict (user_id, title) do nothing;
+      v_titles := v_titles || jsonb_build_array(v_title);
+    end if;
+  end loop;
+
+  for v_boost in
+    select value from jsonb_array_elements(coalesce(v_payload->'boosts', '[]'::jsonb)) limit 1
+  loop
+    insert into public.character_boosts (user_id, reward_id, multiplier, stat_type, expires_at)
+    values (
+      v_user_id,
+      v_reward.id,
+      least(greatest(coalesce((v_boost->>'multiplier')::numeric, 1.1), 1.05), 1.5),
+      case when v_boost->>'statType' in ('strength', 'speed', 'magic', 'willpower') then v_boost->>'statType' end,
+      now() + make_interval(hours => least(greatest(coalesce((v_boost->>'hours')::integer, 24), 1), 72))
+    )
+    returning jsonb_build_object('multiplier', multiplier, 'statType', stat_type, 'expiresAt', expires_at)
+    into v_boost;
+    v_boosts := v_boosts || jsonb_build_array(v_boost);
+  end loop;
+
+  v_xp := public.reward_claim_xp(v_reward);
+  if v_xp > 0 then
+    -- Pays through the ledger like any other XP and stamps claimed_at
+    v_award := public.award_xp('reward', v_reward.id, v_reward.type, v_xp, 0);
+  else
+    update public.rewards set claimed_at = now() where id = v_reward.id;
+  end if;
+
+  return jsonb_build_object(
+    'already_claimed', false,
+    'claimed_at', now(),
+    'xp', v_xp,
+    'items', v_items,
+    'titles', v_titles,
+    'boosts', v_boosts,
+    'award', v_award
+  );
+end;
+$$;
+
+grant execute on function public.claim_reward(uuid) to authenticated;
@@ -0,0 +1,120 @@
+-- Titles: unlockable names shown next to a character's name. Every unlocked
+-- title is a row in character_titles (added with reward claims). Level titles
+-- are granted when a character levels up, and guild events whose reward reads
+-- "<Name> title + ..." grant <Name> when their XP is paid out. The catalogue
+-- of fixed titles lives in constants/titles.ts.
+
+alter table public.character_titles
+  add column if not exists source text not null default 'reward' check (source in ('reward', 'level', 'event'));
+
+alter table public.characters
+  add column if not exists active_title text check (active_title is null or char_length(active_title) between 1 and 40);
+
+-- Players pick their own title; the trigger below checks they have it
+grant update (active_title) on public.characters to authenticated;
+
+create or replace function public.check_active_title()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.active_title is not null
+    and new.active_title is distinct from old.active_title
+    and not exists (
+      select 1 from public.character_titles t
+      where t.user_id = new.user_id and t.title = new.active_title
+    ) then
+    raise exception 'Title % has not been unlocked', new.active_title;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists characters_check_active_title on public.characters;
+create trigger characters_check_active_title
+  before update of active_title on public.characters
+  for each row execute function public.check_active_title();
+
+-- Mirrors the level titles in constants/titles.ts
+create or replace function public.level_titles()
+returns table (title text, level integer)
+language sql
+immutable
+as $$
+  values ('Adventurer', 5), ('Veteran', 10), ('Champion', 20), ('Legend', 35), ('Mythic', 50);
+$$;
+
+create or replace function public.grant_level_titles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.character_titles (user_id, title, source)
+  select new.user_id, t.title, 'level'
+  from public.level_titles() t
+  where t.level <= new.level
+  on conflict (user_id, title) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists characters_grant_level_titles on public.characters;
+create trigger characters_grant_level_titles
+  after insert or update of level on public.characters
+  for each row execute function public.grant_level_titles();
+
+-- Mirrors parseEventTitle in lib/titles.ts: "Dawn Warrior title + 150 XP"
+-- names the "Dawn Warrior" title
+create or replace function public.event_reward_title(p_reward_description text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(btrim((regexp_match(coalesce(p_reward_description, ''), '^\s*([^+,&]{1,40}?)\s+title\M', 'i'))[1]), '');
+$$;
+
+create or replace function public.grant_event_title()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_title text;
+begin
+  select public.event_reward_title(e.reward_description) into v_title
+  from public.guild_events e
+  where e.id = new.source_id;
+
+  if v_title is not null then
+    insert into public.character_titles (user_id, title, source)
+    values (new.user_id, v_title, 'event')
+    on conflict (user_id, title) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists xp_awards_grant_event_title on public.xp_awards;
+create trigger xp_awards_grant_event_title
+  after insert on public.xp_awards
+  for each row
+  when (new.source = 'event')
+  execute function public.grant_event_title();
+
+-- Titles players have already earned
+insert into public.character_titles (user_id, title, source)
+select c.user_id, t.title, 'level'
+from public.characters c
+join public.level_titles() t on t.level <= c.level
+on conflict (user_id, title) do nothing;
+
+insert into public.character_titles (user_id, title, source)
+select a.user_id, public.event_reward_title(e.reward_description), 'event'
+from public.xp_awards a
+join public.guild_events e on e.id = a.source_id
+where a.source = 'event'
+  and public.event_reward_title(e.reward_description) is not null
+on conflict (user_id, title) do nothing;
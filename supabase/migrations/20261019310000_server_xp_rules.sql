@@ -0,0 +1,322 @@
+-- Workout and quest XP are set by the server. award_xp measures every claim
+-- against a base XP, and until now both bases were written by the client:
+-- workouts.xp_earned on insert and quests."xpReward" as rolled on the device.
+-- Workouts now store what workout_rewards() works out from the logged sets,
+-- reps, distance and time, and new quests have their XP kept to the range
+-- for their difficulty. Stat gains are bounded per source as well.
+
+-- How logged volume turns into XP: 3 a minute, 15 a km, 5 per 100 ft climbed
+-- and one per 40 kg of volume load, scaled by effort and kept to 10-1000.
+-- Every 100 XP is a stat point, up to 3.
+create or replace function public.workout_rewards(p_workout public.workouts)
+returns table (xp integer, stat_gain integer)
+language sql
+immutable
+as $$
+  with base as (
+    select (
+      coalesce(p_workout.duration_minutes, 0) * 3
+      -- Strength volume load; bodyweight movements count as 20 kg
+      + case when coalesce(p_workout.sets, 0) > 0 and coalesce(p_workout.reps, 0) > 0
+          then p_workout.sets::numeric * p_workout.reps * coalesce(nullif(p_workout.weight_kg, 0), 20) / 40
+          else 0
+        end
+      + coalesce(p_workout.distance_km, 0) * 15
+      + coalesce(p_workout.elevation_ft, 0) / 100 * 5
+    -- RPE 5 is neutral
+    ) * (0.5 + p_workout.perceived_effort / 10.0) as xp
+  ),
+  clamped as (
+    select least(1000, greatest(10, round(xp)))::integer as xp
+    from base
+  )
+  select xp, least(3, xp / 100)
+  from clamped;
+$$;
+
+-- Whatever the client sent, a workout pays what its log is worth. The log
+-- time is stamped too, since quest objectives and boss strikes go by it.
+create or replace function public.prepare_new_workout()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_rewards record;
+begin
+  select * into v_rewards from public.workout_rewards(new);
+  new.xp_earned := v_rewards.xp;
+  new.stat_gain := v_rewards.stat_gain;
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists workouts_prepare_new on public.workouts;
+create trigger workouts_prepare_new
+  before insert on public.workouts
+  for each row execute function public.prepare_new_workout();
+
+-- Mirrors QUEST_DIFFICULTIES in constants/quests.ts
+create or replace function public.quest_xp_range(p_difficulty text)
+returns table (min_xp integer, max_xp integer)
+language sql
+immutable
+as $$
+  select r.min_xp, r.max_xp
+  from (values ('easy', 50, 150), ('medium', 150, 250), ('hard', 250, 400)) as r (difficulty, min_xp, max_xp)
+  where r.difficulty = p_difficulty;
+$$;
+
+-- Quest XP stays within its difficulty's range; weekly board quests pay up
+-- to QUEST_BOARDS.weekly.xpMultiplier times the top of it
+create or replace function public.prepare_new_quest()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_range record;
+begin
+  select * into v_range from public.quest_xp_range(new.difficulty);
+  if not found then
+    raise exception 'Invalid quest difficulty %', new.difficulty;
+  end if;
+
+  new."xpReward" := least(
+    greatest(coalesce(new."xpReward", v_range.min_xp), v_range.min_xp),
+    v_range.max_xp * case when new.board = 'weekly' then 3 else 1 end
+  );
+
+  new.status := 'active';
+  new.completed := false;
+  if new.chain_id is not null then
+    new.deadline := null;
+  else
+    new.deadline := least(coalesce(new.deadline, now() + interval '7 days'), now() + interval '7 days');
+  end if;
+  return new;
+end;
+$$;
+
+create or replace function public.award_xp(
+  p_source text,
+  p_source_id uuid,
+  p_stat_type text,
+  p_xp integer,
+  p_stat_gain integer default 0
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_chain_id text;
+  v_reward public.rewards%rowtype;
+  v_xp integer := p_xp;
+  v_boost numeric;
+  v_updated public.characters%rowtype;
+  v_base_xp integer;
+  -- Stat points the source allows on top of level-ups; none unless set below
+  v_max_stat_gain integer := 0;
+  v_new_xp bigint;
+  v_new_level integer;
+  v_stat_points integer;
+  v_description text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_stat_type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid stat type %', p_stat_type;
+  end if;
+
+  if p_xp < 0 or p_stat_gain < 0 or p_stat_gain > 3 then
+    raise exception 'Invalid award amount';
+  end if;
+
+  -- Lock the character so concurrent awards queue up instead of racing
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if p_source = 'workout' then
+    -- Both set by prepare_new_workout() from the logged volume
+    select xp_earned, stat_gain, exercise into v_base_xp, v_max_stat_gain, v_description
+    from public.workouts
+    where id = p_source_id and user_id = v_user_id and stat_type = p_stat_type;
+
+    if not found then
+      raise exception 'Workout not found';
+    end if;
+  elsif p_source = 'quest' then
+    select * into v_quest
+    from public.quests
+    where id = p_source_id
+      and user_id = v_user_id
+      and type = p_stat_type
+      and accepted
+      and not completed
+      and status = 'active'
+    for update;
+
+    if not found then
+      raise exception 'Quest is not an accepted, unfinished quest';
+    end if;
+
+    -- The exception rolls back any write here; expire_quests() records the expiry
+    if v_quest.deadline is not null and v_quest.deadline < now() then
+      raise exception 'Quest has expired';
+    end if;
+
+    -- Quests from before objectives existed can still be completed by hand
+    if v_quest.objective is not null
+      and public.quest_objective_progress(v_quest.objective, v_user_id, coalesce(v_quest.accepted_at, v_quest.created_at))
+        < (v_quest.objective->>'target')::numeric then
+      raise exception 'Quest objective has not been met yet';
+    end if;
+
+    -- Completing the quest here keeps completion and payout in one transaction
+    update public.quests
+    set completed = true,
+        status = 'completed'
+    where id = v_quest.id
+    returning "xpReward", title into v_base_xp, v_description;
+
+    -- Mirrors QUEST_STAT_GAIN in screens/QuestScreen.tsx
+    v_max_stat_gain := 1;
+
+    -- Beating the clock: finished with at least half of the quest's time left
+    if v_quest.deadline is not null
+      and now() <= v_quest.deadline - (v_quest.deadline - v_quest.created_at) * 0.5 then
+      v_base_xp := round(v_base_xp * 1.25);
+    end if;
+
+    -- Finishing a storyline step unlocks the next one
+    if v_quest.chain_id is not null then
+      update public.quest_chain_progress
+      set current_step = current_step + 1,
+          completed_at = case when current_step + 1 >= step_count then now() end
+      where user_id = v_user_id
+        and chain_id = v_quest.chain_id
+        and current_step = v_quest.chain_step
+        and completed_at is null;
+    end if;
+  elsif p_source = 'chain' then
+    -- Claiming is one-off: the progress row records it
+    update public.quest_chain_progress
+    set reward_claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and completed_at is not null
+      and reward_claimed_at is null
+    returning chain_id into v_chain_id;
+
+    if not found then
+      raise exception 'Quest chain is not finished or its reward was already claimed';
+    end if;
+
+    -- Mirrors CHAIN_REWARD_XP_SHARE in lib/questChains.ts
+    select round(coalesce(sum("xpReward"), 0) * 0.5) into v_base_xp
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed;
+
+    -- Named after the final step, e.g. "Storyline complete: Climb Mount Dreadstone"
+    select 'Storyline complete: ' || title into v_description
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed
+    order by chain_step desc
+    limit 1;
+  elsif p_source = 'reward' then
+    -- Paid from claim_reward, which locks the reward and grants the rest of
+    -- its payload; claiming is one-off, so claimed_at records it
+    update public.rewards
+    set claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and earned
+      and claimed_at is null
+    returning * into v_reward;
+
+    if not found then
+      raise exception 'Reward is not earned or was already claimed';
+    end if;
+
+    v_base_xp := public.reward_claim_xp(v_reward);
+    v_description := 'Reward: ' || v_reward.title;
+  elsif p_source = 'event' then
+    select coalesce(e.xp_reward, 100), e.title into v_base_xp, v_description
+    from public.guild_events e
+    join public.guild_members m on m.guild_id = e.guild_id and m.user_id = v_user_id
+    where e.id = p_source_id
+      and e.status = 'completed'
+      and coalesce(e.required_workout_type, 'any') in ('any', p_stat_type);
+
+    if not found then
+      raise exception 'Event not found or not completed';
+    end if;
+  else
+    raise exception 'Unknown XP source %', p_source;
+  end if;
+
+  -- Leave room for class bonuses, but never more than double the base XP
+  if p_xp > v_base_xp * 2 then
+    raise exception 'XP award exceeds what this % allows', p_source;
+  end if;
+
+  if p_stat_gain > v_max_stat_gain then
+    raise exception 'Stat gain exceeds what this % allows', p_source;
+  end if;
+
+  -- Boosts from claimed rewards multiply what training pays, never other rewards
+  if p_source in ('workout', 'quest') then
+    select max(b.multiplier) into v_boost
+    from public.character_boosts b
+    where b.user_id = v_user_id
+      and b.expires_at > now()
+      and (b.stat_type is null or b.stat_type = p_stat_type);
+
+    v_xp := round(p_xp * coalesce(v_boost, 1));
+  end if;
+
+  v_new_xp := v_character.xp + v_xp;
+  v_new_level := greatest(v_character.level, public.level_for_xp(v_new_xp));
+
+  select coalesce(sum(public.stat_points_for_level(l)), 0) + p_stat_gain
+  into v_stat_points
+  from generate_series(v_character.level + 1, v_new_level) as l;
+
+  insert into public.xp_awards (
+    user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description
+  ) values (
+    v_user_id, v_character.id, p_source, p_source_id, p_stat_type, v_xp, v_stat_points,
+    v_character.level, v_new_level, v_description
+  );
+
+  update public.characters
+  set xp = v_new_xp,
+      level = v_new_level,
+      strength = strength + case when p_stat_type = 'strength' then v_stat_points else 0 end,
+      speed = speed + case when p_stat_type = 'speed' then v_stat_points else 0 end,
+      magic = magic + case when p_stat_type = 'magic' then v_stat_points else 0 end,
+      willpower = willpower + case when p_stat_type = 'willpower' then v_stat_points else 0 end
+  where id = v_character.id
+  returning * into v_updated;
+
+  return jsonb_build_object('previous', to_jsonb(v_character), 'character', to_jsonb(v_updated));
+end;
+$$;
+
+grant execute on function public.award_xp(text, uuid, text, integer, integer) to authenticated;
@@ -0,0 +1,150 @@
+-- Gear changes stats, so players no longer write their own inventory rows.
+-- unlock_earned_items() checks the workout history against the catalogue and
+-- files whatever is newly earned; boss loot and reward items are still only
+-- granted by strike_world_boss and claim_reward. Players may only toggle
+-- equipped on items they already own.
+
+drop policy if exists "Users can unlock their own items" on public.character_items;
+
+revoke insert, update on public.character_items from authenticated;
+grant update (equipped) on public.character_items to authenticated;
+
+-- Mirrors ITEMS in constants/items.ts: each item's slot and unlock rule,
+-- shaped like MilestoneRule
+create or replace function public.item_catalogue()
+returns table (item_id text, slot text, unlock jsonb)
+language sql
+immutable
+as $$
+  values
+    ('iron-greatsword', 'weapon', '{"type": "lift", "exercise": "squat", "bodyweightMultiple": 1.5}'::jsonb),
+    ('titans-maul', 'weapon', '{"type": "lift", "exercise": "deadlift", "bodyweightMultiple": 2}'::jsonb),
+    ('oakwood-longbow', 'weapon', '{"type": "distance", "minKm": 10}'::jsonb),
+    ('apprentice-staff', 'weapon', '{"type": "duration", "minMinutes": 60, "statType": "magic"}'::jsonb),
+    ('leather-jerkin', 'armor', '{"type": "workout_count", "count": 10}'::jsonb),
+    ('chainmail-hauberk', 'armor', '{"type": "lift", "exercise": "bench", "bodyweightMultiple": 1}'::jsonb),
+    ('windrunner-cloak', 'armor', '{"type": "distance", "minKm": 21.1}'::jsonb),
+    ('iron-resolve-charm', 'trinket', '{"type": "reps", "exercise": "push up", "minTotalReps": 100}'::jsonb),
+    ('lotus-amulet', 'trinket', '{"type": "workout_count", "count": 10, "statType": "magic"}'::jsonb),
+    ('hollow-crown-blade', 'weapon', '{"type": "boss_loot", "bossName": "The Hollow King"}'::jsonb),
+    ('wyrmscale-mail', 'armor', '{"type": "boss_loot", "bossName": "Vaelkyr the Frost Wyrm"}'::jsonb),
+    ('colossus-heartstone', 'trinket', '{"type": "boss_loot", "bossName": "The Colossus"}'::jsonb),
+    ('wanderers-cloak', 'armor', '{"type": "reward_claim", "rewardTitle": "Steadfast Wanderer"}'::jsonb),
+    ('laurel-of-valor', 'trinket', '{"type": "reward_claim"}'::jsonb);
+$$;
+
+-- Mirrors isMilestoneMet in lib/milestones.ts. Boss loot and reward items are
+-- never met here; they are granted by the functions that award them.
+create or replace function public.item_unlock_met(p_unlock jsonb, p_user_id uuid, p_body_weight_kg numeric)
+returns boolean
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_required_kg numeric;
+begin
+  case p_unlock->>'type'
+    when 'lift' then
+      -- Relative lifts can't be checked until the player has entered a bodyweight
+      if p_unlock ? 'bodyweightMultiple' and p_body_weight_kg is null then
+        return false;
+      end if;
+      v_required_kg := greatest(
+        nullif((p_unlock->>'minWeightKg')::numeric, 0),
+        (p_unlock->>'bodyweightMultiple')::numeric * p_body_weight_kg
+      );
+      if v_required_kg is null then
+        return false;
+      end if;
+      return exists (
+        select 1 from public.workouts w
+        where w.user_id = p_user_id
+          and regexp_replace(lower(w.exercise), '[^a-z]', '', 'g')
+            like '%' || regexp_replace(lower(p_unlock->>'exercise'), '[^a-z]', '', 'g') || '%'
+          and coalesce(w.weight_kg, 0) >= v_required_kg
+      );
+    when 'reps' then
+      return exists (
+        select 1 from public.workouts w
+        where w.user_id = p_user_id
+          and regexp_replace(lower(w.exercise), '[^a-z]', '', 'g')
+            like '%' || regexp_replace(lower(p_unlock->>'exercise'), '[^a-z]', '', 'g') || '%'
+          and coalesce(nullif(w.sets, 0), 1) * coalesce(w.reps, 0) >= (p_unlock->>'minTotalReps')::numeric
+      );
+    when 'distance' then
+      return exists (
+        select 1 from public.workouts w
+        where w.user_id = p_user_id
+          and coalesce(w.distance_km, 0) >= (p_unlock->>'minKm')::numeric
+      );
+    when 'duration' then
+      return exists (
+        select 1 from public.workouts w
+        where w.user_id = p_user_id
+          and (p_unlock->>'statType' is null or w.stat_type = p_unlock->>'statType')
+          and coalesce(w.duration_minutes, 0) >= (p_unlock->>'minMinutes')::numeric
+      );
+    when 'workout_count' then
+      return (
+        select count(*) from public.workouts w
+        where w.user_id = p_user_id
+          and (p_unlock->>'statType' is null or w.stat_type = p_unlock->>'statType')
+      ) >= (p_unlock->>'count')::integer;
+    else
+      return false;
+  end case;
+end;
+$$;
+
+-- Files every catalogue item the caller's workouts have earned and returns
+-- the ids of the new ones
+create or replace function public.unlock_earned_items()
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_body_weight_kg numeric;
+  v_unlocked text[];
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select body_weight_kg into v_body_weight_kg
+  from public.characters
+  where user_id = v_user_id;
+
+  with inserted as (
+    insert into public.character_items (user_id, item_id, slot)
+    select v_user_id, c.item_id, c.slot
+    from public.item_catalogue() c
+    where not exists (
+        select 1 from public.character_items i
+        where i.user_id = v_user_id and i.item_id = c.item_id
+      )
+      and public.item_unlock_met(c.unlock, v_user_id, v_body_weight_kg)
+    on conflict (user_id, item_id) do nothing
+    returning item_id
+  )
+  select coalesce(array_agg(item_id), '{}') into v_unlocked from inserted;
+
+  return v_unlocked;
+end;
+$$;
+
+grant execute on function public.unlock_earned_items() to authenticated;
+
+-- Clean up rows clients wrote themselves: ids outside the catalogue are
+-- dropped, and items filed under the wrong slot are moved and unequipped
+delete from public.character_items i
+where not exists (select 1 from public.item_catalogue() c where c.item_id = i.item_id);
+
+update public.character_items i
+set slot = c.slot, equipped = false
+from public.item_catalogue() c
+where c.item_id = i.item_id
+  and i.slot <> c.slot;
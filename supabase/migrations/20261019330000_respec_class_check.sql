@@ -0,0 +1,59 @@
+-- respec_class() only accepts the classes the app defines
+
+-- Mirrors CHARACTER_CLASSES in constants/classes.ts
+create or replace function public.character_classes()
+returns table (name text)
+language sql
+immutable
+as $$
+  values ('Warrior'), ('Rogue'), ('Mage'), ('Monk'), ('Ranger'), ('Paladin');
+$$;
+
+-- Mirrors CLASS_RESPEC_COOLDOWN_DAYS in constants/classes.ts.
+create or replace function public.respec_class(p_class text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_class is null or not exists (select 1 from public.character_classes() c where c.name = p_class) then
+    raise exception 'Unknown class %', coalesce(p_class, 'null');
+  end if;
+
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if v_character.class = p_class then
+    raise exception 'Already a %', p_class;
+  end if;
+
+  if v_character.class_changed_at is not null
+     and v_character.class_changed_at > now() - interval '7 days' then
+    raise exception 'Class can be changed again after %', v_character.class_changed_at + interval '7 days';
+  end if;
+
+  update public.characters
+  set class = p_class,
+      class_changed_at = now()
+  where id = v_character.id
+  returning * into v_character;
+
+  return to_jsonb(v_character);
+end;
+$$;
+
+grant execute on function public.respec_class(text) to authenticated;
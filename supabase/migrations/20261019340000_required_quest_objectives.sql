@@ -0,0 +1,72 @@
+-- Every quest now carries an objective, so award_xp always has something to
+-- verify. Quests from before objectives existed get a stretch of training in
+-- their own stat, sized like the template objectives, and new quests are
+-- rejected unless their objective is one the app can measure.
+
+-- Mirrors QuestObjective in types/questTypes.ts and minTarget in
+-- OBJECTIVE_METRICS (constants/quests.ts)
+create or replace function public.quest_objective_valid(p_objective jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(
+    jsonb_typeof(p_objective) = 'object'
+    and jsonb_typeof(p_objective->'target') = 'number'
+    and (p_objective->>'target')::numeric >= case p_objective->>'metric'
+      when 'distance_km' then 0.5
+      when 'elevation_ft' then 50
+      when 'duration_minutes' then 5
+      when 'reps' then 5
+    end
+    and (p_objective->>'statType' is null or p_objective->>'statType' in ('strength', 'speed', 'magic', 'willpower'))
+    and (
+      p_objective->>'exercise' is null
+      or (jsonb_typeof(p_objective->'exercise') = 'string' and char_length(btrim(p_objective->>'exercise')) between 1 and 40)
+    ),
+    false
+  );
+$$;
+
+update public.quests
+set objective = jsonb_build_object(
+  'metric', 'duration_minutes',
+  'target', case difficulty when 'hard' then 60 when 'medium' then 40 else 20 end,
+  'statType', type
+)
+where objective is null;
+
+alter table public.quests
+  alter column objective set not null;
+
+create or replace function public.prepare_new_quest()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_range record;
+begin
+  select * into v_range from public.quest_xp_range(new.difficulty);
+  if not found then
+    raise exception 'Invalid quest difficulty %', new.difficulty;
+  end if;
+
+  if not public.quest_objective_valid(new.objective) then
+    raise exception 'Quest objective is missing or invalid';
+  end if;
+
+  new."xpReward" := least(
+    greatest(coalesce(new."xpReward", v_range.min_xp), v_range.min_xp),
+    v_range.max_xp * case when new.board = 'weekly' then 3 else 1 end
+  );
+
+  new.status := 'active';
+  new.completed := false;
+  if new.chain_id is not null then
+    new.deadline := null;
+  else
+    new.deadline := least(coalesce(new.deadline, now() + interval '7 days'), now() + interval '7 days');
+  end if;
+  return new;
+end;
+$$;
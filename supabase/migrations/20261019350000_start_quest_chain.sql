@@ -0,0 +1,65 @@
+-- Chains are started through start_quest_chain(), which takes the step count
+-- from the catalogue, so players can no longer insert progress rows with a
+-- step count or starting step of their own.
+
+drop policy if exists "Users can start quest chains" on public.quest_chain_progress;
+
+revoke insert on public.quest_chain_progress from authenticated;
+
+-- Mirrors QUEST_CHAINS in constants/questChains.ts
+create or replace function public.quest_chain_catalogue()
+returns table (chain_id text, step_count integer)
+language sql
+immutable
+as $$
+  values ('mount-dreadstone', 4), ('hollowmere-siege', 3), ('moonlit-shrine', 3);
+$$;
+
+create or replace function public.start_quest_chain(p_chain_id text)
+returns public.quest_chain_progress
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_step_count integer;
+  v_progress public.quest_chain_progress%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select c.step_count into v_step_count
+  from public.quest_chain_catalogue() c
+  where c.chain_id = p_chain_id;
+
+  if not found then
+    raise exception 'Unknown quest chain %', p_chain_id;
+  end if;
+
+  insert into public.quest_chain_progress (user_id, chain_id, current_step, step_count)
+  values (v_user_id, p_chain_id, 0, v_step_count)
+  on conflict (user_id, chain_id) do nothing
+  returning * into v_progress;
+
+  if not found then
+    raise exception 'Quest chain % has already been started', p_chain_id;
+  end if;
+
+  return v_progress;
+end;
+$$;
+
+grant execute on function public.start_quest_chain(text) to authenticated;
+
+-- Bring rows players inserted themselves back in line with the catalogue
+delete from public.quest_chain_progress p
+where not exists (select 1 from public.quest_chain_catalogue() c where c.chain_id = p.chain_id);
+
+update public.quest_chain_progress p
+set step_count = c.step_count,
+    current_step = least(p.current_step, c.step_count)
+from public.quest_chain_catalogue() c
+where c.chain_id = p.chain_id
+  and p.step_count <> c.step_count;
@@ -0,0 +1,99 @@
+-- Abandon penalties go through the XP ledger like every other XP change, as a
+-- negative 'abandon' row, so history and totals add up. Also grants the
+-- abandon and reroll RPCs to signed-in players, which earlier migrations left out.
+
+alter table public.xp_awards
+  drop constraint if exists xp_awards_source_check;
+
+alter table public.xp_awards
+  add constraint xp_awards_source_check check (source in ('workout', 'quest', 'event', 'reward', 'chain', 'abandon'));
+
+-- Penalties are the only entries that take XP away
+alter table public.xp_awards
+  drop constraint if exists xp_awards_xp_check;
+
+alter table public.xp_awards
+  add constraint xp_awards_xp_check check (xp >= 0 or source = 'abandon');
+
+create or replace function public.abandon_quest(p_quest_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_penalty integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  select * into v_quest
+  from public.quests
+  where id = p_quest_id
+    and user_id = v_user_id
+    and status = 'active'
+    and accepted
+    and chain_id is null
+  for update;
+
+  if not found then
+    raise exception 'Only accepted, unfinished quests outside a storyline can be abandoned';
+  end if;
+
+  -- Never costs a level: the penalty stops at the start of the current one
+  v_penalty := greatest(0, least(
+    round(v_quest."xpReward" * 0.1)::integer,
+    v_character.xp - public.xp_for_level(v_character.level)
+  ));
+
+  update public.quests
+  set status = 'abandoned',
+      abandoned_at = now(),
+      abandon_penalty = v_penalty,
+      board_slot = null
+  where id = v_quest.id;
+
+  if v_penalty > 0 then
+    insert into public.xp_awards (
+      user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description
+    ) values (
+      v_user_id, v_character.id, 'abandon', v_quest.id, v_quest.type, -v_penalty, 0,
+      v_character.level, v_character.level, 'Abandoned: ' || v_quest.title
+    );
+
+    update public.characters
+    set xp = xp - v_penalty
+    where id = v_character.id;
+  end if;
+
+  return v_penalty;
+end;
+$$;
+
+-- Penalties taken before the ledger recorded them
+insert into public.xp_awards (
+  user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description, created_at
+)
+select q.user_id, c.id, 'abandon', q.id, q.type, -q.abandon_penalty, 0, c.level, c.level,
+  'Abandoned: ' || q.title, coalesce(q.abandoned_at, now())
+from public.quests q
+join public.characters c on c.user_id = q.user_id
+where q.status = 'abandoned'
+  and q.abandon_penalty > 0
+on conflict (user_id, source, source_id) do nothing;
+
+grant execute on function public.abandon_quest(uuid) to authenticated;
+grant execute on function public.reroll_quest(uuid, text) to authenticated;
@@ -0,0 +1,107 @@
+-- Boss damage is worked out by workout_rewards() from what was logged rather
+-- than read from the stored xp_earned, and boss loot is only ever held by
+-- players who helped defeat the boss that dropped it.
+
+-- Every workout the caller logged since the active boss appeared, and that
+-- hasn't struck yet, deals its base XP as damage. Safe to call repeatedly.
+-- The killing blow hands the boss's loot to every contributor.
+create or replace function public.strike_world_boss()
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_boss public.world_bosses%rowtype;
+  v_workout record;
+  v_hit integer;
+  v_damage bigint := 0;
+  v_hits integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Lock the boss so simultaneous strikes queue up
+  select * into v_boss
+  from public.world_bosses
+  where status = 'active'
+    and ends_at > now()
+  for update;
+
+  if not found then
+    return jsonb_build_object('damage', 0, 'hits', 0, 'defeated', false, 'boss', null);
+  end if;
+
+  for v_workout in
+    select w.id, r.xp
+    from public.workouts w
+    cross join lateral public.workout_rewards(w) r
+    where w.user_id = v_user_id
+      and w.created_at >= v_boss.starts_at
+      and not exists (select 1 from public.boss_hits h where h.workout_id = w.id)
+    order by w.created_at
+  loop
+    exit when v_boss.hp - v_damage <= 0;
+    v_hit := least(v_workout.xp, v_boss.hp - v_damage);
+
+    insert into public.boss_hits (workout_id, boss_id, user_id, damage)
+    values (v_workout.id, v_boss.id, v_user_id, v_hit);
+
+    v_damage := v_damage + v_hit;
+    v_hits := v_hits + 1;
+  end loop;
+
+  if v_hits = 0 then
+    return jsonb_build_object('damage', 0, 'hits', 0, 'defeated', false, 'boss', to_jsonb(v_boss));
+  end if;
+
+  insert into public.boss_contributions (boss_id, user_id, damage, hits)
+  values (v_boss.id, v_user_id, v_damage, v_hits)
+  on conflict (boss_id, user_id) do update
+  set damage = boss_contributions.damage + excluded.damage,
+      hits = boss_contributions.hits + excluded.hits,
+      last_hit_at = now();
+
+  update public.world_bosses
+  set hp = hp - v_damage,
+      status = case when hp - v_damage <= 0 then 'defeated' else status end,
+      defeated_at = case when hp - v_damage <= 0 then now() end
+  where id = v_boss.id
+  returning * into v_boss;
+
+  if v_boss.status = 'defeated' then
+    insert into public.character_items (user_id, item_id, slot)
+    select c.user_id, v_boss.loot_item_id, v_boss.loot_slot
+    from public.boss_contributions c
+    where c.boss_id = v_boss.id
+      and c.damage > 0
+    on conflict (user_id, item_id) do nothing;
+  end if;
+
+  return jsonb_build_object(
+    'damage', v_damage,
+    'hits', v_hits,
+    'defeated', v_boss.status = 'defeated',
+    'boss', to_jsonb(v_boss)
+  );
+end;
+$$;
+
+grant execute on function public.strike_world_boss() to authenticated;
+
+-- Boss loot players inserted for themselves before inventory writes were locked down
+delete from public.character_items i
+using public.item_catalogue() c
+where c.item_id = i.item_id
+  and c.unlock->>'type' = 'boss_loot'
+  and not exists (
+    select 1
+    from public.world_bosses b
+    join public.boss_contributions bc on bc.boss_id = b.id
+    where b.status = 'defeated'
+      and b.loot_item_id = i.item_id
+      and bc.user_id = i.user_id
+      and bc.damage > 0
+  );
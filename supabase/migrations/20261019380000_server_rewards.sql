@@ -0,0 +1,477 @@
+-- Rewards are judged and stocked by the server. Players still write the
+-- reward itself (its name, theme, condition and difficulty), but a new row
+-- always starts unearned with the loot reward_payload() gives its
+-- difficulty. mark_earned_rewards() is the only way a reward becomes earned:
+-- it checks each condition against the player's own records. Claims only
+-- grant catalogue items and titles, and at most three rewards can be claimed
+-- a day.
+
+-- Mirrors isCount in lib/achievements.ts
+create or replace function public.condition_count_valid(p_value jsonb, p_max numeric)
+returns boolean
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(p_value) = 'number' then
+      (p_value #>> '{}')::numeric = trunc((p_value #>> '{}')::numeric)
+      and (p_value #>> '{}')::numeric between 1 and p_max
+    else false
+  end;
+$$;
+
+-- Mirrors parseCondition and CONDITION_LIMITS in lib/achievements.ts
+create or replace function public.reward_condition_valid(p_condition jsonb, p_depth integer default 0)
+returns boolean
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_child jsonb;
+begin
+  if p_condition is null or jsonb_typeof(p_condition) <> 'object' or p_depth > 3 then
+    return false;
+  end if;
+
+  case p_condition->>'type'
+    when 'quest_count' then
+      return public.condition_count_valid(p_condition->'count', 1000)
+        and coalesce(p_condition->>'questType', 'strength') in ('strength', 'speed', 'magic', 'willpower');
+    when 'total_xp' then
+      return public.condition_count_valid(p_condition->'xp', 10000000);
+    when 'level' then
+      return public.condition_count_valid(p_condition->'level', 50);
+    when 'streak' then
+      return public.condition_count_valid(p_condition->'days', 365);
+    when 'workouts_in_window' then
+      return public.condition_count_valid(p_condition->'count', 1000)
+        and public.condition_count_valid(p_condition->'days', 90)
+        and coalesce(p_condition->>'statType', 'strength') in ('strength', 'speed', 'magic', 'willpower');
+    when 'guild_events' then
+      return public.condition_count_valid(p_condition->'count', 1000);
+    when 'all', 'any' then
+      if coalesce(jsonb_typeof(p_condition->'conditions'), '') <> 'array'
+        or jsonb_array_length(p_condition->'conditions') not between 1 and 5 then
+        return false;
+      end if;
+      for v_child in select value from jsonb_array_elements(p_condition->'conditions') loop
+        if not public.reward_condition_valid(v_child, p_depth + 1) then
+          return false;
+        end if;
+      end loop;
+      return true;
+    when 'not' then
+      return public.reward_condition_valid(p_condition->'condition', p_depth + 1);
+    else
+      return false;
+  end case;
+end;
+$$;
+
+-- Mirrors calculateStreak in lib/streaks.ts for the overall streak: days
+-- with XP count, frozen days keep a run alive without adding to it, and
+-- today's run is still live until midnight.
+create or replace function public.training_streak(p_user_id uuid, p_time_zone text)
+returns table (current_days integer, longest_days integer)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone p_time_zone)::date;
+  v_day record;
+  v_previous date;
+  v_run integer := 0;
+begin
+  current_days := 0;
+  longest_days := 0;
+
+  for v_day in
+    select d.day, bool_or(d.active) as active
+    from (
+      select (a.created_at at time zone p_time_zone)::date as day, true as active
+      from public.xp_awards a
+      where a.user_id = p_user_id
+        -- Abandoning a quest isn't training
+        and a.source <> 'abandon'
+        and a.created_at >= now() - interval '400 days'
+      union all
+      select f.day, false
+      from public.streak_freezes f
+      where f.user_id = p_user_id
+    ) d
+    where d.day <= v_today
+    group by d.day
+    order by d.day
+  loop
+    v_run := case when v_previous = v_day.day - 1 then v_run else 0 end
+      + case when v_day.active then 1 else 0 end;
+    longest_days := greatest(longest_days, v_run);
+    v_previous := v_day.day;
+  end loop;
+
+  if v_previous >= v_today - 1 then
+    current_days := v_run;
+  end if;
+
+  return next;
+end;
+$$;
+
+-- Mirrors evaluateCondition in lib/achievements.ts
+create or replace function public.reward_condition_met(p_condition jsonb, p_user_id uuid, p_time_zone text default 'UTC')
+returns boolean
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_child jsonb;
+  v_value numeric;
+begin
+  case p_condition->>'type'
+    when 'all' then
+      for v_child in select value from jsonb_array_elements(p_condition->'conditions') loop
+        if not public.reward_condition_met(v_child, p_user_id, p_time_zone) then
+          return false;
+        end if;
+      end loop;
+      return true;
+    when 'any' then
+      for v_child in select value from jsonb_array_elements(p_condition->'conditions') loop
+        if public.reward_condition_met(v_child, p_user_id, p_time_zone) then
+          return true;
+        end if;
+      end loop;
+      return false;
+    when 'not' then
+      return not public.reward_condition_met(p_condition->'condition', p_user_id, p_time_zone);
+    when 'quest_count' then
+      select count(*) into v_value
+      from public.quests q
+      where q.user_id = p_user_id
+        and q.completed
+        and (p_condition->>'questType' is null or q.type = p_condition->>'questType');
+      return v_value >= (p_condition->>'count')::numeric;
+    when 'total_xp' then
+      select c.xp into v_value from public.characters c where c.user_id = p_user_id;
+      return coalesce(v_value, 0) >= (p_condition->>'xp')::numeric;
+    when 'level' then
+      select c.level into v_value from public.characters c where c.user_id = p_user_id;
+      return coalesce(v_value, 1) >= (p_condition->>'level')::numeric;
+    when 'streak' then
+      select case when p_condition->>'longest' = 'true' then s.longest_days else s.current_days end
+      into v_value
+      from public.training_streak(p_user_id, p_time_zone) s;
+      return v_value >= (p_condition->>'days')::numeric;
+    when 'workouts_in_window' then
+      select count(*) into v_value
+      from public.workouts w
+      where w.user_id = p_user_id
+        and w.created_at >= now() - make_interval(days => (p_condition->>'days')::integer)
+        and (p_condition->>'statType' is null or w.stat_type = p_condition->>'statType');
+      return v_value >= (p_condition->>'count')::numeric;
+    when 'guild_events' then
+      -- Every completed guild event pays out once through the XP ledger
+      select count(*) into v_value
+      from public.xp_awards a
+      where a.user_id = p_user_id and a.source = 'event';
+      return v_value >= (p_condition->>'count')::numeric;
+    else
+      return false;
+  end case;
+end;
+$$;
+
+-- Mirrors REWARD_TITLES in constants/titles.ts: the title a silver or gold
+-- reward of each theme grants
+create or replace function public.reward_titles()
+returns table (title text, type text, difficulty text)
+language sql
+immutable
+as $$
+  values
+    ('Ironhide', 'strength', 'silver'),
+    ('Titanbreaker', 'strength', 'gold'),
+    ('Windstrider', 'speed', 'silver'),
+    ('Stormchaser', 'speed', 'gold'),
+    ('Runeweaver', 'magic', 'silver'),
+    ('Archmage', 'magic', 'gold'),
+    ('Unyielding', 'willpower', 'silver'),
+    ('Oathkeeper', 'willpower', 'gold');
+$$;
+
+-- The loot for a reward: XP by difficulty, the theme's title from silver up,
+-- and for gold the Laurel of Valor and a day of boosted training. Catalogue
+-- items tied to a reward's name (the Wanderer's Cloak) come with it.
+create or replace function public.reward_payload(p_title text, p_type text, p_difficulty text)
+returns jsonb
+language sql
+immutable
+set search_path = public
+as $$
+  select jsonb_strip_nulls(jsonb_build_object(
+    'xp', case p_difficulty when 'gold' then 400 when 'silver' then 200 else 100 end,
+    'titles', (
+      select jsonb_agg(t.title)
+      from public.reward_titles() t
+      where t.type = p_type and t.difficulty = p_difficulty
+    ),
+    'items', (
+      select jsonb_agg(jsonb_build_object('itemId', c.item_id, 'slot', c.slot))
+      from public.item_catalogue() c
+      where c.unlock->>'type' = 'reward_claim'
+        and (c.unlock->>'rewardTitle' = p_title
+          or (c.unlock->>'rewardTitle' is null and p_difficulty = 'gold'))
+    ),
+    'boosts', case when p_difficulty = 'gold' then '[{"multiplier": 1.25, "hours": 24}]'::jsonb end
+  ));
+$$;
+
+create or replace function public.prepare_new_reward()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.type is null or new.type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid reward type %', new.type;
+  end if;
+
+  if new.difficulty is null or new.difficulty not in ('bronze', 'silver', 'gold') then
+    raise exception 'Invalid reward difficulty %', new.difficulty;
+  end if;
+
+  -- The same mapping as getRewardCondition for clients that only send a count
+  if new.condition is null and new.requirement is not null then
+    new.condition := jsonb_build_object('type', 'quest_count', 'questType', new.type, 'count', new.requirement);
+  end if;
+
+  if not public.reward_condition_valid(new.condition) then
+    raise exception 'Reward condition is missing or invalid';
+  end if;
+
+  if (
+    select count(*) from public.rewards r
+    where r.user_id = new.user_id and r.claimed_at is null
+  ) >= 25 then
+    raise exception 'Too many unclaimed rewards';
+  end if;
+
+  -- A reward for something already done would pay for nothing; skip it
+  if public.reward_condition_met(new.condition, new.user_id) then
+    return null;
+  end if;
+
+  new.earned := false;
+  new.date_earned := null;
+  new.claimed_at := null;
+  new.payload := public.reward_payload(new.title, new.type, new.difficulty);
+  return new;
+end;
+$$;
+
+drop trigger if exists rewards_prepare_new on public.rewards;
+create trigger rewards_prepare_new
+  before insert on public.rewards
+  for each row execute function public.prepare_new_reward();
+
+revoke insert, update on public.rewards from authenticated;
+grant insert (user_id, title, description, type, requirement, condition, difficulty) on public.rewards to authenticated;
+
+-- Marks the caller's unearned rewards whose conditions are met and returns
+-- them. Rows another device already marked aren't returned again, so each
+-- unlock is reported once.
+create or replace function public.mark_earned_rewards(p_time_zone text default 'UTC')
+returns setof public.rewards
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    raise exception 'Unknown time zone %', p_time_zone;
+  end if;
+
+  return query
+  update public.rewards r
+  set earned = true,
+      date_earned = now()
+  where r.user_id = v_user_id
+    and not coalesce(r.earned, false)
+    and r.date_earned is null
+    and case
+      when public.reward_condition_valid(r.condition) then public.reward_condition_met(r.condition, v_user_id, p_time_zone)
+      else false
+    end
+  returning r.*;
+end;
+$$;
+
+grant execute on function public.mark_earned_rewards(text) to authenticated;
+
+create or replace function public.claim_reward(p_reward_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_reward public.rewards%rowtype;
+  v_payload jsonb;
+  v_xp integer;
+  v_award jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_titles jsonb := '[]'::jsonb;
+  v_boosts jsonb := '[]'::jsonb;
+  v_item_id text;
+  v_slot text;
+  v_title text;
+  v_boost jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Lock the character first so claims of different rewards can't race
+  -- past the daily limit
+  perform 1 from public.characters where user_id = v_user_id for update;
+
+  -- Lock the reward so a double tap queues behind the first claim
+  select * into v_reward
+  from public.rewards
+  where id = p_reward_id and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Reward not found';
+  end if;
+
+  if v_reward.claimed_at is not null then
+    return jsonb_build_object('already_claimed', true, 'claimed_at', v_reward.claimed_at);
+  end if;
+
+  if not coalesce(v_reward.earned, false) then
+    raise exception 'Reward has not been earned yet';
+  end if;
+
+  -- Mirrors REWARD_CLAIMS_PER_DAY in lib/rewards.ts
+  if (
+    select count(*) from public.rewards r
+    where r.user_id = v_user_id and r.claimed_at > now() - interval '1 day'
+  ) >= 3 then
+    raise exception 'Daily reward claim limit reached';
+  end if;
+
+  v_payload := coalesce(v_reward.payload, '{}'::jsonb);
+
+  -- At most two of each, as in REWARD_PAYLOAD_LIMITS; only reward items from
+  -- the catalogue, filed in their catalogue slot
+  for v_item_id, v_slot in
+    select c.item_id, c.slot
+    from (
+      select value->>'itemId' as item_id
+      from jsonb_array_elements(coalesce(v_payload->'items', '[]'::jsonb))
+      limit 2
+    ) i
+    join public.item_catalogue() c on c.item_id = i.item_id
+    where c.unlock->>'type' = 'reward_claim'
+  loop
+    insert into public.character_items (user_id, item_id, slot)
+    values (v_user_id, v_item_id, v_slot)
+    on conflict (user_id, item_id) do nothing;
+    v_items := v_items || jsonb_build_array(v_item_id);
+  end loop;
+
+  for v_title in
+    select t.title
+    from (
+      select value as title
+      from jsonb_array_elements_text(coalesce(v_payload->'titles', '[]'::jsonb))
+      limit 2
+    ) p
+    join public.reward_titles() t on t.title = p.title
+  loop
+    insert into public.character_titles (user_id, title, reward_id)
+    values (v_user_id, v_title, v_reward.id)
+    on conflict (user_id, title) do nothing;
+    v_titles := v_titles || jsonb_build_array(v_title);
+  end loop;
+
+  for v_boost in
+    select value from jsonb_array_elements(coalesce(v_payload->'boosts', '[]'::jsonb)) limit 1
+  loop
+    insert into public.character_boosts (user_id, reward_id, multiplier, stat_type, expires_at)
+    values (
+      v_user_id,
+      v_reward.id,
+      least(greatest(coalesce((v_boost->>'multiplier')::numeric, 1.1), 1.05), 1.5),
+      case when v_boost->>'statType' in ('strength', 'speed', 'magic', 'willpower') then v_boost->>'statType' end,
+      now() + make_interval(hours => least(greatest(coalesce((v_boost->>'hours')::integer, 24), 1), 72))
+    )
+    returning jsonb_build_object('multiplier', multiplier, 'statType', stat_type, 'expiresAt', expires_at)
+    into v_boost;
+    v_boosts := v_boosts || jsonb_build_array(v_boost);
+  end loop;
+
+  v_xp := public.reward_claim_xp(v_reward);
+  if v_xp > 0 then
+    -- Pays through the ledger like any other XP and stamps claimed_at
+    v_award := public.award_xp('reward', v_reward.id, v_reward.type, v_xp, 0);
+  else
+    update public.rewards set claimed_at = now() where id = v_reward.id;
+  end if;
+
+  return jsonb_build_object(
+    'already_claimed', false,
+    'claimed_at', now(),
+    'xp', v_xp,
+    'items', v_items,
+    'titles', v_titles,
+    'boosts', v_boosts,
+    'award', v_award
+  );
+end;
+$$;
+
+grant execute on function public.claim_reward(uuid) to authenticated;
+
+-- Unclaimed rewards written before this get the server's loot, and any a
+-- client marked earned without meeting the condition start over
+update public.rewards
+set payload = public.reward_payload(title, type, difficulty)
+where claimed_at is null;
+
+update public.rewards r
+set earned = false,
+    date_earned = null
+where r.claimed_at is null
+  and (coalesce(r.earned, false) or r.date_earned is not null)
+  and not case
+    when public.reward_condition_valid(r.condition) then public.reward_condition_met(r.condition, r.user_id)
+    else false
+  end;
+
+-- Reward items only stay with players who claimed a reward that grants them
+delete from public.character_items i
+using public.item_catalogue() c
+where c.item_id = i.item_id
+  and c.unlock->>'type' = 'reward_claim'
+  and not exists (
+    select 1
+    from public.rewards r
+    cross join lateral jsonb_array_elements(
+      coalesce(public.reward_payload(r.title, r.type, r.difficulty)->'items', '[]'::jsonb)
+    ) p
+    where r.user_id = i.user_id
+      and r.claimed_at is not null
+      and p.value->>'itemId' = i.item_id
+  );
@@ -0,0 +1,120 @@
+-- Titles are a fixed catalogue: the level titles, the reward titles and a
+-- short list of guild event titles. A guild event's reward description can
+-- only name one of the event titles; anything else typed there grants
+-- nothing. Unlocked titles outside the catalogue, or not backed by what
+-- grants them, are removed and can't be worn.
+
+-- Mirrors EVENT_TITLES in constants/titles.ts
+create or replace function public.event_titles()
+returns table (title text)
+language sql
+immutable
+as $$
+  values ('Dawn Warrior'), ('Iron Vanguard'), ('Trailblazer'), ('Moonlit Sage'), ('Raid Breaker'), ('Tourney Victor');
+$$;
+
+create or replace function public.title_catalogue()
+returns table (title text, source text)
+language sql
+immutable
+set search_path = public
+as $$
+  select t.title, 'level' from public.level_titles() t
+  union all
+  select t.title, 'reward' from public.reward_titles() t
+  union all
+  select t.title, 'event' from public.event_titles() t;
+$$;
+
+-- Mirrors parseEventTitle in lib/titles.ts: "Dawn Warrior title + 150 XP"
+-- names the "Dawn Warrior" title, spelled as in the catalogue
+create or replace function public.event_reward_title(p_reward_description text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select t.title
+  from public.event_titles() t
+  where lower(t.title) = lower(btrim(
+    (regexp_match(coalesce(p_reward_description, ''), '^\s*([^+,&]{1,40}?)\s+title\M', 'i'))[1]
+  ));
+$$;
+
+create or replace function public.check_active_title()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.active_title is not null
+    and new.active_title is distinct from old.active_title
+    and (
+      not exists (select 1 from public.title_catalogue() c where c.title = new.active_title)
+      or not exists (
+        select 1 from public.character_titles t
+        where t.user_id = new.user_id and t.title = new.active_title
+      )
+    ) then
+    raise exception 'Title % has not been unlocked', new.active_title;
+  end if;
+  return new;
+end;
+$$;
+
+-- Keep only titles the player has earned: level titles at their level,
+-- reward titles from a claimed reward that grants them, and catalogue event
+-- titles from an event they were paid for
+delete from public.character_titles t
+where not exists (
+  select 1 from public.title_catalogue() c
+  where c.title = t.title and c.source = t.source
+);
+
+delete from public.character_titles t
+using public.characters c, public.level_titles() l
+where t.source = 'level'
+  and c.user_id = t.user_id
+  and l.title = t.title
+  and l.level > c.level;
+
+delete from public.character_titles t
+where t.source = 'reward'
+  and not exists (
+    select 1
+    from public.rewards r
+    cross join lateral jsonb_array_elements_text(
+      coalesce(public.reward_payload(r.title, r.type, r.difficulty)->'titles', '[]'::jsonb)
+    ) p
+    where r.user_id = t.user_id
+      and r.claimed_at is not null
+      and p.value = t.title
+  );
+
+delete from public.character_titles t
+where t.source = 'event'
+  and not exists (
+    select 1
+    from public.xp_awards a
+    join public.guild_events e on e.id = a.source_id
+    where a.user_id = t.user_id
+      and a.source = 'event'
+      and public.event_reward_title(e.reward_description) = t.title
+  );
+
+-- Catalogue event titles from events already paid out under another spelling
+insert into public.character_titles (user_id, title, source)
+select a.user_id, public.event_reward_title(e.reward_description), 'event'
+from public.xp_awards a
+join public.guild_events e on e.id = a.source_id
+where a.source = 'event'
+  and public.event_reward_title(e.reward_description) is not null
+on conflict (user_id, title) do nothing;
+
+update public.characters c
+set active_title = null
+where c.active_title is not null
+  and not exists (
+    select 1 from public.character_titles t
+    where t.user_id = c.user_id and t.title = c.active_title
+  );
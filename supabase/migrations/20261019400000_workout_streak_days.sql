@@ -0,0 +1,49 @@
+-- Only logged workouts make a training day. Claiming a reward, finishing a
+-- guild event or a storyline pays XP too, but none of them keeps a streak
+-- alive on its own. Mirrors fetchStreakSummary in lib/streaks.ts.
+
+create or replace function public.training_streak(p_user_id uuid, p_time_zone text)
+returns table (current_days integer, longest_days integer)
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone p_time_zone)::date;
+  v_day record;
+  v_previous date;
+  v_run integer := 0;
+begin
+  current_days := 0;
+  longest_days := 0;
+
+  for v_day in
+    select d.day, bool_or(d.active) as active
+    from (
+      select (a.created_at at time zone p_time_zone)::date as day, true as active
+      from public.xp_awards a
+      where a.user_id = p_user_id
+        and a.source = 'workout'
+        and a.created_at >= now() - interval '400 days'
+      union all
+      select f.day, false
+      from public.streak_freezes f
+      where f.user_id = p_user_id
+    ) d
+    where d.day <= v_today
+    group by d.day
+    order by d.day
+  loop
+    v_run := case when v_previous = v_day.day - 1 then v_run else 0 end
+      + case when v_day.active then 1 else 0 end;
+    longest_days := greatest(longest_days, v_run);
+    v_previous := v_day.day;
+  end loop;
+
+  if v_previous >= v_today - 1 then
+    current_days := v_run;
+  end if;
+
+  return next;
+end;
+$$;
@@ -0,0 +1,74 @@
+-- Legacy traits add stats and XP, so players no longer record their own.
+-- unlock_legacy_traits() checks the workout history against the catalogue,
+-- the same way unlock_earned_items() does for gear, and files whatever is
+-- newly earned.
+
+drop policy if exists "Users can earn their own legacy traits" on public.legacy_traits;
+
+revoke insert, update on public.legacy_traits from authenticated;
+
+-- Mirrors LEGACY_TRAITS in constants/legacyTraits.ts: each trait's milestone,
+-- shaped like MilestoneRule, and its XP multipliers
+create or replace function public.legacy_trait_catalogue()
+returns table (trait_id text, milestone jsonb, xp_multipliers jsonb)
+language sql
+immutable
+as $$
+  values
+    ('marathoner', '{"type": "distance", "minKm": 42.2}'::jsonb, '{"speed": 1.05}'::jsonb),
+    ('first-pull-up', '{"type": "reps", "exercise": "pull up", "minTotalReps": 1}'::jsonb, '{"strength": 1.05}'::jsonb),
+    ('mountain-mover', '{"type": "lift", "exercise": "deadlift", "bodyweightMultiple": 2.5}'::jsonb, '{}'::jsonb),
+    ('still-waters', '{"type": "duration", "minMinutes": 90, "statType": "magic"}'::jsonb, '{"magic": 1.05}'::jsonb),
+    ('centurion', '{"type": "workout_count", "count": 100}'::jsonb, '{"willpower": 1.05}'::jsonb);
+$$;
+
+-- Files every catalogue trait the caller's workouts have earned and returns
+-- the ids of the new ones
+create or replace function public.unlock_legacy_traits()
+returns text[]
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_body_weight_kg numeric;
+  v_unlocked text[];
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select body_weight_kg into v_body_weight_kg
+  from public.characters
+  where user_id = v_user_id;
+
+  with inserted as (
+    insert into public.legacy_traits (user_id, trait_id)
+    select v_user_id, c.trait_id
+    from public.legacy_trait_catalogue() c
+    where not exists (
+        select 1 from public.legacy_traits t
+        where t.user_id = v_user_id and t.trait_id = c.trait_id
+      )
+      and public.item_unlock_met(c.milestone, v_user_id, v_body_weight_kg)
+    on conflict (user_id, trait_id) do nothing
+    returning trait_id
+  )
+  select coalesce(array_agg(trait_id), '{}') into v_unlocked from inserted;
+
+  return v_unlocked;
+end;
+$$;
+
+grant execute on function public.unlock_legacy_traits() to authenticated;
+
+-- Traits clients recorded themselves only stay if the history backs them
+delete from public.legacy_traits t
+where not exists (
+  select 1
+  from public.legacy_trait_catalogue() c
+  left join public.characters ch on ch.user_id = t.user_id
+  where c.trait_id = t.trait_id
+    and public.item_unlock_met(c.milestone, t.user_id, ch.body_weight_kg)
+);
@@ -0,0 +1,95 @@
+-- Classes live in this table and nowhere else. The app reads it through
+-- lib/classes.ts and respec_class() checks against it, so a new class is a
+-- new row rather than a code change.
+
+create table if not exists public.character_classes (
+  name text primary key,
+  icon text not null,
+  color text not null,
+  description text not null,
+  specialty text not null check (specialty in ('strength', 'speed', 'magic', 'willpower')),
+  -- e.g. {"strength": 1.2} for +20% strength XP
+  xp_multipliers jsonb not null default '{}'::jsonb,
+  -- Stat points granted when a character is created with this class
+  starting_stats jsonb not null default '{}'::jsonb,
+  sort_order integer not null default 0
+);
+
+alter table public.character_classes enable row level security;
+
+create policy "Anyone can read character classes"
+  on public.character_classes for select
+  using (true);
+
+grant select on public.character_classes to anon, authenticated;
+
+insert into public.character_classes (name, icon, color, description, specialty, xp_multipliers, starting_stats, sort_order)
+values
+  ('Warrior', 'sword', '#e63946',
+   'Masters of physical prowess who excel at strength training. Their discipline makes every rep count.',
+   'strength', '{"strength": 1.2}', '{"strength": 2}', 1),
+  ('Rogue', 'run-fast', '#f4a261',
+   'Swift and agile adventurers who thrive on cardio and HIIT. They can dash through any workout with ease.',
+   'speed', '{"speed": 1.2}', '{"speed": 2}', 2),
+  ('Mage', 'magic-staff', '#6a4c93',
+   'Scholars of body knowledge who focus on flexibility and form. Their yoga practice unlocks arcane physical potential.',
+   'magic', '{"magic": 1.2}', '{"magic": 2}', 3),
+  ('Monk', 'meditation', '#2a9d8f',
+   'Embodiments of mental discipline who build consistency. Their willpower transforms routine into power.',
+   'willpower', '{"willpower": 1.2}', '{"willpower": 2}', 4),
+  ('Ranger', 'bow-arrow', '#52b788',
+   'Wanderers of trail and track who pair endurance with grit. Long runs and steady habits are their craft.',
+   'speed', '{"speed": 1.1, "willpower": 1.1}', '{"speed": 1, "willpower": 1}', 5),
+  ('Paladin', 'shield-cross', '#e9c46a',
+   'Oath-bound defenders who train heavy and never skip a day. Strength tempered by unbreakable resolve.',
+   'strength', '{"strength": 1.1, "willpower": 1.1}', '{"strength": 1, "willpower": 1}', 6)
+on conflict (name) do nothing;
+
+-- Mirrors CLASS_RESPEC_COOLDOWN_DAYS in constants/classes.ts.
+create or replace function public.respec_class(p_class text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_class is null or not exists (select 1 from public.character_classes c where c.name = p_class) then
+    raise exception 'Unknown class %', coalesce(p_class, 'null');
+  end if;
+
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if v_character.class = p_class then
+    raise exception 'Already a %', p_class;
+  end if;
+
+  if v_character.class_changed_at is not null
+     and v_character.class_changed_at > now() - interval '7 days' then
+    raise exception 'Class can be changed again after %', v_character.class_changed_at + interval '7 days';
+  end if;
+
+  update public.characters
+  set class = p_class,
+      class_changed_at = now()
+  where id = v_character.id
+  returning * into v_character;
+
+  return to_jsonb(v_character);
+end;
+$$;
+
+drop function if exists public.character_classes();
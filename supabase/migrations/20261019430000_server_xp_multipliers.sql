@@ -0,0 +1,433 @@
+-- award_xp works out the whole award itself. Clients used to propose the
+-- XP with their class, streak and legacy bonuses applied, and anything up to
+-- double the base was accepted. Now the client only names the source and
+-- the server applies the same bonuses from its own tables. Guild event XP,
+-- which players type in, is kept to the range the app offers.
+
+-- Mirrors EVENT_XP_RANGE in constants/guildEvents.ts
+create or replace function public.guild_event_xp(p_xp integer)
+returns integer
+language sql
+immutable
+as $$
+  select least(greatest(coalesce(p_xp, 100), 50), 300);
+$$;
+
+create or replace function public.prepare_guild_event()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.xp_reward := public.guild_event_xp(new.xp_reward);
+  return new;
+end;
+$$;
+
+drop trigger if exists guild_events_prepare on public.guild_events;
+create trigger guild_events_prepare
+  before insert or update of xp_reward on public.guild_events
+  for each row execute function public.prepare_guild_event();
+
+update public.guild_events
+set xp_reward = public.guild_event_xp(xp_reward)
+where xp_reward is distinct from public.guild_event_xp(xp_reward);
+
+-- Mirrors STREAK_MULTIPLIER_TIERS in lib/streaks.ts
+create or replace function public.streak_xp_multiplier(p_days integer)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_days >= 30 then 1.25
+    when p_days >= 14 then 1.15
+    when p_days >= 7 then 1.1
+    when p_days >= 3 then 1.05
+    else 1
+  end;
+$$;
+
+drop function if exists public.award_xp(text, uuid, text, integer, integer);
+
+create or replace function public.award_xp(
+  p_source text,
+  p_source_id uuid,
+  p_stat_type text,
+  p_stat_gain integer default 0,
+  p_time_zone text default 'UTC'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_character public.characters%rowtype;
+  v_quest public.quests%rowtype;
+  v_chain_id text;
+  v_reward public.rewards%rowtype;
+  v_xp integer;
+  v_streak_days integer;
+  v_legacy_multiplier numeric;
+  v_class_multiplier numeric;
+  v_boost numeric;
+  v_updated public.characters%rowtype;
+  v_base_xp integer;
+  -- Stat points the source allows on top of level-ups; none unless set below
+  v_max_stat_gain integer := 0;
+  v_new_xp bigint;
+  v_new_level integer;
+  v_stat_points integer;
+  v_description text;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_stat_type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid stat type %', p_stat_type;
+  end if;
+
+  if p_stat_gain < 0 or p_stat_gain > 3 then
+    raise exception 'Invalid award amount';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    raise exception 'Unknown time zone %', p_time_zone;
+  end if;
+
+  -- Lock the character so concurrent awards queue up instead of racing
+  select * into v_character
+  from public.characters
+  where user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Character not found';
+  end if;
+
+  if p_source = 'workout' then
+    -- Both set by prepare_new_workout() from the logged volume
+    select xp_earned, stat_gain, exercise into v_base_xp, v_max_stat_gain, v_description
+    from public.workouts
+    where id = p_source_id and user_id = v_user_id and stat_type = p_stat_type;
+
+    if not found then
+      raise exception 'Workout not found';
+    end if;
+  elsif p_source = 'quest' then
+    select * into v_quest
+    from public.quests
+    where id = p_source_id
+      and user_id = v_user_id
+      and type = p_stat_type
+      and accepted
+      and not completed
+      and status = 'active'
+    for update;
+
+    if not found then
+      raise exception 'Quest is not an accepted, unfinished quest';
+    end if;
+
+    -- The exception rolls back any write here; expire_quests() records the expiry
+    if v_quest.deadline is not null and v_quest.deadline < now() then
+      raise exception 'Quest has expired';
+    end if;
+
+    -- Quests from before objectives existed can still be completed by hand
+    if v_quest.objective is not null
+      and public.quest_objective_progress(v_quest.objective, v_user_id, coalesce(v_quest.accepted_at, v_quest.created_at))
+        < (v_quest.objective->>'target')::numeric then
+      raise exception 'Quest objective has not been met yet';
+    end if;
+
+    -- Completing the quest here keeps completion and payout in one transaction
+    update public.quests
+    set completed = true,
+        status = 'completed'
+    where id = v_quest.id
+    returning "xpReward", title into v_base_xp, v_description;
+
+    -- Mirrors QUEST_STAT_GAIN in screens/QuestScreen.tsx
+    v_max_stat_gain := 1;
+
+    -- Beating the clock: finished with at least half of the quest's time left
+    if v_quest.deadline is not null
+      and now() <= v_quest.deadline - (v_quest.deadline - v_quest.created_at) * 0.5 then
+      v_base_xp := round(v_base_xp * 1.25);
+    end if;
+
+    -- Finishing a storyline step unlocks the next one
+    if v_quest.chain_id is not null then
+      update public.quest_chain_progress
+      set current_step = current_step + 1,
+          completed_at = case when current_step + 1 >= step_count then now() end
+      where user_id = v_user_id
+        and chain_id = v_quest.chain_id
+        and current_step = v_quest.chain_step
+        and completed_at is null;
+    end if;
+  elsif p_source = 'chain' then
+    -- Claiming is one-off: the progress row records it
+    update public.quest_chain_progress
+    set reward_claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and completed_at is not null
+      and reward_claimed_at is null
+    returning chain_id into v_chain_id;
+
+    if not found then
+      raise exception 'Quest chain is not finished or its reward was already claimed';
+    end if;
+
+    -- Mirrors CHAIN_REWARD_XP_SHARE in lib/questChains.ts
+    select round(coalesce(sum("xpReward"), 0) * 0.5) into v_base_xp
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed;
+
+    -- Named after the final step, e.g. "Storyline complete: Climb Mount Dreadstone"
+    select 'Storyline complete: ' || title into v_description
+    from public.quests
+    where user_id = v_user_id
+      and chain_id = v_chain_id
+      and completed
+    order by chain_step desc
+    limit 1;
+  elsif p_source = 'reward' then
+    -- Paid from claim_reward, which locks the reward and grants the rest of
+    -- its payload; claiming is one-off, so claimed_at records it
+    update public.rewards
+    set claimed_at = now()
+    where id = p_source_id
+      and user_id = v_user_id
+      and earned
+      and claimed_at is null
+    returning * into v_reward;
+
+    if not found then
+      raise exception 'Reward is not earned or was already claimed';
+    end if;
+
+    v_base_xp := public.reward_claim_xp(v_reward);
+    v_description := 'Reward: ' || v_reward.title;
+  elsif p_source = 'event' then
+    select public.guild_event_xp(e.xp_reward), e.title into v_base_xp, v_description
+    from public.guild_events e
+    join public.guild_members m on m.guild_id = e.guild_id and m.user_id = v_user_id
+    where e.id = p_source_id
+      and e.status = 'completed'
+      and coalesce(e.required_workout_type, 'any') in ('any', p_stat_type);
+
+    if not found then
+      raise exception 'Event not found or not completed';
+    end if;
+  else
+    raise exception 'Unknown XP source %', p_source;
+  end if;
+
+  if p_stat_gain > v_max_stat_gain then
+    raise exception 'Stat gain exceeds what this % allows', p_source;
+  end if;
+
+  v_xp := v_base_xp;
+
+  -- Mirrors calculateProgression in lib/progression.ts: training streak and
+  -- legacy traits first, rounded, then the class bonus, rounded down
+  if p_source in ('workout', 'quest', 'event') then
+    select s.current_days into v_streak_days
+    from public.training_streak(v_user_id, p_time_zone) s;
+
+    -- Traits stack multiplicatively
+    select coalesce(exp(sum(ln((c.xp_multipliers->>p_stat_type)::numeric))), 1)
+    into v_legacy_multiplier
+    from public.legacy_traits t
+    join public.legacy_trait_catalogue() c on c.trait_id = t.trait_id
+    where t.user_id = v_user_id
+      and c.xp_multipliers ? p_stat_type;
+
+    v_xp := round(v_xp * public.streak_xp_multiplier(v_streak_days) * v_legacy_multiplier);
+  end if;
+
+  if p_source <> 'reward' then
+    select coalesce((c.xp_multipliers->>p_stat_type)::numeric, 1) into v_class_multiplier
+    from public.character_classes c
+    where c.name = v_character.class;
+
+    if coalesce(v_class_multiplier, 1) <> 1 then
+      v_xp := floor(v_xp * v_class_multiplier);
+    end if;
+  end if;
+
+  -- Boosts from claimed rewards multiply what training pays, never other rewards
+  if p_source in ('workout', 'quest') then
+    select max(b.multiplier) into v_boost
+    from public.character_boosts b
+    where b.user_id = v_user_id
+      and b.expires_at > now()
+      and (b.stat_type is null or b.stat_type = p_stat_type);
+
+    v_xp := round(v_xp * coalesce(v_boost, 1));
+  end if;
+
+  v_new_xp := v_character.xp + v_xp;
+  v_new_level := greatest(v_character.level, public.level_for_xp(v_new_xp));
+
+  select coalesce(sum(public.stat_points_for_level(l)), 0) + p_stat_gain
+  into v_stat_points
+  from generate_series(v_character.level + 1, v_new_level) as l;
+
+  insert into public.xp_awards (
+    user_id, character_id, source, source_id, stat_type, xp, stat_points, level_before, level_after, description
+  ) values (
+    v_user_id, v_character.id, p_source, p_source_id, p_stat_type, v_xp, v_stat_points,
+    v_character.level, v_new_level, v_description
+  );
+
+  update public.characters
+  set xp = v_new_xp,
+      level = v_new_level,
+      strength = strength + case when p_stat_type = 'strength' then v_stat_points else 0 end,
+      speed = speed + case when p_stat_type = 'speed' then v_stat_points else 0 end,
+      magic = magic + case when p_stat_type = 'magic' then v_stat_points else 0 end,
+      willpower = willpower + case when p_stat_type = 'willpower' then v_stat_points else 0 end
+  where id = v_character.id
+  returning * into v_updated;
+
+  return jsonb_build_object('previous', to_jsonb(v_character), 'character', to_jsonb(v_updated));
+end;
+$$;
+
+grant execute on function public.award_xp(text, uuid, text, integer, text) to authenticated;
+
+create or replace function public.claim_reward(p_reward_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_reward public.rewards%rowtype;
+  v_payload jsonb;
+  v_xp integer;
+  v_award jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_titles jsonb := '[]'::jsonb;
+  v_boosts jsonb := '[]'::jsonb;
+  v_item_id text;
+  v_slot text;
+  v_title text;
+  v_boost jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  -- Lock the character first so claims of different rewards can't race
+  -- past the daily limit
+  perform 1 from public.characters where user_id = v_user_id for update;
+
+  -- Lock the reward so a double tap queues behind the first claim
+  select * into v_reward
+  from public.rewards
+  where id = p_reward_id and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Reward not found';
+  end if;
+
+  if v_reward.claimed_at is not null then
+    return jsonb_build_object('already_claimed', true, 'claimed_at', v_reward.claimed_at);
+  end if;
+
+  if not coalesce(v_reward.earned, false) then
+    raise exception 'Reward has not been earned yet';
+  end if;
+
+  -- Mirrors REWARD_CLAIMS_PER_DAY in lib/rewards.ts
+  if (
+    select count(*) from public.rewards r
+    where r.user_id = v_user_id and r.claimed_at > now() - interval '1 day'
+  ) >= 3 then
+    raise exception 'Daily reward claim limit reached';
+  end if;
+
+  v_payload := coalesce(v_reward.payload, '{}'::jsonb);
+
+  -- At most two of each, as in REWARD_PAYLOAD_LIMITS; only reward items from
+  -- the catalogue, filed in their catalogue slot
+  for v_item_id, v_slot in
+    select c.item_id, c.slot
+    from (
+      select value->>'itemId' as item_id
+      from jsonb_array_elements(coalesce(v_payload->'items', '[]'::jsonb))
+      limit 2
+    ) i
+    join public.item_catalogue() c on c.item_id = i.item_id
+    where c.unlock->>'type' = 'reward_claim'
+  loop
+    insert into public.character_items (user_id, item_id, slot)
+    values (v_user_id, v_item_id, v_slot)
+    on conflict (user_id, item_id) do nothing;
+    v_items := v_items || jsonb_build_array(v_item_id);
+  end loop;
+
+  for v_title in
+    select t.title
+    from (
+      select value as title
+      from jsonb_array_elements_text(coalesce(v_payload->'titles', '[]'::jsonb))
+      limit 2
+    ) p
+    join public.reward_titles() t on t.title = p.title
+  loop
+    insert into public.character_titles (user_id, title, reward_id)
+    values (v_user_id, v_title, v_reward.id)
+    on conflict (user_id, title) do nothing;
+    v_titles := v_titles || jsonb_build_array(v_title);
+  end loop;
+
+  for v_boost in
+    select value from jsonb_array_elements(coalesce(v_payload->'boosts', '[]'::jsonb)) limit 1
+  loop
+    insert into public.character_boosts (user_id, reward_id, multiplier, stat_type, expires_at)
+    values (
+      v_user_id,
+      v_reward.id,
+      least(greatest(coalesce((v_boost->>'multiplier')::numeric, 1.1), 1.05), 1.5),
+      case when v_boost->>'statType' in ('strength', 'speed', 'magic', 'willpower') then v_boost->>'statType' end,
+      now() + make_interval(hours => least(greatest(coalesce((v_boost->>'hours')::integer, 24), 1), 72))
+    )
+    returning jsonb_build_object('multiplier', multiplier, 'statType', stat_type, 'expiresAt', expires_at)
+    into v_boost;
+    v_boosts := v_boosts || jsonb_build_array(v_boost);
+  end loop;
+
+  v_xp := public.reward_claim_xp(v_reward);
+  if v_xp > 0 then
+    -- Pays through the ledger like any other XP and stamps claimed_at
+    v_award := public.award_xp('reward', v_reward.id, v_reward.type, 0);
+  else
+    update public.rewards set claimed_at = now() where id = v_reward.id;
+  end if;
+
+  return jsonb_build_object(
+    'already_claimed', false,
+    'claimed_at', now(),
+    'xp', v_xp,
+    'items', v_items,
+    'titles', v_titles,
+    'boosts', v_boosts,
+    'award', v_award
+  );
+end;
+$$;
+
+grant execute on function public.claim_reward(uuid) to authenticated;
@@ -0,0 +1,42 @@
+-- Quest objectives count workouts from accepted_at (or created_at), and
+-- the early-finish bonus measures the time left from created_at. Both came
+-- from the client on insert, so a quest could be posted already accepted
+-- with an old start and be completed by past workouts. New quests now
+-- always start unaccepted, stamped with the server's clock.
+
+create or replace function public.prepare_new_quest()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_range record;
+begin
+  select * into v_range from public.quest_xp_range(new.difficulty);
+  if not found then
+    raise exception 'Invalid quest difficulty %', new.difficulty;
+  end if;
+
+  if not public.quest_objective_valid(new.objective) then
+    raise exception 'Quest objective is missing or invalid';
+  end if;
+
+  new."xpReward" := least(
+    greatest(coalesce(new."xpReward", v_range.min_xp), v_range.min_xp),
+    v_range.max_xp * case when new.board = 'weekly' then 3 else 1 end
+  );
+
+  new.status := 'active';
+  new.completed := false;
+  -- Acceptance goes through the accepted column update, which stamps
+  -- accepted_at; objectives and the early-finish bonus count from these
+  new.accepted := false;
+  new.accepted_at := null;
+  new.created_at := now();
+  if new.chain_id is not null then
+    new.deadline := null;
+  else
+    new.deadline := least(coalesce(new.deadline, now() + interval '7 days'), now() + interval '7 days');
+  end if;
+  return new;
+end;
+$$;
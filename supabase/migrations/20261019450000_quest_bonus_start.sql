@@ -0,0 +1,10 @@
+-- award_xp pays the early-finish bonus when a quest is done with at least
+-- half of its time left, measured from created_at. prepare_new_quest() now
+-- stamps that on insert; quests posted before it may carry a start the
+-- client made up, so unfinished ones are brought back to the present.
+
+update public.quests
+set created_at = now()
+where status = 'active'
+  and not completed
+  and created_at > now();
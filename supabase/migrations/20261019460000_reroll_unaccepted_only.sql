@@ -0,0 +1,50 @@
+-- Rerolling is free, abandoning costs part of the reward once a quest is
+-- accepted. reroll_quest() took accepted quests too, so a half-done quest
+-- could be swapped out without the penalty; accepted quests now have to be
+-- abandoned.
+
+create or replace function public.reroll_quest(p_quest_id uuid, p_time_zone text default 'UTC')
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_used integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_time_zone) then
+    raise exception 'Unknown time zone %', p_time_zone;
+  end if;
+
+  select count(*) into v_used
+  from public.quests
+  where user_id = v_user_id
+    and status = 'rerolled'
+    and (rerolled_at at time zone p_time_zone)::date = (now() at time zone p_time_zone)::date;
+
+  if v_used >= 3 then
+    raise exception 'No rerolls left today';
+  end if;
+
+  update public.quests
+  set status = 'rerolled',
+      rerolled_at = now(),
+      board_slot = null
+  where id = p_quest_id
+    and user_id = v_user_id
+    and status = 'active'
+    and not accepted
+    and chain_id is null;
+
+  if not found then
+    raise exception 'Only quests not yet accepted, outside a storyline, can be rerolled';
+  end if;
+
+  return 3 - v_used - 1;
+end;
+$$;
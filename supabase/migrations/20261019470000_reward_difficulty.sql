@@ -0,0 +1,134 @@
+-- A reward's difficulty, and so its loot, is rated by the server from how
+-- much training its condition still asks for. Players picked it themselves
+-- before, so a "gold" reward could be met by the next workout.
+
+-- Roughly how many days of training a condition is away: a quest or a
+-- workout a day, about 200 XP a day, a guild event a week. Every part of an
+-- "all" has to be met, so the furthest counts; for "any" the nearest does.
+-- A "not" is either met already or holds until something is undone, so it
+-- adds nothing.
+create or replace function public.reward_condition_effort(p_condition jsonb, p_user_id uuid)
+returns numeric
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_value numeric;
+  v_xp numeric;
+begin
+  select c.xp into v_xp from public.characters c where c.user_id = p_user_id;
+  v_xp := coalesce(v_xp, 0);
+
+  case p_condition->>'type'
+    when 'all' then
+      select coalesce(max(public.reward_condition_effort(value, p_user_id)), 0) into v_value
+      from jsonb_array_elements(p_condition->'conditions');
+      return v_value;
+    when 'any' then
+      select coalesce(min(public.reward_condition_effort(value, p_user_id)), 0) into v_value
+      from jsonb_array_elements(p_condition->'conditions');
+      return v_value;
+    when 'not' then
+      return 0;
+    when 'quest_count' then
+      select count(*) into v_value
+      from public.quests q
+      where q.user_id = p_user_id
+        and q.completed
+        and (p_condition->>'questType' is null or q.type = p_condition->>'questType');
+      return greatest((p_condition->>'count')::numeric - v_value, 0);
+    when 'total_xp' then
+      return greatest((p_condition->>'xp')::numeric - v_xp, 0) / 200;
+    when 'level' then
+      return greatest(public.xp_for_level((p_condition->>'level')::integer) - v_xp, 0) / 200;
+    when 'streak' then
+      select case when p_condition->>'longest' = 'true' then s.longest_days else s.current_days end
+      into v_value
+      from public.training_streak(p_user_id, 'UTC') s;
+      return greatest((p_condition->>'days')::numeric - v_value, 0);
+    when 'workouts_in_window' then
+      select count(*) into v_value
+      from public.workouts w
+      where w.user_id = p_user_id
+        and w.created_at >= now() - make_interval(days => (p_condition->>'days')::integer)
+        and (p_condition->>'statType' is null or w.stat_type = p_condition->>'statType');
+      return greatest((p_condition->>'count')::numeric - v_value, 0);
+    when 'guild_events' then
+      select count(*) into v_value
+      from public.xp_awards a
+      where a.user_id = p_user_id and a.source = 'event';
+      return greatest((p_condition->>'count')::numeric - v_value, 0) * 7;
+    else
+      return 0;
+  end case;
+end;
+$$;
+
+-- Bronze is under a week away, silver under a month, gold further
+create or replace function public.reward_difficulty(p_effort_days numeric)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_effort_days >= 30 then 'gold'
+    when p_effort_days >= 7 then 'silver'
+    else 'bronze'
+  end;
+$$;
+
+create or replace function public.prepare_new_reward()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.type is null or new.type not in ('strength', 'speed', 'magic', 'willpower') then
+    raise exception 'Invalid reward type %', new.type;
+  end if;
+
+  -- The same mapping as getRewardCondition for clients that only send a count
+  if new.condition is null and new.requirement is not null then
+    new.condition := jsonb_build_object('type', 'quest_count', 'questType', new.type, 'count', new.requirement);
+  end if;
+
+  if not public.reward_condition_valid(new.condition) then
+    raise exception 'Reward condition is missing or invalid';
+  end if;
+
+  if (
+    select count(*) from public.rewards r
+    where r.user_id = new.user_id and r.claimed_at is null
+  ) >= 25 then
+    raise exception 'Too many unclaimed rewards';
+  end if;
+
+  -- A reward for something already done would pay for nothing; skip it
+  if public.reward_condition_met(new.condition, new.user_id) then
+    return null;
+  end if;
+
+  new.difficulty := public.reward_difficulty(public.reward_condition_effort(new.condition, new.user_id));
+  new.earned := false;
+  new.date_earned := null;
+  new.claimed_at := null;
+  new.payload := public.reward_payload(new.title, new.type, new.difficulty);
+  return new;
+end;
+$$;
+
+revoke insert on public.rewards from authenticated;
+grant insert (user_id, title, description, type, requirement, condition) on public.rewards to authenticated;
+
+-- Rewards still being worked towards are rated on what is left of them
+update public.rewards
+set difficulty = public.reward_difficulty(public.reward_condition_effort(condition, user_id))
+where claimed_at is null
+  and not coalesce(earned, false)
+  and public.reward_condition_valid(condition);
+
+update public.rewards
+set payload = public.reward_payload(title, type, difficulty)
+where claimed_at is null
+  and not coalesce(earned, false);
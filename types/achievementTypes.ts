@@ -0,0 +1,39 @@
+import { QuestType } from './questTypes';
+import { StatType } from './workoutTypes';
+
+// What a reward asks of the player. Leaves test one number; `all` and `any`
+// combine them, so "level 10 and a 7-day streak" is one condition, and `not`
+// inverts one, e.g. "20 quests before reaching level 10".
+export type AchievementCondition =
+  | { type: 'quest_count'; count: number; questType?: QuestType }
+  | { type: 'total_xp'; xp: number }
+  | { type: 'level'; level: number }
+  // The live streak, or the best one ever with `longest`
+  | { type: 'streak'; days: number; longest?: boolean }
+  // Workouts logged in the last `days` days
+  | { type: 'workouts_in_window'; count: number; days: number; statType?: StatType }
+  | { type: 'guild_events'; count: number }
+  | { type: 'all'; conditions: AchievementCondition[] }
+  | { type: 'any'; conditions: AchievementCondition[] }
+  | { type: 'not'; condition: AchievementCondition };
+
+// Everything conditions are checked against, loaded once per check
+export interface AchievementStats {
+  questCounts: Record<QuestType, number>;
+  totalXp: number;
+  level: number;
+  currentStreak: number;
+  longestStreak: number;
+  // Workouts from the longest window a condition may use
+  workouts: Array<{ created_at: string; stat_type: StatType }>;
+  guildEventsCompleted: number;
+}
+
+export interface ConditionProgress {
+  met: boolean;
+  // For groups, how many parts are met out of how many are needed
+  current: number;
+  target: number;
+  // 0 to 1, for progress bars
+  fraction: number;
+}
@@ -0,0 +1,21 @@
+export type BodyType = 'slim' | 'athletic' | 'broad';
+
+export type HairStyle = 'bald' | 'short' | 'long' | 'mohawk' | 'ponytail';
+
+// Stored as JSON in characters.avatar
+export interface AvatarConfig {
+  bodyType: BodyType;
+  skinTone: string;
+  hairStyle: HairStyle;
+  hairColor: string;
+  eyeColor: string;
+  outfitColor: string;
+}
+
+// Everything needed to draw another player's avatar
+export interface AvatarProfile {
+  avatar: AvatarConfig | null;
+  characterClass?: string;
+  equippedItemIds: string[];
+  activeTitle?: string | null;
+}
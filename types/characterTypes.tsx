@@ -1,22 +1,21 @@
+import { AvatarConfig } from './avatarTypes';
+
 export interface Character {
+  id?: string;
   user_id: string;
   name: string;
+  class?: string;
   level: number;
   xp: number;
   strength: number;
   speed: number;
   magic: number;
   willpower: number;
+  body_weight_kg?: number | null;
+  avatar?: AvatarConfig | null;
+  class_changed_at?: string | null;
+  // Free-text training goals the quest generator personalizes around
+  goals?: string | null;
+  // Shown next to the name; one of the character's unlocked titles
+  active_title?: string | null;
 }
-
-export interface Quest {
-  id: string;
-  title: string;
-  description: string;
-  type: 'strength' | 'speed' | 'magic' | 'willpower';
-  difficulty: 'easy' | 'medium' | 'hard';
-  xpReward: number;
-  completed: boolean;
-  accepted: boolean;
-  deadline?: Date;
-}
\ No newline at end of file
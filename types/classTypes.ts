@@ -0,0 +1,14 @@
+import { StatType } from './workoutTypes';
+
+export interface CharacterClass {
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  // Primary stat; used when an activity doesn't name one (e.g. "any" guild events)
+  specialty: StatType;
+  // XP multipliers for awards of each stat, e.g. { strength: 1.2 } for +20%
+  xpMultipliers: Partial<Record<StatType, number>>;
+  // Stat points granted when a character is created with this class
+  startingStats: Partial<Record<StatType, number>>;
+}
@@ -0,0 +1,27 @@
+import { MilestoneRule } from './milestoneTypes';
+import { StatType } from './workoutTypes';
+
+export type EquipSlot = 'weapon' | 'armor' | 'trinket';
+
+export type ItemRarity = 'common' | 'rare' | 'epic';
+
+export interface Item {
+  id: string;
+  name: string;
+  slot: EquipSlot;
+  rarity: ItemRarity;
+  icon: string;
+  description: string;
+  statModifiers: Partial<Record<StatType, number>>;
+  unlock: MilestoneRule;
+}
+
+// One row of the character_items table
+export interface InventoryItem {
+  id: string;
+  user_id: string;
+  item_id: string;
+  slot: EquipSlot;
+  equipped: boolean;
+  unlocked_at: string;
+}
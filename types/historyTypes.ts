@@ -0,0 +1,20 @@
+import { StatType } from './workoutTypes';
+
+export type XpSource = 'workout' | 'quest' | 'event' | 'reward' | 'chain' | 'abandon';
+
+// One row of the xp_awards ledger
+export interface XpLedgerEntry {
+  id: string;
+  user_id: string;
+  character_id: string;
+  source: XpSource;
+  source_id: string;
+  stat_type: StatType;
+  // Negative for abandon penalties
+  xp: number;
+  stat_points: number;
+  level_before: number;
+  level_after: number;
+  description?: string | null;
+  created_at: string;
+}
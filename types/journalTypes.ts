@@ -0,0 +1,32 @@
+import { Quest } from './questTypes';
+
+// A completed quest as it appears in the adventure log
+export type JournalEntry = Pick<Quest, 'id' | 'title' | 'description' | 'type' | 'difficulty' | 'xpReward' | 'chain_id'> & {
+  completed_at: string;
+};
+
+// One local week of the adventure. Chapters are numbered over the weeks the
+// player actually completed something, oldest first.
+export interface JournalWeek {
+  weekKey: string;
+  startsAt: Date;
+  endsAt: Date;
+  chapterNumber: number;
+  entries: JournalEntry[];
+}
+
+export interface ChapterText {
+  title: string;
+  recap: string;
+}
+
+// One row of the journal_chapters table
+export interface JournalChapter extends ChapterText {
+  id?: string;
+  user_id: string;
+  week_key: string;
+  chapter_number: number;
+  // Writer that produced the recap, e.g. "openai" or "template"
+  generator: string;
+  created_at?: string;
+}
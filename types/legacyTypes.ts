@@ -0,0 +1,26 @@
+import { MilestoneRule } from './milestoneTypes';
+import { StatType } from './workoutTypes';
+
+export interface LegacyBonus {
+  // XP multiplier for awards of the given stat, e.g. 1.05 for +5%
+  xpMultipliers?: Partial<Record<StatType, number>>;
+  // Flat points layered on top of stored stats
+  statBonuses?: Partial<Record<StatType, number>>;
+}
+
+export interface LegacyTrait {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  milestone: MilestoneRule;
+  bonus: LegacyBonus;
+}
+
+// One row of the legacy_traits table
+export interface EarnedLegacyTrait {
+  id: string;
+  user_id: string;
+  trait_id: string;
+  earned_at: string;
+}
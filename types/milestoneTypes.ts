@@ -0,0 +1,13 @@
+import { StatType } from './workoutTypes';
+
+// Real-world benchmark checked against logged workouts (gear unlocks, legacy traits)
+export type MilestoneRule =
+  | { type: 'lift'; exercise: string; minWeightKg?: number; bodyweightMultiple?: number }
+  | { type: 'reps'; exercise: string; minTotalReps: number }
+  | { type: 'distance'; minKm: number }
+  | { type: 'duration'; minMinutes: number; statType?: StatType }
+  | { type: 'workout_count'; count: number; statType?: StatType }
+  // Dropped by a world boss to everyone who fought it; never earned from workouts alone
+  | { type: 'boss_loot'; bossName: string }
+  // Part of an achievement reward's payload, granted by claim_reward
+  | { type: 'reward_claim'; rewardTitle?: string };
@@ -14,6 +14,9 @@ export type RootStackParamList = {
   GuildEvents: { guildId: string };
   CreateGuildEvent: { guildId: string };
   CreateEvent: { guildId: string };
+  AvatarEditor: undefined;
+  WorldBoss: undefined;
+  Journal: undefined;
 };
 
 export type MainTabParamList = {
@@ -32,4 +35,9 @@ export type BottomTabParamList = {
 export type CharacterScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<BottomTabParamList, 'Character'>,
   NativeStackNavigationProp<RootStackParamList>
+>;
+
+export type QuestScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<BottomTabParamList, 'Quests'>,
+  NativeStackNavigationProp<RootStackParamList>
 >;
\ No newline at end of file
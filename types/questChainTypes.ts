@@ -0,0 +1,33 @@
+import { QuestDifficulty, QuestObjective, QuestType } from './questTypes';
+
+export interface QuestChainStep {
+  title: string;
+  description: string;
+  type: QuestType;
+  difficulty: QuestDifficulty;
+  objective: QuestObjective;
+}
+
+// A storyline of quests played in order; each step unlocks the next
+export interface QuestChain {
+  id: string;
+  name: string;
+  icon: string;
+  // Shown before the first step and after the last one
+  prologue: string;
+  epilogue: string;
+  steps: QuestChainStep[];
+}
+
+// One row of the quest_chain_progress table
+export interface QuestChainProgress {
+  id: string;
+  user_id: string;
+  chain_id: string;
+  // Index of the step being played; equals step_count once the chain is done
+  current_step: number;
+  step_count: number;
+  started_at: string;
+  completed_at: string | null;
+  reward_claimed_at: string | null;
+}
@@ -0,0 +1,106 @@
+import { StatType } from './workoutTypes';
+
+export type QuestType = StatType;
+
+export type QuestDifficulty = 'easy' | 'medium' | 'hard';
+
+// Daily boards reset at local midnight, weekly boards on Monday
+export type QuestBoard = 'daily' | 'weekly';
+
+// Expired quests ran out of time and pay nothing; abandoned and rerolled
+// quests were dropped by the player
+export type QuestStatus = 'active' | 'completed' | 'expired' | 'abandoned' | 'rerolled';
+
+// Workout field a quest objective adds up
+export type ObjectiveMetric = 'distance_km' | 'elevation_ft' | 'duration_minutes' | 'reps';
+
+// A measurable goal, met by workouts logged after the quest was accepted
+export interface QuestObjective {
+  metric: ObjectiveMetric;
+  target: number;
+  // Only workouts of this stat count, when set
+  statType?: QuestType;
+  // Only this exercise counts (matched loosely, e.g. "push up" matches "Push-Ups")
+  exercise?: string;
+}
+
+// How a player has fared with recent quests of one type
+export interface QuestTypePerformance {
+  completed: number;
+  // Abandoned or expired
+  failed: number;
+  // completed / (completed + failed), or null before any quest was resolved
+  completionRate: number | null;
+}
+
+// What the Dungeon Master knows about the player when writing a quest
+export interface QuestContext {
+  level: number;
+  className?: string;
+  stats: Record<StatType, number>;
+  equippedItems: string[];
+  // Current overall streak in days
+  streakDays: number;
+  // Newest first
+  recentQuests: Array<{ title: string; type: QuestType; completed: boolean }>;
+  recentWorkouts: Array<{ exercise: string; stat_type: StatType }>;
+  goals?: string | null;
+  // Recent completion record per quest type, drives difficulty and objective size
+  performance?: Record<QuestType, QuestTypePerformance>;
+}
+
+// What the screen asks a generator for
+export interface QuestRequest {
+  type: QuestType;
+  difficulty: QuestDifficulty;
+  // Weekly quests get week-sized objectives
+  board?: QuestBoard;
+  // Lets generators personalise the quest; the template engine ignores it
+  context?: QuestContext;
+  // Multiplier createQuest applies to the objective target, see getObjectiveScale
+  objectiveScale?: number;
+  // Same seed, same quest (template generator only)
+  seed?: string;
+}
+
+// What a generator hands back; ids, rewards and flags are added by createQuest
+export interface QuestText {
+  title: string;
+  description: string;
+  // Unscaled; createQuest applies objectiveScale. Generators that don't
+  // produce one get a default for the type and difficulty
+  objective?: QuestObjective;
+}
+
+// One row of the quests table
+export interface Quest {
+  id: string;
+  title: string;
+  description: string;
+  type: QuestType;
+  difficulty: QuestDifficulty;
+  xpReward: number;
+  completed: boolean;
+  accepted: boolean;
+  status?: QuestStatus;
+  deadline?: string | null;
+  // Quests generated for a board; older quests have none
+  board?: QuestBoard | null;
+  period_key?: string | null;
+  board_slot?: number | null;
+  // Storyline quests, see constants/questChains.ts
+  chain_id?: string | null;
+  chain_step?: number | null;
+  // The quest this one replaced, when it came from a reroll
+  rerolled_from?: string | null;
+  rerolled_at?: string | null;
+  abandoned_at?: string | null;
+  // XP lost by abandoning the quest after accepting it
+  abandon_penalty?: number | null;
+  objective?: QuestObjective | null;
+  accepted_at?: string | null;
+  // Stamped by the server when the quest is completed
+  completed_at?: string | null;
+  user_id?: string;
+  created_at?: string;
+}
@@ -0,0 +1,71 @@
+import { AchievementCondition } from './achievementTypes';
+import { Character } from './characterTypes';
+import { EquipSlot } from './gearTypes';
+import { QuestType } from './questTypes';
+import { StatType } from './workoutTypes';
+
+export type RewardDifficulty = 'bronze' | 'silver' | 'gold';
+
+// What a client writes to the rewards table; the server rates the difficulty
+export type NewReward = Omit<Reward, 'difficulty'>;
+
+// A timed XP multiplier on training (workouts and quests)
+export interface RewardBoost {
+  multiplier: number;
+  hours: number;
+  // Boosts every stat when left out
+  statType?: StatType;
+}
+
+// What claiming a reward grants, set by the server from the reward's theme
+// and difficulty (see reward_payload)
+export interface RewardPayload {
+  xp?: number;
+  items?: Array<{ itemId: string; slot: EquipSlot }>;
+  titles?: string[];
+  boosts?: RewardBoost[];
+}
+
+// One row of the rewards table
+export interface Reward {
+  id?: string;
+  title: string;
+  description: string;
+  // Theme for the badge colour and icon
+  type: QuestType;
+  // Quest count for rewards from before conditions; see getRewardCondition
+  requirement?: number | null;
+  condition?: AchievementCondition | null;
+  // Loot for claiming, written by the server; rewards without one pay XP by difficulty
+  payload?: RewardPayload | null;
+  // Rated by the server from how far off the condition was when it was written
+  difficulty: RewardDifficulty;
+  // Set by mark_earned_rewards once the condition is met
+  earned?: boolean;
+  user_id?: string;
+  date_earned?: string | null;
+  claimed_at?: string | null;
+}
+
+// A boost as stored in the character_boosts table
+export interface CharacterBoost {
+  id: string;
+  user_id: string;
+  reward_id: string | null;
+  multiplier: number;
+  stat_type: StatType | null;
+  starts_at: string;
+  expires_at: string;
+}
+
+// What claim_reward returns. A repeat claim only reports when it happened.
+export interface RewardClaimResult {
+  already_claimed: boolean;
+  claimed_at: string;
+  xp?: number;
+  items?: string[];
+  titles?: string[];
+  boosts?: Array<{ multiplier: number; statType: StatType | null; expiresAt: string }>;
+  // The award_xp result for the XP part, when there was one
+  award?: { previous: Character; character: Character } | null;
+}
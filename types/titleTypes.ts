@@ -0,0 +1,32 @@
+import { QuestType } from './questTypes';
+import { RewardDifficulty } from './rewardTypes';
+
+export type TitleSource = 'reward' | 'level' | 'event';
+
+// A level title from the catalogue
+export interface TitleInfo {
+  name: string;
+  icon: string;
+  description: string;
+  // Character level that unlocks it
+  level: number;
+}
+
+// The title claiming a silver or gold reward of one theme grants
+export interface RewardTitleInfo extends Omit<TitleInfo, 'level'> {
+  type: QuestType;
+  difficulty: Exclude<RewardDifficulty, 'bronze'>;
+}
+
+// A title a guild event can grant by naming it in its reward description
+export type EventTitleInfo = Omit<TitleInfo, 'level'>;
+
+// One row of the character_titles table
+export interface CharacterTitle {
+  id: string;
+  user_id: string;
+  title: string;
+  source: TitleSource;
+  reward_id: string | null;
+  unlocked_at: string;
+}
@@ -0,0 +1,23 @@
+export type StatType = 'strength' | 'speed' | 'magic' | 'willpower';
+
+export interface Workout {
+  id?: string;
+  user_id: string;
+  character_id?: string;
+  exercise: string;
+  stat_type: StatType;
+  sets?: number | null;
+  reps?: number | null;
+  weight_kg?: number | null;
+  duration_minutes?: number | null;
+  distance_km?: number | null;
+  elevation_ft?: number | null;
+  perceived_effort: number; // RPE, 1 (very easy) to 10 (max effort)
+  // Set by the database from the logged volume
+  xp_earned: number;
+  stat_gain: number;
+  created_at?: string;
+}
+
+// What the user fills in on the log form, before XP is calculated
+export type WorkoutEntry = Omit<Workout, 'id' | 'user_id' | 'character_id' | 'xp_earned' | 'stat_gain' | 'created_at'>;
@@ -0,0 +1,51 @@
+export type WorldBossStatus = 'active' | 'defeated' | 'escaped';
+
+// Lore and artwork for a boss in the rotation
+export interface WorldBossInfo {
+  key: string;
+  name: string;
+  icon: string;
+  color: string;
+  lore: string;
+  // Shown once the community has brought it down
+  defeatText: string;
+  lootItemId: string;
+}
+
+// One row of the world_bosses table
+export interface WorldBoss {
+  id: string;
+  boss_key: string;
+  name: string;
+  max_hp: number;
+  hp: number;
+  status: WorldBossStatus;
+  loot_item_id: string;
+  loot_slot: string;
+  starts_at: string;
+  ends_at: string;
+  defeated_at: string | null;
+  created_at: string;
+}
+
+// One row of the boss_contributions table
+export interface BossContribution {
+  boss_id: string;
+  user_id: string;
+  damage: number;
+  hits: number;
+  last_hit_at: string;
+}
+
+// A contribution with the character name for the top-contributors board
+export interface BossContributor extends BossContribution {
+  name: string;
+}
+
+// What strike_world_boss reports back after a workout is logged
+export interface BossStrikeResult {
+  damage: number;
+  hits: number;
+  defeated: boolean;
+  boss: WorldBoss | null;
+}